@@ -3,6 +3,8 @@ import path from "path";
 
 const nextConfig: NextConfig = {
   outputFileTracingRoot: path.join(__dirname),
+  // Reads its bundled cities.pbf relative to its own directory, so it must not be bundled
+  serverExternalPackages: ["all-the-cities"],
 };
 
 export default nextConfig;
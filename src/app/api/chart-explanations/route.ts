@@ -1,5 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import type { AstrologyReading } from '@/types/astrology';
+import type {
+  AngleRange, Aspect, AspectPattern, AspectProfile, AstrologyReading, DashaLord, DispositorTree, DivisionalChart, PlanetDignities,
+  TimeUncertainty, VedicReading
+} from '@/types/astrology';
+import { calculateHousePosition, HOUSE_SYSTEM_NAMES } from '@/lib/houses';
+import { detectAspectPatterns } from '@/lib/patterns';
+import { aspectWeight, byAspectWeight, describeAspectPhase } from '@/lib/aspects';
+import { assignDignities, isDayChart, TRADITIONAL_PLANETS } from '@/lib/dignities';
+import { calculateDispositors } from '@/lib/dispositors';
+import { EXTRA_POINT_NAMES, EXTRA_POINTS } from '@/lib/points';
+import { AYANAMSA_NAMES, formatAyanamsa, toTropicalLongitude } from '@/lib/sidereal';
+import { calculateVedicChart, DIVISIONAL_CHARTS, getNakshatra } from '@/lib/vedic';
+import { julianDay, normalizeDegrees } from '@/lib/ephemeris';
 
 export async function POST(request: NextRequest) {
   try {
@@ -31,7 +43,26 @@ export async function POST(request: NextRequest) {
 
 async function generateChartExplanations(reading: AstrologyReading) {
   const explanations = [];
+
+  // 0. What kind of chart this is, for anything other than a natal chart
+  const chartTypeIntroduction = generateChartTypeIntroduction(reading);
+  if (chartTypeIntroduction) {
+    explanations.push({
+      id: 'chart-type',
+      title: reading.chartLabel || 'About This Chart',
+      content: chartTypeIntroduction
+    });
+  }
   
+  // 0b. What an approximate or unknown birth time leaves open
+  if (reading.timeUncertainty) {
+    explanations.push({
+      id: 'time-uncertainty',
+      title: 'Your Birth Time',
+      content: generateTimeUncertaintyExplanation(reading.timeUncertainty)
+    });
+  }
+
   // 1. Planetary Positions Explanation
   const planetaryExplanation = generatePlanetaryPositionsExplanation(reading);
   explanations.push({
@@ -79,10 +110,34 @@ async function generateChartExplanations(reading: AstrologyReading) {
     title: 'Your Power Structure',
     content: dispositorExplanation
   });
+
+  // 7. Vedic Chart Explanation: nakshatras and dashas are read from the birth moment, so derived charts have none
+  if (!reading.chartType) {
+    explanations.push({
+      id: 'vedic-chart',
+      title: 'Your Vedic Chart',
+      content: generateVedicExplanation(reading)
+    });
+  }
   
   return explanations;
 }
 
+function generateChartTypeIntroduction(reading: AstrologyReading): string | null {
+  const introductions: Partial<Record<NonNullable<AstrologyReading['chartType']>, string>> = {
+    'progressed': 'This is a secondary progressed chart: each day after birth stands for a year of life. It shows how the natal promise has unfolded by the target date. Read it alongside the birth chart, not instead of it.',
+    'solar-arc': 'This is a solar arc directed chart: every point has moved forward by the distance the progressed Sun has travelled. Directed planets meeting natal points mark the turning points of the period.',
+    'solar-return': 'This is a solar return chart, cast for the moment the Sun returns to its natal degree. It describes the themes of the year until the next birthday.',
+    'lunar-return': 'This is a lunar return chart, cast for the moment the Moon returns to its natal degree. It describes the emotional weather of the coming month.',
+    'composite': 'This is a composite chart, built from the midpoints between two people\'s planets. It describes the relationship as its own entity, with its own purpose and challenges, rather than either person.',
+    'davison': 'This is a Davison relationship chart, cast for the midpoint in time and space between two births. Like a composite, it speaks for the relationship itself. Because it is a real moment, it can also be progressed and transited.',
+    'harmonic': `This is a harmonic chart: every position has been multiplied by ${reading.harmonic ?? 'the harmonic number'}. Aspects of that harmonic in the natal chart turn into conjunctions here, so each conjunction shows a theme the harmonic brings out - the 4th for effort and struggle, the 5th for style and creative power, the 7th for inspiration, the 9th for joy and fulfilment.`
+  };
+
+  if (!reading.chartType || reading.chartType === 'natal') return null;
+  return introductions[reading.chartType] || null;
+}
+
 function generatePlanetaryPositionsExplanation(reading: AstrologyReading): string {
   const { sun, moon, mercury, venus, mars, jupiter, saturn, uranus, neptune, pluto, ascendant } = reading;
   
@@ -91,11 +146,13 @@ function generatePlanetaryPositionsExplanation(reading: AstrologyReading): strin
   
   return `**Core Identity**
 
-Sun ${sun.sign} ${sun.degree.toFixed(1)}° - ${getSignDescription(sun.sign, 'Sun')}
+Sun ${sun.sign} ${sun.degree.toFixed(1)}°${alternativeSigns(reading, 'Sun')} - ${getSignDescription(sun.sign, 'Sun')}
 
-Moon ${moon.sign} ${moon.degree.toFixed(1)}° - ${getSignDescription(moon.sign, 'Moon')}
+Moon ${moon.sign} ${moon.degree.toFixed(1)}°${alternativeSigns(reading, 'Moon')} - ${getSignDescription(moon.sign, 'Moon')}
 
-Ascendant ${ascendantSign} - How you appear to others and approach new situations.
+${reading.timeUncertainty && reading.timeUncertainty.ascendant.signs.length > 1
+  ? `Ascendant unknown - depending on the birth time it could be ${describeAscendantSigns(reading.timeUncertainty.ascendant)}.`
+  : `Ascendant ${ascendantSign} - How you appear to others and approach new situations.`}
 
 **Communication & Relationships**
 
@@ -113,17 +170,228 @@ Saturn ${saturn.sign} ${saturn.degree.toFixed(1)}° - ${getSignDescription(satur
 
 **Outer Planets**
 
-Uranus ${uranus.sign}, Neptune ${neptune.sign}, Pluto ${pluto.sign} - Generational influences shaping innovation, spirituality, and transformation in your life.`;
+Uranus ${uranus.sign}, Neptune ${neptune.sign}, Pluto ${pluto.sign} - Generational influences shaping innovation, spirituality, and transformation in your life.
+${formatExtraPoints(reading)}${formatDeclinations(reading)}
+**Essential Dignities**
+
+${formatEssentialDignities(reading)}`;
+}
+
+const EXTRA_POINT_MEANINGS: Record<string, { essence: string; houseFocus: string }> = {
+  'Chiron': {
+    essence: 'The wounded healer: a lasting sore spot that in time becomes your gift for helping others through the same pain.',
+    houseFocus: 'The wound and the healing gift live in'
+  },
+  'Mean Lilith': {
+    essence: 'Black Moon Lilith (mean apogee): the raw, exiled part of you that refuses to be tamed or made acceptable.',
+    houseFocus: 'Rejected instinct and untamed power surface in'
+  },
+  'True Lilith': {
+    essence: 'Black Moon Lilith (true apogee): the raw, exiled part of you that refuses to be tamed, shown at its moment-to-moment position.',
+    houseFocus: 'Rejected instinct and untamed power surface in'
+  },
+  'South Node': {
+    essence: 'Past mastery and comfort zone: skills that come easily, but turn into a rut when leaned on instead of the North Node.',
+    houseFocus: 'Familiar, overdeveloped habits centre on'
+  },
+  'Part of Fortune': {
+    essence: 'Where body, luck and material well-being flow most naturally.',
+    houseFocus: 'Ease and fortune come through'
+  },
+  'Part of Spirit': {
+    essence: 'Where your will, purpose and deliberate action find their aim.',
+    houseFocus: 'Purpose and intentional effort focus on'
+  },
+  'Vertex': {
+    essence: 'A point of fated encounters: people and events that seem to arrive from outside your control.',
+    houseFocus: 'Fated meetings and turning points involve'
+  },
+  'East Point': {
+    essence: 'A second ascendant: the self-image you project before you think about it.',
+    houseFocus: 'Spontaneous self-expression colours'
+  }
+};
+
+const HOUSE_AREAS = [
+  '', 'self and appearance', 'money and values', 'communication and siblings', 'home and family',
+  'creativity and romance', 'work and health', 'partnership', 'shared resources and intimacy',
+  'beliefs and travel', 'career and reputation', 'friends and community', 'solitude and the unconscious'
+];
+
+function getExtraPointInHouse(pointName: string, house: number): string | undefined {
+  const meaning = EXTRA_POINT_MEANINGS[pointName];
+  return meaning && `${meaning.houseFocus} ${HOUSE_AREAS[house]}.`;
+}
+
+// Only the points the chart was cast with; empty for a plain chart
+function formatExtraPoints(reading: AstrologyReading): string {
+  const points = EXTRA_POINTS.flatMap(point => {
+    const planet = reading.planets.find(p => p.name === EXTRA_POINT_NAMES[point]);
+    return planet ? [planet] : [];
+  });
+  if (points.length === 0) return '';
+
+  const dayChart = isDayChart(reading.sun.longitude, reading.ascendant);
+  const lines = points.map(point => {
+    const house = calculateHousePosition(point.longitude, reading.houseCusps);
+    const formula = point.name === 'Part of Fortune' || point.name === 'Part of Spirit'
+      ? ` (${dayChart ? 'day' : 'night'} formula)`
+      : '';
+    const placement = `${point.name} ${point.sign} ${point.degree.toFixed(1)}°${point.retrograde && point.name === 'Chiron' ? ' (Rx)' : ''}${formula}`;
+    return housesTrusted(reading)
+      ? `${placement}, ${house}H - ${EXTRA_POINT_MEANINGS[point.name].essence} ${getExtraPointInHouse(point.name, house)}`
+      : `${placement} - ${EXTRA_POINT_MEANINGS[point.name].essence}`;
+  });
+
+  return `
+**Sensitive Points**
+
+${lines.join('\n\n')}
+`;
+}
+
+function formatDeclinationValue(declination: number): string {
+  return `${Math.abs(declination).toFixed(1)}°${declination < 0 ? 'S' : 'N'}`;
+}
+
+// Empty for readings saved before declinations were calculated
+function formatDeclinations(reading: AstrologyReading): string {
+  const planets = reading.planets.filter(planet => planet.declination !== undefined);
+  if (planets.length === 0) return '';
+
+  const outOfBounds = planets.filter(planet => planet.outOfBounds);
+  return `
+**Declinations**
+
+${planets.map(planet => `${planet.name} ${formatDeclinationValue(planet.declination!)}`).join(', ')}
+
+${outOfBounds.length > 0
+    ? outOfBounds.map(planet => `${planet.name} is out of bounds at ${formatDeclinationValue(planet.declination!)}, beyond the Sun's furthest reach. It works outside the usual rules: original, uncontained and prone to extremes, a gift once it is owned.`).join('\n\n')
+    : 'No planet is out of bounds; every planet stays within the Sun\'s reach and works through conventional channels.'}
+`;
+}
+
+// Readings saved before dignities were stored get them computed here
+function formatEssentialDignities(reading: AstrologyReading): string {
+  const planets = reading.planets.some(planet => planet.dignities)
+    ? reading.planets
+    : assignDignities(reading.planets, reading.ascendant);
+
+  const lines = planets
+    .flatMap(planet => TRADITIONAL_PLANETS.includes(planet.name) && planet.dignities
+      ? [`${planet.name} in ${planet.sign}: ${describeDignities(planet.sign, planet.dignities)}`]
+      : []);
+
+  // Each pair once, from the first planet of the pair in chart order
+  const receptions = planets.flatMap((planet, index) =>
+    (planet.dignities?.mutualReceptions || [])
+      .filter(reception => planets.findIndex(p => p.name === reception.planet) > index)
+      .map(reception => `${planet.name} and ${reception.planet} are in mutual reception${reception.type === 'mixed' ? ' (one by rulership, one by exaltation)' : ` by ${reception.type}`} - each strengthens the other, and they can step into each other's roles.`)
+  );
+
+  return [...lines, ...(receptions.length > 0 ? ['', ...receptions] : [])].join('\n');
+}
+
+function describeDignities(sign: string, dignities: PlanetDignities): string {
+  const held = [
+    dignities.rulership && 'domicile',
+    dignities.exaltation && 'exaltation',
+    dignities.triplicity && 'triplicity',
+    dignities.term && 'term',
+    dignities.face && 'face',
+    dignities.detriment && 'detriment',
+    dignities.fall && 'fall'
+  ].filter(Boolean);
+  const score = `${dignities.score > 0 ? '+' : ''}${dignities.score}`;
+
+  const meaning = dignities.rulership ? 'At home, acting with full authority and resources.' :
+    dignities.exaltation ? 'An honoured guest, at its best, though prone to overreach.' :
+    dignities.detriment ? 'Working against the grain of its sign; effective through effort and unusual methods.' :
+    dignities.fall ? 'Underestimated and unsure of itself; confidence has to be earned.' :
+    dignities.peregrine ? `Wandering without a base of its own, it takes its cue from ${dignities.signRuler}, the ruler of ${sign}.` :
+    'Modest support from its position, enough to act with some skill.';
+
+  return `${held.length > 0 ? held.join(', ') : 'peregrine'} (${score}). ${meaning}`;
+}
+
+const UNTRUSTED_HOUSES_NOTE = 'House placements are left out: within the birth time given, planets cross from one house to another, so no house reading can be relied on.';
+
+// Houses are trusted for an exact time, or when every planet stays in its house across the time window
+function housesTrusted(reading: AstrologyReading): boolean {
+  return !reading.timeUncertainty || reading.timeUncertainty.housesReliable;
+}
+
+// Other signs a planet could be in within the birth time window, e.g. " (or Cancer, depending on the birth time)"
+function alternativeSigns(reading: AstrologyReading, name: string): string {
+  const placement = reading.timeUncertainty?.placements.find(p => p.name === name);
+  const planet = reading.planets.find(p => p.name === name);
+  if (!placement || placement.signCertain || !planet) return '';
+  return ` (or ${joinNames(placement.signs.filter(sign => sign !== planet.sign))}, depending on the birth time)`;
+}
+
+function describeAscendantSigns(range: AngleRange): string {
+  return range.signs.length > 3 ? 'any sign' : range.signs.join(' or ');
+}
+
+function formatAngleRange(range: AngleRange): string {
+  const describe = (longitude: number) => `${(longitude % 30).toFixed(1)}° ${getSignFromLongitude(longitude)}`;
+  return range.signs.length > 3
+    ? `anywhere in the zodiac (${range.signs.length} signs pass through during the day)`
+    : `between ${describe(range.start)} and ${describe(range.end)}`;
+}
+
+function generateTimeUncertaintyExplanation(uncertainty: TimeUncertainty): string {
+  const castFor = {
+    midpoint: `the middle of the ${uncertainty.window.start}-${uncertainty.window.end} window`,
+    noon: 'noon, since the birth time is unknown',
+    sunrise: 'sunrise, with the Sun on the Ascendant, since the birth time is unknown'
+  }[uncertainty.castFor];
+  const certain = uncertainty.placements.filter(placement => placement.signCertain);
+  const changing = uncertainty.placements.filter(placement => !placement.signCertain);
+
+  return `**Chart Moment**
+This chart is cast for ${castFor}. Everything below that depends on the exact time is marked or left out.
+
+**Certain Placements**
+${certain.length > 0 ? certain.map(placement => `${placement.name} ${placement.signs[0]}`).join(', ') : 'None.'}
+
+**Sign Changes Within the Window**
+${changing.length > 0
+    ? changing.map(placement => `${placement.name}: ${placement.signs.join(' → ')}`).join('\n')
+    : 'None - every planet keeps its sign whatever the exact time.'}
+
+**Angles**
+Ascendant ${formatAngleRange(uncertainty.ascendant)}
+Midheaven ${formatAngleRange(uncertainty.midheaven)}
+
+**Houses**
+${uncertainty.housesReliable
+    ? 'Every planet stays in the same house throughout the window, so the house placements can be trusted.'
+    : `Uncertain for ${joinNames(uncertainty.placements.filter(placement => !placement.houseCertain).map(placement => placement.name))}, so house-based interpretations are left out.`}`;
 }
 
 function generateHouseSystemExplanation(reading: AstrologyReading): string {
-  const { houses, ascendant, midheaven } = reading;
+  const { houses, ascendant, midheaven, houseSystem, requestedHouseSystem, timeUncertainty } = reading;
+
+  if (timeUncertainty && !timeUncertainty.housesReliable) {
+    return `**Houses Left Open**
+
+${UNTRUSTED_HOUSES_NOTE}
+
+Ascendant: ${formatAngleRange(timeUncertainty.ascendant)}
+Midheaven: ${formatAngleRange(timeUncertainty.midheaven)}
+
+A more precise birth time - from a birth certificate, hospital record or a family member - or a rectification from dated life events would bring the houses into focus.`;
+  }
   
   const ascendantSign = getSignFromLongitude(ascendant);
   const midheavenSign = getSignFromLongitude(midheaven);
   
   return `**House System Layout**
 
+System: ${getHouseSystemDescription(houseSystem)}${requestedHouseSystem ? `
+${HOUSE_SYSTEM_NAMES[requestedHouseSystem]} houses cannot be drawn at this latitude, so ${HOUSE_SYSTEM_NAMES[houseSystem]} cusps are used instead.` : ''}
+
 1st House (Self): ${ascendantSign} - Your identity and approach to life
 10th House (Career): ${midheavenSign} - Your public role and reputation
 
@@ -146,16 +414,18 @@ function generateAspectsExplanation(reading: AstrologyReading): string {
     return "Few major aspects. Planetary energies operate independently.";
   }
 
-  // Categorize aspects by type and strength
-  const tightAspects = aspects.filter(a => a.orb < 2);
-  const beneficialAspects = aspects.filter(a => ['Trine', 'Sextile'].includes(a.aspect));
-  const challengingAspects = aspects.filter(a => ['Square', 'Opposition'].includes(a.aspect));
+  // Categorize aspects by type and strength, strongest first so applying aspects lead
+  const weighted = [...aspects].sort(byAspectWeight);
+  const tightAspects = weighted.filter(a => a.orb < 2);
+  const beneficialAspects = weighted.filter(a => ['Trine', 'Sextile'].includes(a.aspect));
+  const challengingAspects = weighted.filter(a => ['Square', 'Opposition'].includes(a.aspect));
   const conjunctions = aspects.filter(a => a.aspect === 'Conjunction');
+  const minorAspects = aspects.filter(a => MINOR_ASPECTS.includes(a.aspect));
 
-  return `**Tight Aspects (Under 2°)**
+  return `${formatAspectProfile(reading.aspectProfile)}**Tight Aspects (Under 2°)**
 ${tightAspects.length > 0 ? 
     tightAspects.map(aspect => 
-      `${aspect.planet1} ${getAspectSymbol(aspect.aspect)} ${aspect.planet2} (${aspect.orb.toFixed(1)}°) - ${getAspectDescription(aspect.aspect, aspect.planet1, aspect.planet2)}`
+      `${aspect.planet1} ${getAspectSymbol(aspect.aspect)} ${aspect.planet2} (${formatOrbAndPhase(aspect)}) - ${getAspectDescription(aspect.aspect, aspect.planet1, aspect.planet2)}`
     ).join('\n')
     : 'None. Planetary energies operate with independence.'}
 
@@ -179,12 +449,105 @@ ${conjunctions.length > 0 ?
       `${aspect.planet1} ☌ ${aspect.planet2} - ${getConjunctionDescription(aspect.planet1, aspect.planet2)}`
     ).join('\n')
     : 'No major conjunctions. Planetary energies remain distinct.'}
+${minorAspects.length > 0 ? `
+**Minor Aspects (Subtle Influences)**
+${minorAspects.slice(0, 8).map(aspect =>
+    `${aspect.planet1} ${getAspectSymbol(aspect.aspect)} ${aspect.planet2} (${aspect.orb.toFixed(1)}°) - ${getGeneralAspectMeaning(aspect.aspect)}`
+  ).join('\n')}
+` : ''}${formatDeclinationAspects(reading.declinationAspects)}
+**Aspect Patterns (Multi-Planet Configurations)**
+${formatAspectPatterns(reading.patterns ?? detectAspectPatterns(reading.planets, aspects, reading.houseCusps))}
 
 **Overall Pattern: ${getOverallAspectPattern(aspects).toUpperCase()}**
 ${getPatternDescription(getOverallAspectPattern(aspects))}`;
 }
 
+// Parallels act like conjunctions and contraparallels like oppositions, measured in declination
+function formatDeclinationAspects(aspects: Aspect[] | undefined): string {
+  if (!aspects || aspects.length === 0) return '';
+  return `
+**Parallels & Contraparallels (Declination)**
+${aspects.slice(0, 8).map(aspect =>
+    `${aspect.planet1} ${getAspectSymbol(aspect.aspect)} ${aspect.planet2} (${aspect.orb.toFixed(1)}°) - ${aspect.aspect === 'Parallel'
+      ? 'Works like a conjunction: the two blend and reinforce each other.'
+      : 'Works like an opposition: the two pull against each other and seek balance.'}`
+  ).join('\n')}
+`;
+}
+
+function formatOrbAndPhase(aspect: Aspect): string {
+  const phase = describeAspectPhase(aspect);
+  return `${aspect.orb.toFixed(1)}°${phase ? `, ${phase}` : ''}`;
+}
+
+const MINOR_ASPECTS = ['Semi-sextile', 'Semi-square', 'Sesquiquadrate', 'Quintile', 'Biquintile', 'Septile'];
+
+const ORB_POLICY_DESCRIPTIONS: Record<AspectProfile['orbPolicy'], string> = {
+  flat: 'the same orb for every planet',
+  luminaries: 'wider orbs for the Sun and Moon, tighter for the outer planets',
+  moieties: "each planet's traditional moiety"
+};
+
+// Only charts cast with something other than the standard aspect set say which one they used
+function formatAspectProfile(profile: AspectProfile | undefined): string {
+  if (!profile || (profile.preset === 'default' && !profile.custom)) return '';
+  return `**Aspect Set: ${profile.preset}${profile.custom ? ' (customised)' : ''}**
+${profile.aspects.map(aspect => `${aspect.name} ${aspect.orb}°`).join(', ')}; orbs use ${ORB_POLICY_DESCRIPTIONS[profile.orbPolicy]}.
+
+`;
+}
+
+function formatAspectPatterns(patterns: AspectPattern[]): string {
+  if (patterns.length === 0) {
+    return 'No major configurations. Aspects work as individual conversations rather than a larger design.';
+  }
+
+  return patterns.map(pattern => {
+    const where = pattern.sign ? ` in ${pattern.sign}` :
+      pattern.house ? ` in ${pattern.house}H` : '';
+    const quality = pattern.element || pattern.modality;
+    const focus = pattern.apex ? `, focal point ${pattern.apex}` : '';
+    return `${pattern.type}${where}${quality ? ` (${quality})` : ''}: ${pattern.planets.join(', ')}${focus} - ${getAspectPatternInterpretation(pattern)}`;
+  }).join('\n');
+}
+
+function getAspectPatternInterpretation(pattern: AspectPattern): string {
+  switch (pattern.type) {
+    case 'Grand Trine':
+      return `A closed circuit of ease${pattern.element ? ` through ${pattern.element}` : ''}. Gifts flow freely, but comfort can breed complacency.`;
+    case 'Kite':
+      return `The Grand Trine gets a direction: ${pattern.apex} pulls its talents into purposeful, visible achievement.`;
+    case 'T-Square':
+      return `Tension between ${pattern.planets[0]} and ${pattern.planets[1]} discharges through ${pattern.apex}, your engine of drive and hard-won growth.`;
+    case 'Grand Cross':
+      return `Four-way tension${pattern.modality ? ` in ${pattern.modality} signs` : ''}. Demanding, but it builds unusual resilience and balance once mastered.`;
+    case 'Yod':
+      return `The "finger of fate": ${pattern.apex} must keep adjusting to integrate two cooperating planets. A sense of special mission.`;
+    case 'Mystic Rectangle':
+      return 'Two oppositions held together by trines and sextiles. Tension that resolves into practical, creative harmony.';
+    case 'Stellium':
+      return pattern.sign
+        ? `Concentrated ${pattern.sign} energy colors the whole personality.`
+        : `Life focus gathers around ${pattern.house}H themes.`;
+    default:
+      return 'A notable planetary configuration.';
+  }
+}
+
 // Helper functions
+function getHouseSystemDescription(houseSystem: AstrologyReading['houseSystem']): string {
+  const descriptions: Record<string, string> = {
+    'placidus': 'Placidus - time-based houses that trisect each degree\'s journey from horizon to meridian.',
+    'koch': 'Koch - birthplace houses built from the Midheaven degree\'s rising time.',
+    'whole-sign': 'Whole Sign - each house is one complete sign, starting with the rising sign.',
+    'equal': 'Equal - twelve 30° houses measured from the Ascendant.',
+    'porphyry': 'Porphyry - each quadrant between the angles divided into three equal parts.',
+    'regiomontanus': 'Regiomontanus - houses from equal divisions of the celestial equator.',
+    'campanus': 'Campanus - houses from equal divisions of the prime vertical.'
+  };
+  return descriptions[houseSystem] || 'Equal - twelve 30° houses measured from the Ascendant.';
+}
+
 function getSignFromLongitude(longitude: number): string {
   const signs = ['Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo', 'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces'];
   return signs[Math.floor(longitude / 30)];
@@ -362,7 +725,7 @@ function getPlanetInHouseInterpretation(planetName: string, house: number): stri
     }
   };
   
-  return interpretations[planetName]?.[house] || `${planetName} brings its energy to ${house}H themes.`;
+  return interpretations[planetName]?.[house] || getExtraPointInHouse(planetName, house) || `${planetName} brings its energy to ${house}H themes.`;
 }
 
 function getSignDescription(sign: string, planet: string): string {
@@ -497,25 +860,6 @@ function analyzeHousePatterns(reading: AstrologyReading): string {
   return `Your chart shows emphasis in the ${emphasizedHouses.map(h => `${houseNames[h.house]} house (${h.count} planets)`).join(', ')}, suggesting these life areas will be particularly important themes for you.`;
 }
 
-function calculateHousePosition(longitude: number, houseCusps: number[]): number {
-  for (let i = 0; i < houseCusps.length; i++) {
-    const currentCusp = houseCusps[i];
-    const nextCusp = houseCusps[(i + 1) % houseCusps.length];
-    
-    if (nextCusp > currentCusp) {
-      if (longitude >= currentCusp && longitude < nextCusp) {
-        return i + 1;
-      }
-    } else {
-      // Handle wrap-around case (e.g., 11th to 12th house)
-      if (longitude >= currentCusp || longitude < nextCusp) {
-        return i + 1;
-      }
-    }
-  }
-  return 1; // Default to 1st house
-}
-
 function getAspectSymbol(aspect: string): string {
   const symbols: Record<string, string> = {
     'Conjunction': '☌',
@@ -523,7 +867,15 @@ function getAspectSymbol(aspect: string): string {
     'Trine': '△',
     'Square': '□',
     'Sextile': '⚹',
-    'Quincunx': '⚻'
+    'Quincunx': '⚻',
+    'Semi-sextile': '⚺',
+    'Semi-square': '∠',
+    'Sesquiquadrate': '⚼',
+    'Quintile': 'Q',
+    'Biquintile': 'bQ',
+    'Septile': 'S',
+    'Parallel': '∥',
+    'Contraparallel': '⋕'
   };
   return symbols[aspect] || '○';
 }
@@ -564,7 +916,13 @@ function getGeneralAspectMeaning(aspect: string): string {
     'Trine': 'Natural talent and easy flow between these areas.',
     'Square': 'Dynamic tension that drives growth and achievement.',
     'Sextile': 'Opportunities for cooperation and skill development.',
-    'Quincunx': 'Requires adjustment and conscious effort to integrate.'
+    'Quincunx': 'Requires adjustment and conscious effort to integrate.',
+    'Semi-sextile': 'Subtle link between neighbouring signs that grows through small, steady efforts.',
+    'Semi-square': 'Low-level friction that nags until it is dealt with.',
+    'Sesquiquadrate': 'Agitation that surfaces in bursts and pushes for a release.',
+    'Quintile': 'A creative talent that develops through practice and play.',
+    'Biquintile': 'An unusual gift for pattern and style that matures over time.',
+    'Septile': 'A fated or inspired thread that is felt more than explained.'
   };
   return meanings[aspect] || 'These energies interact in unique ways.';
 }
@@ -719,14 +1077,24 @@ function getAspectNature(aspect: string): string {
     'Trine': 'harmonious',
     'Square': 'dynamic',
     'Sextile': 'supportive',
-    'Quincunx': 'adjusting'
+    'Quincunx': 'adjusting',
+    'Semi-sextile': 'mildly supportive',
+    'Semi-square': 'irritating',
+    'Sesquiquadrate': 'agitating',
+    'Quintile': 'creative',
+    'Biquintile': 'creative',
+    'Septile': 'inspired'
   };
   return natures[aspect] || 'complex';
 }
 
-function getOverallAspectPattern(aspects: Array<{ aspect: string }>): string {
-  const beneficial = aspects.filter(a => ['Trine', 'Sextile'].includes(a.aspect)).length;
-  const challenging = aspects.filter(a => ['Square', 'Opposition'].includes(a.aspect)).length;
+// Weighted so that building (applying) aspects tip the balance more than fading ones
+function getOverallAspectPattern(aspects: Aspect[]): string {
+  const total = (names: string[]) => aspects
+    .filter(a => names.includes(a.aspect))
+    .reduce((sum, a) => sum + aspectWeight(a), 0);
+  const beneficial = total(['Trine', 'Sextile']);
+  const challenging = total(['Square', 'Opposition']);
   
   if (beneficial > challenging * 1.5) return 'flowing';
   if (challenging > beneficial * 1.5) return 'dynamic';
@@ -801,35 +1169,194 @@ ${getOverallModalityPersonality(dominant.name, lacking.name)}`;
 }
 
 function generateDispositorChartExplanation(reading: AstrologyReading): string {
-  // Extract dispositor data from chartDescription
-  const chartData = reading.chartDescription || '';
-  const dispositorMatch = chartData.match(/\[DISPOSITOR TREE\]\n((?:.|\n)*?)(?=\[|$)/);
-  
-  if (!dispositorMatch) {
-    return 'Dispositor tree data not available for detailed analysis.';
-  }
+  // Readings saved before dispositors were stored get them computed here
+  const { traditional, modern } = reading.dispositors ?? calculateDispositors(reading.planets, reading.ascendant);
+  const modernDiffers = describeTerminals(modern) !== describeTerminals(traditional);
 
-  const dispositorData = dispositorMatch[1].trim();
-  
-  // Simple analysis based on the raw data
-  const hasCycles = dispositorData.includes('(cycle)');
-  const hasFinals = dispositorData.includes('(final)');
-  
-  return `${dispositorData}
+  return `**Chart Ruler**
+${formatChartRuler(reading, traditional.chartRuler)}${modern.chartRuler !== traditional.chartRuler ? `
+Modern ruler: ${formatChartRuler(reading, modern.chartRuler)}` : ''}
+
+**Traditional Dispositor Tree**
+${formatDispositorTree(traditional)}
+
+**Modern Dispositor Tree**
+${formatDispositorTree(modern)}
 
 **Power Structure Analysis**
-${hasCycles && hasFinals ? 
-  'Mixed authority structure with both final dispositors and mutual reception cycles. Some planets flow to ultimate authorities while others support each other in cooperative cycles.' :
-  hasCycles ? 
-  'Mutual reception dominant structure. Most planetary energies support each other in cooperative cycles rather than flowing to single authorities.' :
-  hasFinals ?
-  'Hierarchical structure with clear final dispositors. Planetary energies flow to ultimate governing planets that organize your psychological functions.' :
-  'Complex distributed authority with no clear final dispositors or major cycles.'}
+${describePowerStructure(traditional)}${modernDiffers ? `
+With modern rulers: ${describePowerStructure(modern)}` : ''}
 
 **Integration Strategy**
-${hasCycles ? 
-  'Focus on developing the cooperative relationships between planets in cycles. These mutual support systems are your greatest strength - cultivate the balance between these planetary functions.' :
-  'Work on strengthening your final dispositor planets as they organize all other energies. These governing planets are key to your psychological integration and life effectiveness.'}`; 
+${traditional.finalDispositors.length > 0 ?
+  `Work on strengthening ${joinNames(traditional.finalDispositors)}, as ${traditional.finalDispositors.length > 1 ? 'they organise' : 'it organises'} the planets that feed into ${traditional.finalDispositors.length > 1 ? 'them' : 'it'}. When ${traditional.finalDispositors.length > 1 ? 'these planets are' : 'this planet is'} well expressed, the rest of the chart falls into line.` :
+  `Focus on the cooperation within ${joinNames(traditional.cycles.map(cycle => joinNames(cycle)))}. These mutual support systems are your greatest strength - cultivate the balance between these planetary functions.`}`;
+}
+
+function joinNames(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] || '';
+}
+
+function describeTerminals(tree: DispositorTree): string {
+  return [...tree.finalDispositors, ...tree.cycles.map(cycle => [...cycle].sort().join('+'))].sort().join(',');
+}
+
+function formatChartRuler(reading: AstrologyReading, ruler: string): string {
+  const ascendantSigns = reading.timeUncertainty?.ascendant.signs;
+  if (ascendantSigns && ascendantSigns.length > 1) {
+    return `Unknown - the ruler follows the Ascendant, which could be ${describeAscendantSigns(reading.timeUncertainty!.ascendant)} within the birth time given.`;
+  }
+  const planet = reading.planets.find(p => p.name === ruler);
+  if (!planet) return ruler;
+  if (!housesTrusted(reading)) return `${ruler} in ${planet.sign} - the ruler of your ${getSignFromLongitude(reading.ascendant)} Ascendant steers the whole chart.`;
+  const house = calculateHousePosition(planet.longitude, reading.houseCusps);
+  return `${ruler} in ${planet.sign}, ${house}H - the ruler of your ${getSignFromLongitude(reading.ascendant)} Ascendant steers the whole chart from this house.`;
+}
+
+// Final dispositors and cycles at the root, with the planets they dispose indented beneath
+function formatDispositorTree(tree: DispositorTree): string {
+  const nodes = new Map(tree.nodes.map(node => [node.planet, node]));
+
+  const branch = (planet: string, indent: string): string[] =>
+    (nodes.get(planet)?.disposes || [])
+      .filter(child => !nodes.get(child)?.inCycle)
+      .flatMap(child => [`${indent}← ${child} (${nodes.get(child)?.sign})`, ...branch(child, `${indent}  `)]);
+
+  const roots = [
+    ...tree.finalDispositors.map(final => [`${final} (${nodes.get(final)?.sign}) [FINAL]`, ...branch(final, '  ')]),
+    ...tree.cycles.map(cycle => [
+      `${[...cycle, cycle[0]].join(' → ')} [CYCLE]`,
+      ...cycle.flatMap(member => branch(member, '  '))
+    ])
+  ];
+  return roots.map(lines => lines.join('\n')).join('\n');
+}
+
+function describePowerStructure(tree: DispositorTree): string {
+  const parts: string[] = [];
+  const { finalDispositors, cycles } = tree;
+
+  if (finalDispositors.length === 1 && cycles.length === 0) {
+    parts.push(`${finalDispositors[0]} is the sole final dispositor: every chain of rulership ends with it, so it organises the whole chart.`);
+  } else if (finalDispositors.length > 0) {
+    parts.push(finalDispositors.length > 1
+      ? `${joinNames(finalDispositors)} are final dispositors, each at home in its own sign and governing its own branch of the chart.`
+      : `${finalDispositors[0]} is a final dispositor, at home in its own sign and governing its branch of the chart.`);
+  }
+
+  for (const cycle of cycles) {
+    parts.push(cycle.length === 2
+      ? `${joinNames(cycle)} are in mutual reception and dispose each other, so neither has the last word; they run their part of the chart as partners.`
+      : `${joinNames(cycle)} dispose one another in a loop, sharing authority like a committee rather than a chain of command.`);
+  }
+
+  const longest = tree.nodes.reduce((deepest, node) => node.depth > deepest.depth ? node : deepest, tree.nodes[0]);
+  if (longest && longest.depth >= 3) {
+    parts.push(`The longest chain runs ${longest.chain.join(' → ')}, so ${longest.planet} acts through several intermediaries.`);
+  }
+
+  return parts.join(' ');
+}
+
+const NAKSHATRA_THEMES = [
+  'swift healing and new starts', 'endurance, restraint and creative power', 'sharp purification and courage',
+  'growth, beauty and abundance', 'curious searching', 'storms that clear the way', 'renewal and return',
+  'nourishment and care', 'penetrating insight', 'ancestry and authority', 'pleasure and rest', 'loyal partnership',
+  'skill of the hands', 'brilliant craftsmanship', 'independence and movement', 'single-minded ambition',
+  'devoted friendship', 'seniority and protection', 'getting to the root', 'invincible conviction',
+  'lasting victory', 'listening and learning', 'rhythm and prosperity', 'healing and secrecy',
+  'fiery transformation', 'deep stability', 'safe passage and completion'
+];
+
+const DASHA_LORD_THEMES: Record<DashaLord, string> = {
+  Ketu: 'detachment, spiritual questions and letting go',
+  Venus: 'relationships, comfort, art and material gains',
+  Sun: 'authority, recognition and dealings with the father or superiors',
+  Moon: 'home, emotional life, the mother and public contact',
+  Mars: 'drive, property, siblings and conflict',
+  Rahu: 'ambition, the unconventional and sudden change',
+  Jupiter: 'growth, teaching, children and good counsel',
+  Saturn: 'duty, hard work, delay and lasting structures',
+  Mercury: 'study, trade, writing and skill'
+};
+
+function generateVedicExplanation(reading: AstrologyReading): string {
+  const vedic = calculateVedicChart(reading, { currentJd: julianDay(new Date().toISOString().slice(0, 10)) });
+  const { ascendantNakshatra } = vedic;
+  const moon = vedic.planets.find(planet => planet.name === 'Moon')!;
+  const frame = `${AYANAMSA_NAMES[vedic.ayanamsa]} ayanamsa, ${formatAyanamsa(vedic.ayanamsaValue)} at birth.`;
+  // The Lagna and the divisional Lagnas move with the birth time just as the houses do
+  const lagnaTrusted = housesTrusted(reading);
+  const lagna = lagnaTrusted
+    ? `Lagna: ${getSignFromLongitude(vedic.ascendant)} ${(vedic.ascendant % 30).toFixed(1)}° in ${ascendantNakshatra.name} pada ${ascendantNakshatra.pada}, ruled by ${ascendantNakshatra.lord} - ${NAKSHATRA_THEMES[ascendantNakshatra.number - 1]}.`
+    : 'Lagna: left out - within the birth time given the ascendant moves too far to fix its degree or nakshatra.';
+
+  return `**Sidereal Frame**
+${reading.zodiac?.type === 'sidereal' ? frame : `${frame} Your chart is cast in the tropical zodiac, so here every position is shifted back by the ayanamsa and many planets fall in the previous sign.`}
+
+**Lagna & Janma Nakshatra**
+${lagna}
+Moon: ${moon.nakshatra.name} pada ${moon.nakshatra.pada}, ruled by ${moon.nakshatra.lord} - ${NAKSHATRA_THEMES[moon.nakshatra.number - 1]}. The birth star sets the order of the dashas.
+
+**Nakshatras**
+${vedic.planets.map(planet => `${planet.name}: ${planet.sign} ${planet.degree.toFixed(1)}° - ${planet.nakshatra.name} pada ${planet.nakshatra.pada} (${planet.nakshatra.lord})`).join('\n')}
+
+**Vimshottari Dasha**
+${formatDasha(vedic)}${formatDashaUncertainty(reading, vedic)}
+
+${DIVISIONAL_CHARTS.map(key => formatDivisionalChart(vedic, vedic.divisionalCharts[key], lagnaTrusted)).join('\n\n')}`;
+}
+
+// With an uncertain birth time the Moon's degree, and so the dasha balance, moves; a change of nakshatra changes the
+// lord the dashas start from
+function formatDashaUncertainty(reading: AstrologyReading, vedic: VedicReading): string {
+  const moon = reading.timeUncertainty?.placements.find(placement => placement.name === 'Moon');
+  if (!moon) return '';
+
+  const nakshatraAt = (longitude: number) =>
+    getNakshatra(normalizeDegrees(toTropicalLongitude(longitude, reading) - vedic.ayanamsaValue));
+  const [first, last] = [nakshatraAt(moon.start), nakshatraAt(moon.end)];
+
+  return first.number === last.number
+    ? `\nThe Moon stays in ${first.name} throughout the birth time window, so the order holds, but the start dates shift with the exact time.`
+    : `\nDasha timing is uncertain: the Moon moves from ${first.name} (${first.lord}) into ${last.name} (${last.lord}) within the birth time window, so the first mahadasha and every date above depend on the exact time.`;
+}
+
+function formatDasha(vedic: VedicReading): string {
+  const { dasha } = vedic;
+  const lines = [`Born in the ${dasha.mahadashas[0].lord} mahadasha with ${dasha.balanceYears.toFixed(1)} years remaining.`];
+
+  if (dasha.current) {
+    const { mahadasha, antardasha } = dasha.current;
+    const antar = dasha.mahadashas
+      .find(period => period.lord === mahadasha)?.antardashas
+      .find(period => period.lord === antardasha && period.start <= dasha.current!.date && dasha.current!.date < period.end);
+    lines.push(`Now running: ${mahadasha}–${antardasha}${antar ? ` until ${antar.end.slice(0, 10)}` : ''}. ${mahadasha} colours the period with ${DASHA_LORD_THEMES[mahadasha]}; ${antardasha} brings ${DASHA_LORD_THEMES[antardasha]} to the fore.`);
+  }
+
+  lines.push(...dasha.mahadashas.map(period => `${period.lord}: ${period.start.slice(0, 10)} → ${period.end.slice(0, 10)}`));
+  return lines.join('\n');
+}
+
+function formatDivisionalChart(vedic: VedicReading, chart: DivisionalChart, lagnaTrusted: boolean): string {
+  const lines = [
+    `**${chart.name} (${chart.key})**`,
+    lagnaTrusted ? `Lagna: ${getSignFromLongitude(chart.ascendant)}` : 'Lagna: left out, as the birth time is uncertain',
+    chart.planets.map(planet => `${planet.name} ${planet.sign}`).join(', ')
+  ];
+
+  // Vargottama: the same sign in the birth chart and the navamsa, which strengthens a planet
+  if (chart.key === 'D9') {
+    const vargottama = chart.planets
+      .filter(planet => vedic.planets.find(natal => natal.name === planet.name)?.sign === planet.sign)
+      .map(planet => planet.name);
+    lines.push(vargottama.length > 0
+      ? `Vargottama: ${joinNames(vargottama)} - the same sign in the birth chart and the navamsa, which strengthens ${vargottama.length > 1 ? 'them' : 'it'}.`
+      : 'The navamsa shows the inner strength of each planet and the shape of marriage and later life.');
+  } else {
+    lines.push('The dasamsa shows career and public standing; planets in its 10th house and the 10th lord are key.');
+  }
+  return lines.join('\n');
 }
 
 // Helper functions for element analysis
@@ -1,69 +1,79 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createLlmProvider, LlmRequestError, validateLlmConfig, type LlmMessage } from '@/lib/llm';
+import { formatServerSentEvent } from '@/lib/sse';
+
+// The provider's text passed on as our own events: { delta } per piece of text, then { error } if the stream breaks
+// off. Pulled on demand, so a client that disconnects stops the upstream read too.
+function relayCompletion(deltas: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await deltas.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(formatServerSentEvent({ delta: value })));
+      } catch (error: unknown) {
+        console.error('Chat stream error:', error);
+        controller.enqueue(encoder.encode(formatServerSentEvent({ error: 'AI response was interrupted' })));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await deltas.return(undefined);
+    }
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { systemPrompt, userMessage, conversationHistory = [] } = await request.json();
-
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    const model = process.env.OPENROUTER_MODEL || 'anthropic/claude-3-haiku';
+    const { systemPrompt, userMessage, conversationHistory = [], stream = false } = await request.json();
 
-    if (!apiKey) {
+    const configError = validateLlmConfig();
+    if (configError) {
       return NextResponse.json(
-        { error: 'OpenRouter API key not configured' },
+        { error: configError },
         { status: 500 }
       );
     }
 
-    const messages = [
+    const provider = createLlmProvider();
+    const messages: LlmMessage[] = [
       { role: 'system', content: systemPrompt },
       ...conversationHistory,
       { role: 'user', content: userMessage }
     ];
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
-        'X-Title': 'Astro Critics - Astrology Chat'
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature: 0.7,
-        max_tokens: 200,
-        top_p: 0.9
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenRouter API error:', errorText);
-      return NextResponse.json(
-        { error: 'Failed to generate AI response' },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    
-    if (!data.choices?.[0]?.message?.content) {
-      return NextResponse.json(
-        { error: 'Invalid response from AI service' },
-        { status: 500 }
-      );
+    // The request's signal stops generating when the user moves on
+    if (stream) {
+      const deltas = await provider.stream(messages, request.signal);
+      return new Response(relayCompletion(deltas), {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          'Connection': 'keep-alive'
+        }
+      });
     }
 
-    return NextResponse.json({ 
-      response: data.choices[0].message.content 
+    return NextResponse.json({
+      response: await provider.complete(messages, request.signal)
     });
 
   } catch (error: unknown) {
+    if (error instanceof LlmRequestError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
     console.error('Chat API error:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchGazetteer } from '@/lib/geocoding';
+
+// Ranked place candidates from the offline gazetteer, for the birth form's location picker
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get('q')?.trim();
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || undefined;
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: q' },
+        { status: 400 }
+      );
+    }
+
+    const candidates = await searchGazetteer(query, limit);
+    return NextResponse.json({ query, candidates });
+
+  } catch (error: unknown) {
+    console.error('Geocode search error:', error);
+    return NextResponse.json(
+      { error: `Failed to search locations: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
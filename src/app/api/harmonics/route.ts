@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateHarmonicChart, validateHarmonic } from '@/lib/midpoints';
+import type { AstrologyReading } from '@/types/astrology';
+
+// Harmonic chart (H4, H5, H7, H9, ...) of a natal reading, returned as a full reading
+export async function POST(request: NextRequest) {
+  try {
+    const { reading, harmonic }: { reading: AstrologyReading; harmonic: number } = await request.json();
+
+    if (!reading?.planets || !reading.timezone?.utcDate || harmonic === undefined) {
+      return NextResponse.json(
+        { error: 'Missing required fields: reading, harmonic' },
+        { status: 400 }
+      );
+    }
+
+    const harmonicError = validateHarmonic(harmonic);
+    if (harmonicError) {
+      return NextResponse.json({ error: harmonicError }, { status: 400 });
+    }
+
+    const harmonicChart = calculateHarmonicChart(reading, harmonic);
+    return NextResponse.json(harmonicChart);
+
+  } catch (error: unknown) {
+    console.error('Harmonic chart calculation error:', error);
+    return NextResponse.json(
+      { error: `Failed to calculate harmonic chart: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
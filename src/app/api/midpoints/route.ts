@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateMidpointTrees, validateMidpointOptions } from '@/lib/midpoints';
+import type { AstrologyReading, MidpointDial } from '@/types/astrology';
+
+// Midpoint trees of a natal reading on the 90° or 45° dial
+export async function POST(request: NextRequest) {
+  try {
+    const { reading, dial, orb }: { reading: AstrologyReading; dial?: MidpointDial; orb?: number } = await request.json();
+
+    if (!reading?.planets) {
+      return NextResponse.json(
+        { error: 'Missing required field: reading' },
+        { status: 400 }
+      );
+    }
+
+    const optionsError = validateMidpointOptions(dial, orb);
+    if (optionsError) {
+      return NextResponse.json({ error: optionsError }, { status: 400 });
+    }
+
+    const midpoints = calculateMidpointTrees(reading, dial, orb);
+    return NextResponse.json(midpoints);
+
+  } catch (error: unknown) {
+    console.error('Midpoint calculation error:', error);
+    return NextResponse.json(
+      { error: `Failed to calculate midpoints: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
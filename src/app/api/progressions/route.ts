@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateProgressions, isProgressionMethod, PROGRESSION_METHODS } from '@/lib/progressions';
+import type { AstrologyReading } from '@/types/astrology';
+
+// Secondary progressed or solar arc directed chart of a natal reading for a target date
+export async function POST(request: NextRequest) {
+  try {
+    const { reading, date, method = 'secondary' }: { reading: AstrologyReading; date: string; method?: string } = await request.json();
+
+    if (!reading?.planets || !reading.timezone?.utcDate || !date) {
+      return NextResponse.json(
+        { error: 'Missing required fields: reading, date' },
+        { status: 400 }
+      );
+    }
+
+    if (!isProgressionMethod(method)) {
+      return NextResponse.json(
+        { error: `Unsupported method: ${method}. Use one of: ${PROGRESSION_METHODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const progressions = calculateProgressions(reading, date, method);
+    return NextResponse.json(progressions);
+
+  } catch (error: unknown) {
+    console.error('Progression calculation error:', error);
+    return NextResponse.json(
+      { error: `Failed to calculate progressions: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { chartRequestOf, isReading, validateChartInput, type ChartInput } from '@/lib/chart';
+import { rectifyBirthTime, validateLifeEvents, validateRectificationOptions } from '@/lib/rectification';
+import type { LifeEvent } from '@/types/astrology';
+
+// Candidate birth times in a window ranked by timing hits to the angles at dated life events, each as a full reading.
+// The birth may be a reading cast with a window or unknown time, or birth data with a time mode.
+export async function POST(request: NextRequest) {
+  try {
+    const { birth, events, step, limit }: {
+      birth?: ChartInput;
+      events?: LifeEvent[];
+      step?: number;
+      limit?: number;
+    } = await request.json();
+
+    if (!birth || !events) {
+      return NextResponse.json(
+        { error: 'Missing required fields: birth, events' },
+        { status: 400 }
+      );
+    }
+
+    const inputError = validateChartInput(birth);
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const birthRequest = isReading(birth) ? chartRequestOf(birth) : birth;
+    const rectificationError = validateRectificationOptions(birthRequest, step, limit) || validateLifeEvents(events, birthRequest.date);
+    if (rectificationError) {
+      return NextResponse.json({ error: rectificationError }, { status: 400 });
+    }
+
+    const rectification = await rectifyBirthTime(birthRequest, events, { step, limit });
+    return NextResponse.json(rectification);
+
+  } catch (error: unknown) {
+    console.error('Rectification error:', error);
+    return NextResponse.json(
+      { error: `Failed to rectify birth time: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
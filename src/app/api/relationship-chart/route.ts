@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveReading, validateChartInput, type ChartInput } from '@/lib/chart';
+import { calculateRelationshipChart, isRelationshipChartMethod, RELATIONSHIP_CHART_METHODS } from '@/lib/relationship';
+import { EphemerisRangeError } from '@/lib/ephemeris';
+
+// Composite (midpoint) or Davison (time/space midpoint) chart of two people, as a full reading
+export async function POST(request: NextRequest) {
+  try {
+    const { person1, person2, method = 'composite' }: {
+      person1?: ChartInput;
+      person2?: ChartInput;
+      method?: string;
+    } = await request.json();
+
+    if (!person1 || !person2) {
+      return NextResponse.json(
+        { error: 'Missing required fields: person1, person2' },
+        { status: 400 }
+      );
+    }
+
+    if (!isRelationshipChartMethod(method)) {
+      return NextResponse.json(
+        { error: `Unsupported method: ${method}. Use one of: ${RELATIONSHIP_CHART_METHODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const inputError = validateChartInput(person1) || validateChartInput(person2);
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const [reading1, reading2] = await Promise.all([resolveReading(person1), resolveReading(person2)]);
+    return NextResponse.json(calculateRelationshipChart(method, reading1, reading2));
+
+  } catch (error: unknown) {
+    if (error instanceof EphemerisRangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Relationship chart calculation error:', error);
+    return NextResponse.json(
+      { error: `Failed to calculate relationship chart: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
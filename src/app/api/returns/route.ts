@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateReturn, isReturnKind, RETURN_KINDS, validateReturnPeriod } from '@/lib/returns';
+import { EphemerisRangeError } from '@/lib/ephemeris';
+import { geocodeLocation } from '@/lib/geocoding';
+import type { AstrologyReading, BirthInfo } from '@/types/astrology';
+
+// Solar return for a year or lunar return for a month, at the birthplace or a relocated place
+export async function POST(request: NextRequest) {
+  try {
+    const { reading, kind = 'solar', year, month, location }: {
+      reading: AstrologyReading;
+      kind?: string;
+      year?: number | string;
+      month?: string;
+      location?: string | BirthInfo['location'];
+    } = await request.json();
+
+    if (!reading?.planets || !reading.timezone?.utcDate) {
+      return NextResponse.json(
+        { error: 'Missing required field: reading' },
+        { status: 400 }
+      );
+    }
+
+    if (!isReturnKind(kind)) {
+      return NextResponse.json(
+        { error: `Unsupported return: ${kind}. Use one of: ${RETURN_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Default to this year's solar return or this month's lunar return
+    const now = new Date().toISOString();
+    const period = kind === 'solar' ? (year?.toString() || now.slice(0, 4)) : (month || now.slice(0, 7));
+    const periodError = validateReturnPeriod(kind, period);
+    if (periodError) {
+      return NextResponse.json(
+        { error: periodError },
+        { status: 400 }
+      );
+    }
+
+    // Relocated returns accept coordinates or a place name to geocode
+    let place: BirthInfo['location'] | undefined;
+    if (typeof location === 'string' && location.trim()) {
+      const { label, latitude, longitude } = await geocodeLocation(location);
+      place = { name: label, latitude, longitude };
+    } else if (location && typeof location === 'object' && location.latitude !== undefined && location.longitude !== undefined) {
+      place = location;
+    }
+
+    const result = calculateReturn(reading, kind, period, place);
+    return NextResponse.json(result);
+
+  } catch (error: unknown) {
+    // A return near the edge of the range can still need a moment outside it
+    if (error instanceof EphemerisRangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Return calculation error:', error);
+    return NextResponse.json(
+      { error: `Failed to calculate return: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveReading, validateChartInput, type ChartInput } from '@/lib/chart';
+import { calculateSynastry } from '@/lib/synastry';
+import { EphemerisRangeError } from '@/lib/ephemeris';
+
+// Compare two charts, given as stored readings or as birth data
+export async function POST(request: NextRequest) {
+  try {
+    const { person1, person2 }: { person1?: ChartInput; person2?: ChartInput } = await request.json();
+
+    if (!person1 || !person2) {
+      return NextResponse.json(
+        { error: 'Missing required fields: person1, person2' },
+        { status: 400 }
+      );
+    }
+
+    const inputError = validateChartInput(person1) || validateChartInput(person2);
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const [reading1, reading2] = await Promise.all([resolveReading(person1), resolveReading(person2)]);
+    return NextResponse.json(calculateSynastry(reading1, reading2));
+
+  } catch (error: unknown) {
+    if (error instanceof EphemerisRangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Synastry calculation error:', error);
+    return NextResponse.json(
+      { error: `Failed to calculate synastry: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidTimeZone, resolveBirthTimezone } from '@/lib/timezone';
+
+// Resolve a local birth date/time at a location to its IANA zone, UTC offset and UT instant
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const date = params.get('date');
+    const time = params.get('time');
+    const latitude = Number(params.get('lat'));
+    const longitude = Number(params.get('lng'));
+    const timeZone = params.get('timeZone') || undefined;
+    const disambiguation = params.get('disambiguation') === 'later' ? 'later' : 'earlier';
+
+    if (!date || !time || !params.get('lat') || !params.get('lng') || Number.isNaN(latitude) || Number.isNaN(longitude)) {
+      return NextResponse.json(
+        { error: 'Missing required parameters: date, time, lat, lng' },
+        { status: 400 }
+      );
+    }
+
+    if (timeZone && !isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: `Unknown time zone: ${timeZone}` },
+        { status: 400 }
+      );
+    }
+
+    const timezone = resolveBirthTimezone(date, time, { latitude, longitude }, { timeZone, disambiguation });
+    return NextResponse.json(timezone);
+
+  } catch (error: unknown) {
+    console.error('Timezone resolution error:', error);
+    return NextResponse.json(
+      { error: `Failed to resolve time zone: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
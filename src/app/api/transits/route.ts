@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateTransits, currentUtcDateTime } from '@/lib/transits';
+import type { AstrologyReading } from '@/types/astrology';
+
+// Transits to a natal chart at a UT date/time, defaulting to the current moment
+export async function POST(request: NextRequest) {
+  try {
+    const { reading, date, time }: { reading: AstrologyReading; date?: string; time?: string } = await request.json();
+
+    if (!reading?.planets || !reading.houseCusps) {
+      return NextResponse.json(
+        { error: 'Missing required field: reading' },
+        { status: 400 }
+      );
+    }
+
+    const now = currentUtcDateTime();
+    const transits = calculateTransits(reading, date || now.date, time || (date ? '12:00:00' : now.time));
+    return NextResponse.json(transits);
+
+  } catch (error: unknown) {
+    console.error('Transit calculation error:', error);
+    return NextResponse.json(
+      { error: `Failed to calculate transits: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
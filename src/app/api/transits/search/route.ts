@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchTransitEvents, TransitSearchError } from '@/lib/transits';
+import { EphemerisRangeError } from '@/lib/ephemeris';
+import type { AstrologyReading } from '@/types/astrology';
+
+// Exact transit-to-natal hits between two UT dates, paged by passing `nextCursor` back as `cursor`
+export async function POST(request: NextRequest) {
+  try {
+    const { reading, start, end, bodies, limit, cursor }: {
+      reading: AstrologyReading;
+      start: string;
+      end: string;
+      bodies?: string[];
+      limit?: number;
+      cursor?: string;
+    } = await request.json();
+
+    if (!reading?.planets || !reading.houseCusps || !start || !end) {
+      return NextResponse.json(
+        { error: 'Missing required fields: reading, start, end' },
+        { status: 400 }
+      );
+    }
+
+    const result = searchTransitEvents(reading, start, end, { bodies, limit, cursor });
+    return NextResponse.json(result);
+
+  } catch (error: unknown) {
+    if (error instanceof TransitSearchError || error instanceof EphemerisRangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Transit search error:', error);
+    return NextResponse.json(
+      { error: `Failed to search transits: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateEphemerisDate } from '@/lib/ephemeris';
+import { AYANAMSAS, isAyanamsa } from '@/lib/sidereal';
+import { parseUtcDateTime } from '@/lib/transits';
+import { calculateVedicChart } from '@/lib/vedic';
+import type { AstrologyReading } from '@/types/astrology';
+
+// Nakshatras, Vimshottari dashas and D9/D10 charts of a natal reading; the running dasha is taken at date or now
+export async function POST(request: NextRequest) {
+  try {
+    const { reading, ayanamsa, date }: { reading: AstrologyReading; ayanamsa?: string; date?: string } = await request.json();
+
+    if (!reading?.planets || !reading.timezone?.utcDate || !reading.northNode) {
+      return NextResponse.json(
+        { error: 'Missing required field: reading' },
+        { status: 400 }
+      );
+    }
+
+    if (reading.chartType) {
+      return NextResponse.json(
+        { error: `Vedic charts are cast from a natal reading, not a ${reading.chartType} chart` },
+        { status: 400 }
+      );
+    }
+
+    if (ayanamsa !== undefined && !isAyanamsa(ayanamsa)) {
+      return NextResponse.json(
+        { error: `Unsupported ayanamsa: ${ayanamsa}. Use one of: ${AYANAMSAS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const currentDate = date || new Date().toISOString().slice(0, 19);
+    const [day, time] = currentDate.replace(/Z$/, '').split('T');
+    const dateError = validateEphemerisDate(day, time);
+    if (dateError) {
+      return NextResponse.json(
+        { error: dateError },
+        { status: 400 }
+      );
+    }
+
+    const currentJd = parseUtcDateTime(currentDate);
+    const vedic = calculateVedicChart(reading, { ayanamsa, currentJd });
+    return NextResponse.json(vedic);
+
+  } catch (error: unknown) {
+    console.error('Vedic calculation error:', error);
+    return NextResponse.json(
+      { error: `Failed to calculate Vedic chart: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
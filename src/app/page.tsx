@@ -3,13 +3,16 @@
 import React, { useState, useEffect } from 'react';
 import TerminalBirthForm from '@/components/TerminalBirthForm';
 import TerminalChat from '@/components/TerminalChat';
-import type { BirthInfo, AstrologyReading } from '@/types/astrology';
+import type { BirthInfo, AstrologyReading, ChartOptions, RelationshipChartMethod } from '@/types/astrology';
 // import { calculateAstrologyChart } from '@/lib/astrology';
 
 export default function Home() {
-  const [currentView, setCurrentView] = useState<'form' | 'chat'>('form');
+  const [currentView, setCurrentView] = useState<'form' | 'partner-form' | 'chat'>('form');
   const [astrologyReading, setAstrologyReading] = useState<AstrologyReading | null>(null);
+  const [partnerReading, setPartnerReading] = useState<AstrologyReading | null>(null);
+  const [relationshipReading, setRelationshipReading] = useState<AstrologyReading | null>(null);
   const [loading, setLoading] = useState(false);
+  const [readingLoads, setReadingLoads] = useState(0); // Bumped on every chart swapped in, so the chat starts afresh
 
   // Check localStorage on mount
   useEffect(() => {
@@ -24,43 +27,116 @@ export default function Home() {
         localStorage.removeItem('astroChartData');
       }
     }
+
+    const savedPartner = localStorage.getItem('astroPartnerChartData');
+    if (savedPartner) {
+      try {
+        setPartnerReading(JSON.parse(savedPartner));
+      } catch (error) {
+        console.error('Error parsing saved partner chart data:', error);
+        localStorage.removeItem('astroPartnerChartData');
+      }
+    }
   }, []);
 
-  const handleBirthInfoSubmit = async (birthInfo: BirthInfo) => {
+  const calculateReading = async (birthInfo: BirthInfo, options: ChartOptions): Promise<AstrologyReading> => {
+    const response = await fetch('/api/calculate-chart', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ ...birthInfo, ...options })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to calculate chart');
+    }
+
+    return response.json();
+  };
+
+  const handleBirthInfoSubmit = async (birthInfo: BirthInfo, options: ChartOptions) => {
     setLoading(true);
     
     try {
-      const response = await fetch('/api/calculate-chart', {
+      const reading = await calculateReading(birthInfo, options);
+      // Save to localStorage
+      localStorage.setItem('astroChartData', JSON.stringify(reading));
+      setAstrologyReading(reading);
+      setCurrentView('chat');
+    } catch (error: unknown) {
+      console.error('Error calculating astrology chart:', error);
+      alert(`There was an error calculating your chart: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePartnerInfoSubmit = async (birthInfo: BirthInfo, options: ChartOptions) => {
+    setLoading(true);
+
+    try {
+      const reading = await calculateReading(birthInfo, options);
+      localStorage.setItem('astroPartnerChartData', JSON.stringify(reading));
+      setPartnerReading(reading);
+      setCurrentView('chat');
+    } catch (error: unknown) {
+      console.error('Error calculating partner chart:', error);
+      alert(`There was an error calculating the partner chart: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Composite and Davison charts open as their own conversation, with the relationship as the subject
+  const handleOpenRelationshipChart = async (method: RelationshipChartMethod) => {
+    if (!astrologyReading || !partnerReading) return;
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/relationship-chart', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify(birthInfo)
+        body: JSON.stringify({ person1: astrologyReading, person2: partnerReading, method })
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to calculate chart');
+        throw new Error(errorData.error || 'Failed to calculate relationship chart');
       }
 
-      const reading = await response.json();
-      // Save to localStorage
-      localStorage.setItem('astroChartData', JSON.stringify(reading));
-      setAstrologyReading(reading);
-      setCurrentView('chat');
+      setRelationshipReading(await response.json());
     } catch (error: unknown) {
-      console.error('Error calculating astrology chart:', error);
-      alert(`There was an error calculating your chart: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Error calculating relationship chart:', error);
+      alert(`There was an error calculating the relationship chart: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setLoading(false);
     }
   };
 
+  // A rectified birth time replaces the chart it was found from
+  const handleLoadReading = (reading: AstrologyReading) => {
+    localStorage.setItem('astroChartData', JSON.stringify(reading));
+    setAstrologyReading(reading);
+    setReadingLoads(loads => loads + 1);
+  };
+
+  const handleRemovePartner = () => {
+    localStorage.removeItem('astroPartnerChartData');
+    setPartnerReading(null);
+  };
+
   const handleBackToForm = () => {
     // Clear localStorage when going back
     localStorage.removeItem('astroChartData');
+    localStorage.removeItem('astroPartnerChartData');
     setCurrentView('form');
     setAstrologyReading(null);
+    setPartnerReading(null);
+    setRelationshipReading(null);
   };
 
   if (currentView === 'form') {
@@ -72,11 +148,38 @@ export default function Home() {
     );
   }
 
+  if (currentView === 'partner-form') {
+    return (
+      <TerminalBirthForm
+        onSubmit={handlePartnerInfoSubmit}
+        loading={loading}
+        prompt="Enter your partner's birth information:"
+        onCancel={() => setCurrentView('chat')}
+      />
+    );
+  }
+
+  if (currentView === 'chat' && relationshipReading) {
+    return (
+      <TerminalChat
+        key={relationshipReading.chartType}
+        reading={relationshipReading}
+        onBack={() => setRelationshipReading(null)}
+      />
+    );
+  }
+
   if (currentView === 'chat' && astrologyReading) {
     return (
       <TerminalChat 
+        key={`natal-${readingLoads}`}
         reading={astrologyReading}
+        partnerReading={partnerReading}
         onBack={handleBackToForm}
+        onAddPartner={() => setCurrentView('partner-form')}
+        onRemovePartner={handleRemovePartner}
+        onOpenRelationshipChart={handleOpenRelationshipChart}
+        onLoadReading={handleLoadReading}
       />
     );
   }
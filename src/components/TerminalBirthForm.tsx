@@ -1,71 +1,169 @@
 'use client';
 
-import React, { useState } from 'react';
-import type { BirthInfo } from '@/types/astrology';
+import React, { useState, useEffect } from 'react';
+import type {
+  AspectPreset, Ayanamsa, BirthInfo, BirthTimeMode, ChartOptions, ExtraPoint, GeocodeCandidate, HouseSystem, TimeDisambiguation, TimezoneInfo,
+  UnknownTimeChart
+} from '@/types/astrology';
+import { DEFAULT_HOUSE_SYSTEM, HOUSE_SYSTEMS, HOUSE_SYSTEM_NAMES } from '@/lib/houses';
+import { ASPECT_PRESETS } from '@/lib/aspects';
+import { EXTRA_POINT_NAMES, EXTRA_POINTS } from '@/lib/points';
+import { AYANAMSA_NAMES, AYANAMSAS } from '@/lib/sidereal';
 
 interface TerminalBirthFormProps {
-  onSubmit: (birthInfo: BirthInfo) => void;
+  onSubmit: (birthInfo: BirthInfo, options: ChartOptions) => void;
   loading?: boolean;
+  prompt?: string; // Shown above the fields, e.g. when entering a partner's chart
+  onCancel?: () => void;
 }
 
-export default function TerminalBirthForm({ onSubmit, loading = false }: TerminalBirthFormProps) {
+export default function TerminalBirthForm({
+  onSubmit,
+  loading = false,
+  prompt = 'Enter your birth information:',
+  onCancel
+}: TerminalBirthFormProps) {
   const [formData, setFormData] = useState({
     name: '',
     date: '',
     time: '',
+    timeMode: 'exact' as BirthTimeMode,
+    windowStart: '',
+    windowEnd: '',
+    unknownTimeChart: 'noon' as UnknownTimeChart,
     location: '',
-    latitude: 0,
-    longitude: 0
+    latitude: null as number | null, // Set once a place is picked
+    longitude: null as number | null,
+    houseSystem: DEFAULT_HOUSE_SYSTEM as HouseSystem,
+    aspectPreset: 'default' as AspectPreset,
+    extraPoints: [] as ExtraPoint[],
+    zodiac: 'tropical' as 'tropical' | Ayanamsa, // An ayanamsa selects the sidereal zodiac
+    timeReference: 'local' as 'local' | 'utc',
+    disambiguation: 'earlier' as TimeDisambiguation
   });
+  const [timezonePreview, setTimezonePreview] = useState<TimezoneInfo | null>(null);
+  const [locationSuggestions, setLocationSuggestions] = useState<GeocodeCandidate[]>([]);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(0);
+  const [locationSelected, setLocationSelected] = useState(false);
   // Removed unused currentTime state
 
-  const handleLocationChange = async (location: string) => {
-    setFormData(prev => ({ ...prev, location }));
-    
-    const cities: Record<string, { lat: number; lng: number }> = {
-      'new york': { lat: 40.7128, lng: -74.0060 },
-      'los angeles': { lat: 34.0522, lng: -118.2437 },
-      'chicago': { lat: 41.8781, lng: -87.6298 },
-      'london': { lat: 51.5074, lng: -0.1278 },
-      'paris': { lat: 48.8566, lng: 2.3522 },
-      'tokyo': { lat: 35.6762, lng: 139.6503 },
-      'sydney': { lat: -33.8688, lng: 151.2093 },
-      'berlin': { lat: 52.5200, lng: 13.4050 },
-      'moscow': { lat: 55.7558, lng: 37.6173 },
-      'mumbai': { lat: 19.0760, lng: 72.8777 },
-      'beijing': { lat: 39.9042, lng: 116.4074 },
-      'san francisco': { lat: 37.7749, lng: -122.4194 },
-      'dubai': { lat: 25.2048, lng: 55.2708 },
-      'singapore': { lat: 1.3521, lng: 103.8198 }
+  // Type-ahead search against the offline gazetteer while the user is typing a place name
+  useEffect(() => {
+    const query = formData.location.trim();
+    if (locationSelected || query.length < 2) {
+      setLocationSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/geocode?q=${encodeURIComponent(query)}&limit=8`, { signal: controller.signal })
+        .then(response => response.ok ? response.json() : { candidates: [] })
+        .then(data => {
+          setLocationSuggestions(data.candidates || []);
+          setHighlightedSuggestion(0);
+        })
+        .catch(error => {
+          if (error instanceof Error && error.name === 'AbortError') return;
+          console.error('Location search failed:', error);
+        });
+    }, 200);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
     };
-    
-    const key = location.toLowerCase();
-    if (cities[key]) {
-      setFormData(prev => ({
-        ...prev,
-        latitude: cities[key].lat,
-        longitude: cities[key].lng
-      }));
+  }, [formData.location, locationSelected]);
+
+  // Resolve the birthplace time zone so ambiguous or skipped local times can be flagged before submitting
+  useEffect(() => {
+    if (!formData.date || !formData.time || formData.timeMode !== 'exact' || formData.latitude === null || formData.longitude === null) {
+      setTimezonePreview(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const params = new URLSearchParams({
+      date: formData.date,
+      time: `${formData.time}:00`,
+      lat: formData.latitude.toString(),
+      lng: formData.longitude.toString(),
+      disambiguation: formData.disambiguation
+    });
+    if (formData.timeReference === 'utc') params.append('timeZone', 'UTC');
+
+    fetch(`/api/timezone?${params.toString()}`, { signal: controller.signal })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => setTimezonePreview(data))
+      .catch(error => {
+        if (error instanceof Error && error.name === 'AbortError') return;
+        console.error('Timezone lookup failed:', error);
+        setTimezonePreview(null);
+      });
+
+    return () => controller.abort();
+  }, [formData.date, formData.time, formData.timeMode, formData.latitude, formData.longitude, formData.timeReference, formData.disambiguation]);
+
+  const handleLocationChange = (location: string) => {
+    // Typing again invalidates any previously picked place
+    setLocationSelected(false);
+    setFormData(prev => ({ ...prev, location, latitude: null, longitude: null }));
+  };
+
+  const handleLocationSelect = (candidate: GeocodeCandidate) => {
+    setLocationSelected(true);
+    setLocationSuggestions([]);
+    setFormData(prev => ({
+      ...prev,
+      location: candidate.label,
+      latitude: candidate.latitude,
+      longitude: candidate.longitude
+    }));
+  };
+
+  const handleLocationKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (locationSuggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedSuggestion(prev => (prev + 1) % locationSuggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedSuggestion(prev => (prev - 1 + locationSuggestions.length) % locationSuggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      handleLocationSelect(locationSuggestions[highlightedSuggestion]);
+    } else if (e.key === 'Escape') {
+      setLocationSuggestions([]);
     }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.date || !formData.time || !formData.location) {
+    const timeGiven = formData.timeMode === 'exact' ? Boolean(formData.time)
+      : formData.timeMode === 'window' ? Boolean(formData.windowStart && formData.windowEnd)
+      : true;
+    if (!formData.date || !timeGiven || !formData.location) {
       alert('ERROR: Missing required fields');
       return;
     }
+
+    // An end before the start, such as 23:00 to 01:00, runs past midnight
+    if (formData.timeMode === 'window' && formData.windowStart === formData.windowEnd) {
+      alert('ERROR: The time window must start and end at different times.');
+      return;
+    }
     
-    if (formData.latitude === 0 && formData.longitude === 0) {
-      alert('ERROR: Unknown location. Use predefined cities.');
+    if (formData.latitude === null || formData.longitude === null) {
+      alert('ERROR: Unknown location. Pick a place from the suggestions.');
       return;
     }
 
     const birthInfo: BirthInfo = {
       name: formData.name.trim() || undefined,
       date: formData.date,
-      time: formData.time + ':00',
+      time: formData.timeMode === 'exact' ? formData.time + ':00' : '',
       location: {
         name: formData.location,
         latitude: formData.latitude,
@@ -73,7 +171,19 @@ export default function TerminalBirthForm({ onSubmit, loading = false }: Termina
       }
     };
 
-    onSubmit(birthInfo);
+    onSubmit(birthInfo, {
+      houseSystem: formData.houseSystem,
+      aspectProfile: formData.aspectPreset,
+      extraPoints: formData.extraPoints,
+      ...(formData.zodiac !== 'tropical' && { zodiac: 'sidereal' as const, ayanamsa: formData.zodiac }),
+      timeZone: formData.timeReference === 'utc' ? 'UTC' : undefined,
+      disambiguation: formData.disambiguation,
+      ...(formData.timeMode === 'window' && {
+        timeMode: 'window' as const,
+        timeWindow: { start: formData.windowStart, end: formData.windowEnd }
+      }),
+      ...(formData.timeMode === 'unknown' && { timeMode: 'unknown' as const, unknownTimeChart: formData.unknownTimeChart })
+    });
   };
 
   return (
@@ -98,6 +208,17 @@ export default function TerminalBirthForm({ onSubmit, loading = false }: Termina
         built by <a href="https://x.com/singsarg" target="_blank" rel="noopener noreferrer" className="hover:text-black/60 transition-colors">@singsarg</a>
       </div>
       
+      {onCancel && (
+        <div className="absolute top-4 left-4 z-10">
+          <button
+            onClick={onCancel}
+            className="text-sm text-black/60 hover:text-black transition-colors"
+          >
+            ← Back
+          </button>
+        </div>
+      )}
+
       <div className="w-[85%] max-w-3xl border-2 border-dashed border-black/40 p-12 bg-[rgb(222,212,198)]">
         {/* Header */}
         <div className="mb-8 text-center">
@@ -108,7 +229,7 @@ export default function TerminalBirthForm({ onSubmit, loading = false }: Termina
         {/* Form */}
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="border-t border-black/20 pt-6">
-            <div className="text-xs text-black/60 mb-4">Enter your birth information:</div>
+            <div className="text-xs text-black/60 mb-4">{prompt}</div>
             
             <div className="space-y-4">
               {/* Name Input */}
@@ -149,17 +270,97 @@ export default function TerminalBirthForm({ onSubmit, loading = false }: Termina
               <div className="pl-4">
                 <label className="text-xs text-black block mb-2">
                   Birth Time:
+                  {(['exact', 'window', 'unknown'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, timeMode: mode }))}
+                      className={`ml-2 ${formData.timeMode === mode ? 'underline font-bold' : 'text-black/60 hover:text-black'}`}
+                    >
+                      [{mode === 'window' ? 'approximate' : mode}]
+                    </button>
+                  ))}
                 </label>
                 <div className="flex items-center">
                   <span className="text-black mr-2">{'>'}</span>
-                  <input
-                    type="time"
-                    value={formData.time}
-                    onChange={(e) => setFormData(prev => ({ ...prev, time: e.target.value }))}
-                    className="bg-transparent outline-none text-black text-xs border-b border-black/30 focus:border-black flex-1 [color-scheme:light]"
-                    required
-                  />
+                  {formData.timeMode === 'exact' && (
+                    <input
+                      type="time"
+                      value={formData.time}
+                      onChange={(e) => setFormData(prev => ({ ...prev, time: e.target.value }))}
+                      className="bg-transparent outline-none text-black text-xs border-b border-black/30 focus:border-black flex-1 [color-scheme:light]"
+                      required
+                    />
+                  )}
+                  {formData.timeMode === 'window' && (
+                    <div className="flex items-center flex-1 text-xs">
+                      <span className="text-black/60 mr-2">between</span>
+                      <input
+                        type="time"
+                        value={formData.windowStart}
+                        onChange={(e) => setFormData(prev => ({ ...prev, windowStart: e.target.value }))}
+                        className="bg-transparent outline-none text-black text-xs border-b border-black/30 focus:border-black flex-1 [color-scheme:light]"
+                        required
+                      />
+                      <span className="text-black/60 mx-2">and</span>
+                      <input
+                        type="time"
+                        value={formData.windowEnd}
+                        onChange={(e) => setFormData(prev => ({ ...prev, windowEnd: e.target.value }))}
+                        className="bg-transparent outline-none text-black text-xs border-b border-black/30 focus:border-black flex-1 [color-scheme:light]"
+                        required
+                      />
+                      {formData.windowStart && formData.windowEnd && formData.windowEnd < formData.windowStart && (
+                        <span className="text-black/60 ml-2">next day</span>
+                      )}
+                    </div>
+                  )}
+                  {formData.timeMode === 'unknown' && (
+                    <select
+                      value={formData.unknownTimeChart}
+                      onChange={(e) => setFormData(prev => ({ ...prev, unknownTimeChart: e.target.value as UnknownTimeChart }))}
+                      className="bg-transparent outline-none text-black text-xs border-b border-black/30 focus:border-black flex-1"
+                    >
+                      <option value="noon">noon chart</option>
+                      <option value="sunrise">sunrise chart</option>
+                    </select>
+                  )}
+                  <select
+                    value={formData.timeReference}
+                    onChange={(e) => setFormData(prev => ({ ...prev, timeReference: e.target.value as 'local' | 'utc' }))}
+                    className="bg-transparent outline-none text-black text-xs border-b border-black/30 focus:border-black ml-4"
+                  >
+                    <option value="local">local time</option>
+                    <option value="utc">utc</option>
+                  </select>
                 </div>
+                {timezonePreview && (
+                  <div className="text-[10px] text-black/50 mt-2 pl-4 space-y-1">
+                    <div>
+                      Zone: {timezonePreview.zone} [UTC{timezonePreview.utcOffset}{timezonePreview.abbreviation && ` ${timezonePreview.abbreviation}`}] → {timezonePreview.utcDate} {timezonePreview.utcTime} UT
+                    </div>
+                    {timezonePreview.status === 'ambiguous' && timezonePreview.alternative && (
+                      <div className="text-red-700">
+                        WARNING: {formData.time} occurred twice on this date (clocks went back). Using:
+                        {(['earlier', 'later'] as const).map(option => (
+                          <button
+                            key={option}
+                            type="button"
+                            onClick={() => setFormData(prev => ({ ...prev, disambiguation: option }))}
+                            className={`ml-2 ${formData.disambiguation === option ? 'underline font-bold' : 'hover:text-black'}`}
+                          >
+                            [{option}]
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {timezonePreview.status === 'nonexistent' && (
+                      <div className="text-red-700">
+                        WARNING: {formData.time} did not exist on this date (clocks jumped forward). It will be read as {timezonePreview.adjustedLocalTime?.slice(0, 5)}.
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Location Input */}
@@ -173,39 +374,121 @@ export default function TerminalBirthForm({ onSubmit, loading = false }: Termina
                     type="text"
                     value={formData.location}
                     onChange={(e) => handleLocationChange(e.target.value)}
+                    onKeyDown={handleLocationKeyDown}
                     placeholder="enter city name..."
                     className="bg-transparent outline-none text-black text-xs border-b border-black/30 focus:border-black flex-1 placeholder-black/30"
+                    autoComplete="off"
                     required
                   />
                 </div>
-                {formData.latitude !== 0 && (
+                {locationSuggestions.length > 0 && (
+                  <div className="mt-1 ml-4 border border-black/30 text-[10px]">
+                    {locationSuggestions.map((candidate, index) => (
+                      <button
+                        key={candidate.id}
+                        type="button"
+                        onMouseEnter={() => setHighlightedSuggestion(index)}
+                        onClick={() => handleLocationSelect(candidate)}
+                        className={`w-full flex justify-between px-2 py-1 text-left ${
+                          index === highlightedSuggestion ? 'bg-black text-[rgb(222,212,198)]' : 'text-black'
+                        }`}
+                      >
+                        <span>{candidate.label}</span>
+                        <span className="opacity-60">
+                          pop {candidate.population.toLocaleString()} [{candidate.latitude.toFixed(2)}°, {candidate.longitude.toFixed(2)}°]
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {formData.latitude !== null && formData.longitude !== null && (
                   <div className="text-[10px] text-black/50 mt-2 pl-4">
                     Coordinates: [{formData.latitude.toFixed(4)}°, {formData.longitude.toFixed(4)}°]
                   </div>
                 )}
               </div>
-            </div>
-          </div>
 
-          {/* Available Cities */}
-          <div className="border-t border-black/20 pt-4">
-            <div className="text-[10px] text-black/50">
-              <div className="mb-2">Available cities:</div>
-              <div className="pl-4 grid grid-cols-4 gap-2">
-                <div>• new york</div>
-                <div>• london</div>
-                <div>• tokyo</div>
-                <div>• paris</div>
-                <div>• los angeles</div>
-                <div>• berlin</div>
-                <div>• sydney</div>
-                <div>• moscow</div>
-                <div>• chicago</div>
-                <div>• mumbai</div>
-                <div>• beijing</div>
-                <div>• san francisco</div>
-                <div>• singapore</div>
-                <div>• dubai</div>
+              {/* House System Select */}
+              <div className="pl-4">
+                <label className="text-xs text-black block mb-2">
+                  House System:
+                </label>
+                <div className="flex items-center">
+                  <span className="text-black mr-2">{'>'}</span>
+                  <select
+                    value={formData.houseSystem}
+                    onChange={(e) => setFormData(prev => ({ ...prev, houseSystem: e.target.value as HouseSystem }))}
+                    className="bg-transparent outline-none text-black text-xs border-b border-black/30 focus:border-black flex-1"
+                  >
+                    {HOUSE_SYSTEMS.map(system => (
+                      <option key={system} value={system}>{HOUSE_SYSTEM_NAMES[system].toLowerCase()}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Aspect Profile Select */}
+              <div className="pl-4">
+                <label className="text-xs text-black block mb-2">
+                  Aspects:
+                </label>
+                <div className="flex items-center">
+                  <span className="text-black mr-2">{'>'}</span>
+                  <select
+                    value={formData.aspectPreset}
+                    onChange={(e) => setFormData(prev => ({ ...prev, aspectPreset: e.target.value as AspectPreset }))}
+                    className="bg-transparent outline-none text-black text-xs border-b border-black/30 focus:border-black flex-1"
+                  >
+                    {ASPECT_PRESETS.map(preset => (
+                      <option key={preset} value={preset}>{preset}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Zodiac Select */}
+              <div className="pl-4">
+                <label className="text-xs text-black block mb-2">
+                  Zodiac:
+                </label>
+                <div className="flex items-center">
+                  <span className="text-black mr-2">{'>'}</span>
+                  <select
+                    value={formData.zodiac}
+                    onChange={(e) => setFormData(prev => ({ ...prev, zodiac: e.target.value as 'tropical' | Ayanamsa }))}
+                    className="bg-transparent outline-none text-black text-xs border-b border-black/30 focus:border-black flex-1"
+                  >
+                    <option value="tropical">tropical</option>
+                    {AYANAMSAS.map(ayanamsa => (
+                      <option key={ayanamsa} value={ayanamsa}>sidereal ({AYANAMSA_NAMES[ayanamsa].toLowerCase()})</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Extra Points Toggles */}
+              <div className="pl-4">
+                <label className="text-xs text-black block mb-2">
+                  Extra Points:
+                </label>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-black/60">
+                  {EXTRA_POINTS.map(point => {
+                    const enabled = formData.extraPoints.includes(point);
+                    return (
+                      <button
+                        key={point}
+                        type="button"
+                        onClick={() => setFormData(prev => ({
+                          ...prev,
+                          extraPoints: enabled ? prev.extraPoints.filter(p => p !== point) : [...prev.extraPoints, point]
+                        }))}
+                        className={enabled ? 'text-black underline font-bold' : 'hover:text-black'}
+                      >
+                        [{enabled ? 'x' : ' '}] {EXTRA_POINT_NAMES[point].toLowerCase()}
+                      </button>
+                    );
+                  })}
+                </div>
               </div>
             </div>
           </div>
@@ -1,23 +1,97 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import type { ChatMessage, AstrologyReading } from '@/types/astrology';
-import { createPlanetaryCharacters, generateSystemPrompt } from '@/data/characters';
+import type {
+  ChatMessage, AstrologyReading, DebateTurn, LifeEvent, LifeEventType, PlanetDignities, RectificationResult, RectificationTechnique, RelationshipChartMethod,
+  RulershipScheme, SynastryResult, TransitReading
+} from '@/types/astrology';
+import {
+  characterKeyFor, characterPoint, createPlanetaryCharacters, generateSystemPrompt, lilithOf, OPTIONAL_CHARACTER_KEYS, type PartnerContext
+} from '@/data/characters';
+import { HOUSE_SYSTEM_NAMES } from '@/lib/houses';
+import { getPartnerContacts } from '@/lib/synastry';
+import { calculateDispositors, RULERSHIP_SCHEMES } from '@/lib/dispositors';
+import { AYANAMSA_NAMES, DEFAULT_AYANAMSA, formatAyanamsa } from '@/lib/sidereal';
+import { readServerSentEvents } from '@/lib/sse';
+import { LIFE_EVENT_TYPES } from '@/lib/events';
+import { buildConversationHistory, DEBATE_HISTORY_LIMIT, HISTORY_LIMIT, MAX_DEBATE_ROUNDS, planDebate, STANCE_VERBS } from '@/lib/roundtable';
 
 interface TerminalChatProps {
   reading: AstrologyReading;
+  partnerReading?: AstrologyReading | null; // Second chart for relationship questions
   onBack: () => void;
+  onAddPartner?: () => void;
+  onRemovePartner?: () => void;
+  onOpenRelationshipChart?: (method: RelationshipChartMethod) => void;
+  onLoadReading?: (reading: AstrologyReading) => void; // Replaces the chart, e.g. with a rectified birth time
 }
 
-export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
+const TECHNIQUE_LABELS: Record<RectificationTechnique, string> = {
+  'transit': 'TR',
+  'secondary': 'SP',
+  'solar-arc': 'SA'
+};
+
+// Three-letter names for the extra points that would otherwise clash or read badly
+const POINT_ABBREVIATIONS: Record<string, string> = {
+  'South Node': 'SNo',
+  'Mean Lilith': 'Lil',
+  'True Lilith': 'TLi',
+  'Part of Fortune': 'PoF',
+  'Part of Spirit': 'PoS',
+  'Vertex': 'Vtx',
+  'East Point': 'EPt'
+};
+
+function abbreviate(name: string): string {
+  return POINT_ABBREVIATIONS[name] || name.substring(0, 3);
+}
+
+// A chart with an uncertain time and one rectified to the time it was cast for share their birth info, so the time
+// mode is part of the key
+function explanationsCacheKey(reading: AstrologyReading): string {
+  const { birthInfo, chartType, timeUncertainty } = reading;
+  return `chart_explanations_${JSON.stringify(birthInfo)}${chartType ? `_${chartType}` : ''}${timeUncertainty ? `_${timeUncertainty.mode}` : ''}`;
+}
+
+// Declination in degrees and minutes north or south, e.g. 23°26'N
+function formatDeclination(declination: number): string {
+  const minutes = Math.round(Math.abs(declination) * 60);
+  return `${Math.floor(minutes / 60)}°${(minutes % 60).toString().padStart(2, '0')}'${declination < 0 ? 'S' : 'N'}`;
+}
+
+export default function TerminalChat({
+  reading,
+  partnerReading,
+  onBack,
+  onAddPartner,
+  onRemovePartner,
+  onOpenRelationshipChart,
+  onLoadReading
+}: TerminalChatProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [loading, setLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [explanationsLoaded, setExplanationsLoaded] = useState(false);
+  const [transits, setTransits] = useState<TransitReading | null>(null);
+  const [synastry, setSynastry] = useState<SynastryResult | null>(null);
+  const [rulershipScheme, setRulershipScheme] = useState<RulershipScheme>('traditional');
+  const [lifeEvents, setLifeEvents] = useState<LifeEvent[]>([]);
+  const [eventDraft, setEventDraft] = useState<LifeEvent>({ date: '', type: 'marriage', description: '' });
+  const [rectification, setRectification] = useState<RectificationResult | null>(null);
+  const [rectifying, setRectifying] = useState(false);
+  const roundRef = useRef<AbortController | null>(null); // The round of answers still streaming
+  const [debateRounds, setDebateRounds] = useState(0); // Round-table rounds after the opening answers; 0 is off
   
   const characters = createPlanetaryCharacters(reading);
+  const partnerCharacters = partnerReading ? createPlanetaryCharacters(partnerReading) : null;
+  const ownerName = reading.birthInfo.name || 'You';
+  const partnerName = partnerReading?.birthInfo.name || 'Partner';
+
+  // Stop any answers still streaming when the chat closes
+  useEffect(() => () => roundRef.current?.abort(), []);
 
   // Update time every second
   useEffect(() => {
@@ -38,13 +112,58 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
     }
   }, [messages, explanationsLoaded]);
 
+  // Load today's transits to the chart so the planets can speak about the current sky
+  useEffect(() => {
+    const loadTransits = async () => {
+      try {
+        const response = await fetch('/api/transits', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ reading })
+        });
+        if (response.ok) {
+          setTransits(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to load transits:', error);
+      }
+    };
+
+    loadTransits();
+  }, [reading]);
+
+  // Compare the two charts whenever a partner chart is loaded
+  useEffect(() => {
+    if (!partnerReading) {
+      setSynastry(null);
+      return;
+    }
+
+    const loadSynastry = async () => {
+      try {
+        const response = await fetch('/api/synastry', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ person1: reading, person2: partnerReading })
+        });
+        if (response.ok) {
+          setSynastry(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to load synastry:', error);
+      }
+    };
+
+    loadSynastry();
+  }, [reading, partnerReading]);
+
   // Load default explanations when chart loads
   useEffect(() => {
     const loadDefaultExplanations = async () => {
       if (explanationsLoaded) return;
       
       // Check localStorage for cached explanations
-      const cacheKey = `chart_explanations_${JSON.stringify(reading.birthInfo)}`;
+      const cacheKey = explanationsCacheKey(reading);
       const cached = localStorage.getItem(cacheKey);
       
       let explanations = null;
@@ -107,7 +226,12 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
   }, [reading, explanationsLoaded]);
 
   const handleSendMessage = async () => {
-    if (!inputValue.trim() || loading) return;
+    if (!inputValue.trim()) return;
+
+    // A new question cuts off the planets still answering the last one
+    roundRef.current?.abort();
+    const round = new AbortController();
+    roundRef.current = round;
 
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
@@ -122,52 +246,97 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
     setLoading(true);
 
     const planetKeys = ['sun', 'moon', 'mercury', 'venus', 'mars', 'jupiter', 'saturn', 'uranus', 'neptune', 'pluto', 'northNode'] as const;
-    
+    // Chiron and Lilith only speak for charts cast with them
+    const keysFor = (cast: typeof characters) => [...planetKeys, ...OPTIONAL_CHARACTER_KEYS.filter(key => cast[key])];
+    // With a partner loaded, both people's planets answer
+    const speakers = [
+      ...keysFor(characters).map(planet => ({ planet, person: 1 as const })),
+      ...(partnerCharacters && synastry ? keysFor(partnerCharacters).map(planet => ({ planet, person: 2 as const })) : [])
+    ];
+
+    // The thread as it grows this round, so debaters hear the answers given before them
+    const transcript = [...messages, userMessage];
+
+    const answer = async (planet: keyof typeof characters, person: 1 | 2, turn?: DebateTurn) => {
+      try {
+        const reply = await streamPlanetResponse(planet, currentInput, person, round.signal, transcript, turn);
+        if (reply) transcript.push(reply);
+      } catch (error) {
+        if (round.signal.aborted) return;
+        console.error(`Error with ${planet}:`, error);
+        setMessages(prev => [...prev, {
+          id: `${planet}-${person}-error-${Date.now()}`,
+          character: planet,
+          content: `${planet.toUpperCase()}_ERROR: Connection failed`,
+          timestamp: new Date(),
+          ...(partnerReading && { owner: person === 2 ? partnerName : ownerName })
+        }]);
+      }
+    };
+
     try {
-      // Handle each planet individually to avoid Promise.all failure
-      const planetPromises = planetKeys.map(async (planet, index) => {
-        try {
-          const response = await generatePlanetResponse(planet, currentInput);
-          setTimeout(() => {
-            setMessages(prev => [...prev, response]);
-          }, index * 200);
-          return response;
-        } catch (error) {
-          console.error(`Error with ${planet}:`, error);
-          // Return error message for this planet
-          const errorResponse = {
-            id: `${planet}-error-${Date.now()}`,
-            character: planet,
-            content: `${planet.toUpperCase()}_ERROR: Connection failed`,
+      // Each planet streams on its own so one failure does not stop the rest
+      await Promise.allSettled(speakers.map(({ planet, person }) => answer(planet, person)));
+
+      // Then the moderator hands the floor across the chart's aspects, one speaker at a time
+      const debate = debateRounds > 0
+        ? planDebate(reading.aspects, keysFor(characters).map(key => characterPoint(key, reading)), debateRounds)
+        : [];
+      for (const [index, turns] of debate.entries()) {
+        for (const turn of turns) {
+          if (round.signal.aborted) return;
+          const planet = characterKeyFor(turn.speaker);
+          const other = characterKeyFor(turn.replyTo);
+          if (!planet || !other || !characters[planet] || !characters[other]) continue;
+
+          const cue: ChatMessage = {
+            id: `moderator-${index}-${turn.speaker}-${Date.now()}`,
+            character: 'moderator',
+            content: `ROUND ${index + 1}: ${characters[planet]!.name} ${STANCE_VERBS[turn.stance]} ${characters[other]!.name} (${turn.aspect}, ${turn.orb}°)`,
             timestamp: new Date()
           };
-          setTimeout(() => {
-            setMessages(prev => [...prev, errorResponse]);
-          }, index * 200);
-          return errorResponse;
+          setMessages(prev => [...prev, cue]);
+          transcript.push(cue);
+          await answer(planet, 1, turn);
         }
-      });
-
-      await Promise.allSettled(planetPromises);
-
-    } catch (error) {
-      console.error('Critical error:', error);
+      }
     } finally {
-      // Ensure loading is always cleared
-      setTimeout(() => {
+      // A newer question owns the loading state once it has started
+      if (roundRef.current === round) {
+        roundRef.current = null;
         setLoading(false);
-      }, Math.max(planetKeys.length * 200 + 500, 3000));
+      }
     }
   };
 
-  const generatePlanetResponse = async (planet: keyof typeof characters, query: string): Promise<ChatMessage> => {
-    const character = characters[planet];
-    const systemPrompt = generateSystemPrompt(character, reading, query);
-    
-    const recentMessages = messages.slice(-6).map(msg => ({
-      role: msg.character === 'user' ? 'user' as const : 'assistant' as const,
-      content: `${msg.character === 'user' ? 'USER' : msg.character.toUpperCase()}: ${msg.content}`
-    }));
+  // Types a planet's answer out into the chat as it streams in; resolves to the finished message, if any text came
+  const streamPlanetResponse = async (
+    planet: keyof typeof characters,
+    query: string,
+    person: 1 | 2,
+    signal: AbortSignal,
+    thread: ChatMessage[],
+    turn?: DebateTurn
+  ): Promise<ChatMessage | null> => {
+    const speakerReading = person === 2 && partnerReading ? partnerReading : reading;
+    const character = person === 2 && partnerCharacters ? partnerCharacters[planet] : characters[planet];
+    if (!character) throw new Error(`No ${planet} in this chart`);
+
+    // Each side of the synastry sees the other person as its partner
+    let partner: PartnerContext | undefined;
+    if (synastry && partnerReading) {
+      partner = { name: person === 2 ? ownerName : partnerName, ...getPartnerContacts(synastry, person) };
+    }
+
+    // In a debate turn the speaker is told who it answers; debates only run on the primary chart
+    const replyTo = turn && characterKeyFor(turn.replyTo);
+    const debate = turn && replyTo && characters[replyTo] ? { ...turn, replyToName: characters[replyTo]!.name } : undefined;
+
+    // Transits are computed for the primary chart only
+    const systemPrompt = generateSystemPrompt(character, speakerReading, query, person === 1 ? transits || undefined : undefined, partner, debate);
+
+    const owner = partnerReading ? (person === 2 ? partnerName : ownerName) : undefined;
+    const recentMessages = buildConversationHistory(thread, { character: planet, owner }, nameOf, turn ? DEBATE_HISTORY_LIMIT : HISTORY_LIMIT);
 
     const response = await fetch('/api/chat', {
       method: 'POST',
@@ -175,39 +344,105 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
       body: JSON.stringify({
         systemPrompt,
         userMessage: query,
-        conversationHistory: recentMessages
-      })
+        conversationHistory: recentMessages,
+        stream: true
+      }),
+      signal
     });
 
-    if (!response.ok) throw new Error('Failed to get AI response');
-    const data = await response.json();
+    if (!response.ok || !response.body) throw new Error('Failed to get AI response');
     
     const planetPrefixes: Record<string, string> = {
-      sun: `SOL_${reading.sun.sign.substring(0, 3).toUpperCase()}`,
-      moon: `LUNA_${reading.moon.sign.substring(0, 3).toUpperCase()}`,
-      mercury: `HERMES_${reading.mercury.sign.substring(0, 3).toUpperCase()}`,
-      venus: `APHRODITE_${reading.venus.sign.substring(0, 3).toUpperCase()}`,
-      mars: `ARES_${reading.mars.sign.substring(0, 3).toUpperCase()}`,
-      jupiter: `ZEUS_${reading.jupiter.sign.substring(0, 3).toUpperCase()}`,
-      saturn: `CHRONOS_${reading.saturn.sign.substring(0, 3).toUpperCase()}`,
-      uranus: `PROMETHEUS_${reading.uranus.sign.substring(0, 3).toUpperCase()}`,
-      neptune: `POSEIDON_${reading.neptune.sign.substring(0, 3).toUpperCase()}`,
-      pluto: `HADES_${reading.pluto.sign.substring(0, 3).toUpperCase()}`,
-      northNode: `DHARMA_${reading.northNode.sign.substring(0, 3).toUpperCase()}`
+      sun: `SOL_${speakerReading.sun.sign.substring(0, 3).toUpperCase()}`,
+      moon: `LUNA_${speakerReading.moon.sign.substring(0, 3).toUpperCase()}`,
+      mercury: `HERMES_${speakerReading.mercury.sign.substring(0, 3).toUpperCase()}`,
+      venus: `APHRODITE_${speakerReading.venus.sign.substring(0, 3).toUpperCase()}`,
+      mars: `ARES_${speakerReading.mars.sign.substring(0, 3).toUpperCase()}`,
+      jupiter: `ZEUS_${speakerReading.jupiter.sign.substring(0, 3).toUpperCase()}`,
+      saturn: `CHRONOS_${speakerReading.saturn.sign.substring(0, 3).toUpperCase()}`,
+      uranus: `PROMETHEUS_${speakerReading.uranus.sign.substring(0, 3).toUpperCase()}`,
+      neptune: `POSEIDON_${speakerReading.neptune.sign.substring(0, 3).toUpperCase()}`,
+      pluto: `HADES_${speakerReading.pluto.sign.substring(0, 3).toUpperCase()}`,
+      northNode: `DHARMA_${speakerReading.northNode.sign.substring(0, 3).toUpperCase()}`,
+      chiron: `CHIRON_${speakerReading.chiron?.sign.substring(0, 3).toUpperCase()}`,
+      lilith: `LILITH_${lilithOf(speakerReading)?.sign.substring(0, 3).toUpperCase()}`
     };
     
-    return {
-      id: `${planet}-${Date.now()}`,
-      character: planet,
-      content: `${planetPrefixes[planet]}: ${data.response}`,
-      timestamp: new Date()
-    };
+    const ownerTag = partnerReading ? `@${(person === 2 ? partnerName : ownerName).toUpperCase()}` : '';
+    const prefix = `${planetPrefixes[planet]}${ownerTag}: `;
+    const id = `${planet}-${person}-${Date.now()}`;
+
+    // The message appears with its first words and grows in place
+    const show = (update: Pick<ChatMessage, 'content' | 'streaming'>) => setMessages(prev => prev.some(msg => msg.id === id)
+      ? prev.map(msg => (msg.id === id ? { ...msg, ...update } : msg))
+      : [...prev, {
+        id,
+        character: planet,
+        timestamp: new Date(),
+        ...(partnerReading && { owner: person === 2 ? partnerName : ownerName }),
+        ...update
+      }]);
+
+    let text = '';
+    try {
+      for await (const event of readServerSentEvents(response.body)) {
+        const data: { delta?: string; error?: string } = JSON.parse(event);
+        if (data.error) throw new Error(data.error);
+        text += data.delta ?? '';
+        show({ content: `${prefix}${text}`, streaming: true });
+      }
+    } finally {
+      if (text) show({ content: `${prefix}${text}${signal.aborted ? ' [CUT OFF]' : ''}`, streaming: false });
+    }
+    return text ? { id, character: planet, content: `${prefix}${text}`, timestamp: new Date(), ...(owner && { owner }) } : null;
+  };
+
+  // How a message's author is named to the other characters, e.g. "Ares (Mars)"
+  const nameOf = (msg: ChatMessage): string => {
+    if (msg.character === 'user') return 'User';
+    if (msg.character === 'astrologer') return 'Astrologer';
+    if (msg.character === 'moderator') return 'Moderator';
+    const cast = msg.owner && msg.owner === partnerName && partnerCharacters ? partnerCharacters : characters;
+    const speakerReading = cast === partnerCharacters && partnerReading ? partnerReading : reading;
+    const name = `${cast[msg.character]?.name ?? msg.character} (${characterPoint(msg.character, speakerReading)})`;
+    return msg.owner ? `${name} of ${msg.owner}` : name;
   };
 
-  const formatAscendant = () => {
-    const ascSign = Math.floor(reading.ascendant / 30);
+  const formatAscendant = (ascendant: number = reading.ascendant) => {
+    const ascSign = Math.floor(ascendant / 30);
     const signs = ['ARIES', 'TAURUS', 'GEMINI', 'CANCER', 'LEO', 'VIRGO', 'LIBRA', 'SCORPIO', 'SAGITTARIUS', 'CAPRICORN', 'AQUARIUS', 'PISCES'];
-    return `${signs[ascSign]} ${(reading.ascendant % 30).toFixed(2)}°`;
+    return `${signs[ascSign]} ${(ascendant % 30).toFixed(2)}°`;
+  };
+
+  const handleAddLifeEvent = () => {
+    if (!eventDraft.date) return;
+    const description = eventDraft.description?.trim();
+    setLifeEvents(prev => [...prev, { date: eventDraft.date, type: eventDraft.type, ...(description && { description }) }]
+      .sort((a, b) => a.date.localeCompare(b.date)));
+    setEventDraft(prev => ({ ...prev, date: '', description: '' }));
+    setRectification(null);
+  };
+
+  // Rank times in the birth window against the life events; each candidate comes back as a full chart
+  const handleRectify = async () => {
+    setRectifying(true);
+    try {
+      const response = await fetch('/api/rectification', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ birth: reading, events: lifeEvents })
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to rectify birth time');
+      }
+      setRectification(await response.json());
+    } catch (error: unknown) {
+      console.error('Error rectifying birth time:', error);
+      alert(`There was an error rectifying the birth time: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setRectifying(false);
+    }
   };
 
   // Parse chart2txt data for enhanced UI elements
@@ -224,19 +459,9 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
     const modalityMatch = chartData.match(/\[MODALITY DISTRIBUTION\]\n(.+)/);
     const modalityData = modalityMatch ? modalityMatch[1] : null;
     
-    // Extract dispositor tree
-    const dispositorMatch = chartData.match(/\[DISPOSITOR TREE\]\n((?:.|\n)*?)(?=\[|$)/);
-    const dispositorData = dispositorMatch ? dispositorMatch[1].trim() : null;
-    
-    // Extract planets with dignities
-    const planetsMatch = chartData.match(/\[PLANETS\]\n((?:.|\n)*?)(?=\[|$)/);
-    const planetsData = planetsMatch ? planetsMatch[1].trim() : null;
-    
     return {
       elements: elementData,
-      modalities: modalityData,
-      dispositors: dispositorData,
-      planetsDignities: planetsData
+      modalities: modalityData
     };
   };
 
@@ -248,7 +473,13 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
       'Trine': { symbol: '△', color: 'text-green-600', quality: 'beneficial' },
       'Square': { symbol: '□', color: 'text-red-500', quality: 'challenging' },
       'Sextile': { symbol: '⚹', color: 'text-blue-600', quality: 'beneficial' },
-      'Quincunx': { symbol: '⚻', color: 'text-orange-600', quality: 'challenging' }
+      'Quincunx': { symbol: '⚻', color: 'text-orange-600', quality: 'challenging' },
+      'Semi-sextile': { symbol: '⚺', color: 'text-blue-500', quality: 'beneficial' },
+      'Semi-square': { symbol: '∠', color: 'text-red-400', quality: 'challenging' },
+      'Sesquiquadrate': { symbol: '⚼', color: 'text-red-400', quality: 'challenging' },
+      'Quintile': { symbol: 'Q', color: 'text-purple-600', quality: 'beneficial' },
+      'Biquintile': { symbol: 'bQ', color: 'text-purple-600', quality: 'beneficial' },
+      'Septile': { symbol: 'S', color: 'text-indigo-600', quality: 'neutral' }
     };
     
     const info = aspectInfo[aspectName as keyof typeof aspectInfo] || { symbol: '○', color: 'text-gray-600', quality: 'neutral' };
@@ -257,28 +488,47 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
     return { ...info, orbClass };
   };
 
-  // Extract planetary dignities from chart2txt
-  const getPlanetaryDignities = () => {
-    const chart2txtData = parseChart2TxtData();
-    if (!chart2txtData?.planetsDignities) return {};
-    
-    const dignities: Record<string, string> = {};
-    const lines = chart2txtData.planetsDignities.split('\n');
-    
-    lines.forEach(line => {
-      const match = line.match(/(\w+):.+?\[(.+?)\]/);
-      if (match) {
-        const planet = match[1];
-        const dignity = match[2];
-        dignities[planet] = dignity;
-      }
-    });
-    
-    return dignities;
+  // Strongest essential dignity or debility as a short tag, with the rest in a tooltip
+  const getDignityDisplay = (dignities: PlanetDignities | undefined) => {
+    if (!dignities) return null;
+
+    const tag = dignities.rulership ? { label: '[DOM]', color: 'text-green-700' } :
+                dignities.exaltation ? { label: '[EXA]', color: 'text-blue-700' } :
+                dignities.fall ? { label: '[FALL]', color: 'text-red-700' } :
+                dignities.detriment ? { label: '[DET]', color: 'text-orange-700' } :
+                { label: '', color: '' };
+    const minor = [
+      dignities.triplicity && 'triplicity',
+      dignities.term && 'term',
+      dignities.face && 'face',
+      dignities.peregrine && 'peregrine'
+    ].filter(Boolean);
+    const title = [
+      `Score ${dignities.score > 0 ? '+' : ''}${dignities.score}`,
+      minor.length > 0 && minor.join(', '),
+      `ruler ${dignities.signRuler}`,
+      ...dignities.mutualReceptions.map(reception => `mutual reception with ${reception.planet} (${reception.type})`)
+    ].filter(Boolean).join(' · ');
+
+    return { ...tag, mutual: dignities.mutualReceptions.length > 0, title };
   };
 
   const chart2txtData = parseChart2TxtData();
-  const planetaryDignities = getPlanetaryDignities();
+
+  // Readings saved before dispositors were stored get them computed here
+  const dispositorTree = (reading.dispositors ?? calculateDispositors(reading.planets, reading.ascendant))[rulershipScheme];
+  const dispositorNodes = new Map(dispositorTree.nodes.map(node => [node.planet, node]));
+
+  // Planets disposed by `planet`, indented beneath it; cycle members sit on their own root line
+  const renderDispositorBranch = (planet: string, level: number): React.ReactNode[] =>
+    (dispositorNodes.get(planet)?.disposes || [])
+      .filter(child => !dispositorNodes.get(child)?.inCycle)
+      .flatMap(child => [
+        <div key={`${planet}-${child}`} style={{ paddingLeft: `${level}em` }}>
+          └ {child.substring(0, 3).toUpperCase()} <span className="text-black/50">{dispositorNodes.get(child)?.sign.substring(0, 3).toUpperCase()}</span>
+        </div>,
+        ...renderDispositorBranch(child, level + 1)
+      ]);
 
   return (
     <div className="min-h-screen bg-[rgb(222,212,198)] text-black font-mono flex flex-col">
@@ -305,7 +555,7 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
             <button
               onClick={() => {
                 // Clear chart explanations from localStorage
-                const cacheKey = `chart_explanations_${JSON.stringify(reading.birthInfo)}`;
+                const cacheKey = explanationsCacheKey(reading);
                 localStorage.removeItem(cacheKey);
                 onBack();
               }}
@@ -314,6 +564,25 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
               ← Back
             </button>
           </div>
+
+          {/* Partner Chart Toggle */}
+          <div className="absolute top-4 right-[30rem] z-10">
+            {partnerReading ? (
+              <button
+                onClick={onRemovePartner}
+                className="text-sm text-black/60 hover:text-black transition-colors"
+              >
+                − Remove {partnerName}
+              </button>
+            ) : onAddPartner && (
+              <button
+                onClick={onAddPartner}
+                className="text-sm text-black/60 hover:text-black transition-colors"
+              >
+                + Add partner chart
+              </button>
+            )}
+          </div>
           
           {/* Centered Container */}
           <div className="flex-1 flex items-center justify-center p-6 overflow-hidden">
@@ -322,8 +591,30 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
               <div className="mb-6 text-center">
                 <div className="text-xs text-black/60 mb-2">AstroChat - Your Astrological Reading</div>
                 <div className="text-lg font-bold text-black">
-                  {reading.birthInfo.name ? `${reading.birthInfo.name}'s Birth Chart` : 'YOUR BIRTH CHART'}
+                  {reading.chartLabel || (reading.birthInfo.name ? `${reading.birthInfo.name}'s Birth Chart` : 'YOUR BIRTH CHART')}
+                </div>
+                <div className="text-[10px] text-black/60 mt-1">
+                  {reading.zodiac?.type === 'sidereal'
+                    ? `SIDEREAL ZODIAC · ${AYANAMSA_NAMES[reading.zodiac.ayanamsa || DEFAULT_AYANAMSA].toUpperCase()} AYANAMSA ${formatAyanamsa(reading.zodiac.ayanamsaValue ?? 0)}`
+                    : 'TROPICAL ZODIAC'}
                 </div>
+                {reading.timeUncertainty && (
+                  <div className="text-[10px] text-red-700 mt-1">
+                    {reading.timeUncertainty.mode === 'unknown'
+                      ? `BIRTH TIME UNKNOWN · ${reading.timeUncertainty.castFor.toUpperCase()} CHART`
+                      : `BIRTH TIME ${reading.timeUncertainty.window.start}-${reading.timeUncertainty.window.end}`}
+                    {reading.timeUncertainty.housesReliable ? '' : ' · HOUSES UNRELIABLE'}
+                    {reading.timeUncertainty.placements.some(p => !p.signCertain) && ` · SIGN UNCERTAIN: ${reading.timeUncertainty.placements
+                      .filter(p => !p.signCertain)
+                      .map(p => `${p.name.toUpperCase()} ${p.signs.map(sign => sign.substring(0, 3).toUpperCase()).join('/')}`)
+                      .join(', ')}`}
+                  </div>
+                )}
+                {partnerReading && (
+                  <div className="text-xs text-black/60 mt-1">
+                    + {partnerName}: ☉ {partnerReading.sun.sign.toUpperCase()} ☽ {partnerReading.moon.sign.toUpperCase()}
+                  </div>
+                )}
               </div>
 
               {/* Birth Data */}
@@ -333,10 +624,103 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
                   <div>DATE: {reading.birthInfo.date}</div>
                   <div>TIME: {reading.birthInfo.time}</div>
                   <div>LOCATION: {reading.birthInfo.location.name.toUpperCase()}</div>
-                  <div>TZ: {reading.timezone}</div>
+                  <div>
+                    TZ: {reading.timezone.zone} (UTC{reading.timezone.utcOffset}{reading.timezone.dst ? ' DST' : ''})
+                    {reading.timezone.status === 'ambiguous' && ' [AMBIGUOUS]'}
+                    {reading.timezone.status === 'nonexistent' && ' [SKIPPED BY DST]'}
+                  </div>
+                  <div>UT: {reading.timezone.utcDate} {reading.timezone.utcTime}</div>
+                  <div>
+                    HOUSES: {(HOUSE_SYSTEM_NAMES[reading.houseSystem] || 'Equal').toUpperCase()}
+                    {reading.requestedHouseSystem && ` (${HOUSE_SYSTEM_NAMES[reading.requestedHouseSystem].toUpperCase()} N/A AT THIS LATITUDE)`}
+                  </div>
+                  {reading.ephemerisSource === 'simple-astro-api' && <div>POSITIONS: SIMPLE-ASTRO-API (REMOTE FALLBACK)</div>}
                 </div>
               </div>
 
+              {/* Rectification */}
+              {reading.timeUncertainty && onLoadReading && (
+                <div className="mb-4">
+                  <div className="border border-black/30 p-2 text-[10px]">
+                    <div className="text-black/60 mb-2 text-xs font-bold">RECTIFICATION: DATED LIFE EVENTS</div>
+                    {lifeEvents.map((event, index) => (
+                      <div key={`${event.date}-${index}`} className="flex justify-between">
+                        <span>{event.date} {event.type.toUpperCase()}{event.description && <span className="text-black/60"> · {event.description}</span>}</span>
+                        <button
+                          onClick={() => {
+                            setLifeEvents(prev => prev.filter((_, i) => i !== index));
+                            setRectification(null);
+                          }}
+                          className="text-black/60 hover:text-black"
+                        >
+                          [x]
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex items-center gap-2 mt-1">
+                      <input
+                        type="date"
+                        value={eventDraft.date}
+                        onChange={(e) => setEventDraft(prev => ({ ...prev, date: e.target.value }))}
+                        className="bg-transparent outline-none border-b border-black/30 focus:border-black [color-scheme:light]"
+                      />
+                      <select
+                        value={eventDraft.type}
+                        onChange={(e) => setEventDraft(prev => ({ ...prev, type: e.target.value as LifeEventType }))}
+                        className="bg-transparent outline-none border-b border-black/30"
+                      >
+                        {LIFE_EVENT_TYPES.map(type => (
+                          <option key={type} value={type}>{type}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={eventDraft.description}
+                        onChange={(e) => setEventDraft(prev => ({ ...prev, description: e.target.value }))}
+                        placeholder="note..."
+                        className="bg-transparent outline-none border-b border-black/30 focus:border-black flex-1 placeholder-black/30"
+                      />
+                      <button onClick={handleAddLifeEvent} disabled={!eventDraft.date} className="text-black/60 hover:text-black disabled:opacity-40">
+                        [add]
+                      </button>
+                      <button
+                        onClick={handleRectify}
+                        disabled={lifeEvents.length === 0 || rectifying}
+                        className="border border-black/30 px-2 py-0.5 hover:bg-black hover:text-[rgb(222,212,198)] transition-colors disabled:opacity-40"
+                      >
+                        {rectifying ? 'SCANNING...' : 'FIND BIRTH TIME →'}
+                      </button>
+                    </div>
+                    {rectification && (
+                      <div className="mt-2 space-y-1">
+                        {rectification.candidates.length === 0 && (
+                          <div className="text-black/60">NO TIME IN {rectification.window.start}-{rectification.window.end} IS SUPPORTED BY THESE EVENTS</div>
+                        )}
+                        {rectification.candidates.map(candidate => (
+                          <div key={candidate.time} className="flex justify-between items-start gap-2">
+                            <div>
+                              <span className="font-bold">{candidate.time}</span> ASC {formatAscendant(candidate.ascendant)} · SCORE {candidate.score.toFixed(1)}
+                              <div className="text-black/60">
+                                {candidate.hits.slice(0, 4).map(hit => {
+                                  const quality = getAspectQuality(hit.aspect, hit.orb);
+                                  return `${TECHNIQUE_LABELS[hit.technique]} ${abbreviate(hit.planet1).toUpperCase()} ${quality.symbol} ${abbreviate(hit.planet2).toUpperCase()} ${hit.orb.toFixed(1)}° (${rectification.events[hit.event].type})`;
+                                }).join(' · ')}
+                              </div>
+                            </div>
+                            <button
+                              onClick={() => onLoadReading(candidate.reading)}
+                              className="border border-black/30 px-2 py-0.5 hover:bg-black hover:text-[rgb(222,212,198)] transition-colors whitespace-nowrap"
+                            >
+                              LOAD →
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Planets Table */}
               <div className="mb-4">
                 <div className="border border-black/30 p-2">
@@ -347,28 +731,27 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
                         const symbols: Record<string, string> = {
                           'Sun': '☉', 'Moon': '☽', 'Mercury': '☿', 'Venus': '♀', 'Mars': '♂',
                           'Jupiter': '♃', 'Saturn': '♄', 'Uranus': '♅', 'Neptune': '♆', 
-                          'Pluto': '♇', 'North Node': '☊'
+                          'Pluto': '♇', 'North Node': '☊', 'South Node': '☋', 'Chiron': '⚷',
+                          'Mean Lilith': '⚸', 'True Lilith': '⚸', 'Part of Fortune': '⊗'
                         };
                         
-                        const dignity = planetaryDignities[planet.name];
-                        const dignityColor = dignity?.includes('Domicile') ? 'text-green-700' :
-                                            dignity?.includes('Exaltation') ? 'text-blue-700' :
-                                            dignity?.includes('Fall') ? 'text-red-700' :
-                                            dignity?.includes('Detriment') ? 'text-orange-700' : '';
+                        const dignity = getDignityDisplay(planet.dignities);
                         
                         return (
                           <div key={index} className="flex justify-between">
-                            <span>{symbols[planet.name] || '●'} {planet.name.substring(0, 3).toUpperCase()}:</span>
-                            <span className={dignityColor}>
+                            <span title={planet.declination !== undefined ? `Declination ${formatDeclination(planet.declination)}` : undefined}>
+                              {symbols[planet.name] || '●'} {abbreviate(planet.name).toUpperCase()}:
+                            </span>
+                            <span className={dignity?.color} title={dignity?.title}>
                               {planet.sign.substring(0, 3).toUpperCase()} {planet.degree.toFixed(1)}°{planet.retrograde ? 'Rx' : ''}
-                              {dignity && dignity !== `Ruler: ${planet.name}` && (
+                              {dignity && (dignity.label || dignity.mutual) && (
                                 <span className="text-[8px] ml-1">
-                                  {dignity.includes('Domicile') ? '[DOM]' : 
-                                   dignity.includes('Exaltation') ? '[EXA]' : 
-                                   dignity.includes('Fall') ? '[FALL]' : 
-                                   dignity.includes('Detriment') ? '[DET]' : ''}
+                                  {dignity.label}{dignity.mutual ? '[MR]' : ''}
                                 </span>
                               )}
+                              {planet.outOfBounds && (
+                                <span className="text-[8px] ml-1 text-red-700" title={`Out of bounds at ${formatDeclination(planet.declination!)}`}>OOB</span>
+                              )}
                             </span>
                           </div>
                         );
@@ -396,7 +779,9 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
               <div className="grid grid-cols-2 gap-4 mb-4">
                 {/* Houses Table */}
                 <div className="border border-black/30 p-2" id="houses-table">
-                  <div className="text-black/60 mb-2 text-xs font-bold">HOUSES</div>
+                  <div className="text-black/60 mb-2 text-xs font-bold">
+                    HOUSES{reading.houseSystem && ` (${HOUSE_SYSTEM_NAMES[reading.houseSystem].toUpperCase()})`}
+                  </div>
                   <div className="space-y-0.5 text-[10px]">
                     <div className="flex justify-between">
                       <span>ASC (1st):</span>
@@ -432,15 +817,34 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
                           return (
                             <div key={index} className={`flex justify-between ${quality.orbClass}`}>
                               <span>
-                                <span className={quality.color}>{quality.symbol}</span> {aspect.planet1.substring(0, 3)} {aspect.planet2.substring(0, 3)}
+                                <span className={quality.color}>{quality.symbol}</span> {abbreviate(aspect.planet1)} {abbreviate(aspect.planet2)}
+                              </span>
+                              <span className={quality.orbClass} title={aspect.exactDate ? `exact ${aspect.exactDate.slice(0, 10)}` : undefined}>
+                                {aspect.orb.toFixed(1)}°{aspect.applying !== undefined && ` ${aspect.applying ? 'APP' : 'SEP'}`}
                               </span>
-                              <span className={quality.orbClass}>{aspect.orb.toFixed(1)}°</span>
                             </div>
                           );
                         })
                       ) : (
                         <div className="text-black/40">No aspects calculated</div>
                       )}
+                      {reading.declinationAspects && reading.declinationAspects.length > 0 && (
+                        <>
+                          <div className="text-black/60 pt-2 font-bold">PARALLELS</div>
+                          {reading.declinationAspects.map((aspect, index) => (
+                            <div
+                              key={index}
+                              className="flex justify-between"
+                              title={aspect.declinations && aspect.declinations.map(formatDeclination).join(' / ')}
+                            >
+                              <span>
+                                <span className="text-blue-700">{aspect.aspect === 'Parallel' ? '∥' : '⋕'}</span> {abbreviate(aspect.planet1)} {abbreviate(aspect.planet2)}
+                              </span>
+                              <span>{aspect.orb.toFixed(1)}°</span>
+                            </div>
+                          ))}
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -477,23 +881,120 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
                       </div>
                     )}
                   </div>
+                </>
+              )}
 
-                  {/* Dispositor Tree */}
-                  {chart2txtData.dispositors && (
-                    <div className="mb-4">
-                      <div className="border border-black/30 p-2">
-                        <div className="text-black/60 mb-2 text-xs font-bold">DISPOSITOR CHAINS</div>
-                        <div className="text-[9px] space-y-0.5 text-black/80">
-                          {chart2txtData.dispositors.split('\n').map((line, index) => (
-                            <div key={index} className="font-mono">
-                              {line.replace('→', '→').replace('(final)', '[FINAL]').replace(/\(cycle\)/, '[CYCLE]')}
+              {/* Dispositor Tree */}
+              <div className="mb-4">
+                <div className="border border-black/30 p-2">
+                  <div className="flex justify-between items-center mb-2">
+                    <div className="text-black/60 text-xs font-bold">DISPOSITOR TREE</div>
+                    <div className="flex gap-1 text-[9px]">
+                      {RULERSHIP_SCHEMES.map(scheme => (
+                        <button
+                          key={scheme}
+                          onClick={() => setRulershipScheme(scheme)}
+                          className={`border border-black/30 px-1 transition-colors ${scheme === rulershipScheme ? 'bg-black text-[rgb(222,212,198)]' : 'hover:bg-black hover:text-[rgb(222,212,198)]'}`}
+                        >
+                          {scheme === 'traditional' ? 'TRAD' : 'MOD'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-[9px] space-y-0.5 text-black/80 font-mono">
+                    <div className="text-black/60">CHART RULER: {dispositorTree.chartRuler.toUpperCase()}</div>
+                    {dispositorTree.finalDispositors.map(final => (
+                      <div key={final}>
+                        <div className="font-bold">{final.toUpperCase()} [FINAL]</div>
+                        {renderDispositorBranch(final, 1)}
+                      </div>
+                    ))}
+                    {dispositorTree.cycles.map(cycle => (
+                      <div key={cycle.join('-')}>
+                        <div className="font-bold">{[...cycle, cycle[0]].map(name => name.substring(0, 3).toUpperCase()).join(' → ')} [CYCLE]</div>
+                        {cycle.flatMap(member => renderDispositorBranch(member, 1))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Synastry */}
+              {synastry && (
+                <div className="mb-4">
+                  <div className="border border-black/30 p-2">
+                    <div className="text-black/60 mb-2 text-xs font-bold">SYNASTRY: {ownerName.toUpperCase()} × {partnerName.toUpperCase()}</div>
+                    <div className="grid grid-cols-2 gap-4 text-[10px]">
+                      <div className="space-y-0.5">
+                        {synastry.aspects.slice(0, 12).map((aspect, index) => {
+                          const quality = getAspectQuality(aspect.aspect, aspect.orb);
+                          return (
+                            <div key={index} className={`flex justify-between ${quality.orbClass}`}>
+                              <span>
+                                {abbreviate(aspect.planet1)} <span className={quality.color}>{quality.symbol}</span> {abbreviate(aspect.planet2)}
+                              </span>
+                              <span>{aspect.orb.toFixed(1)}°</span>
                             </div>
-                          ))}
+                          );
+                        })}
+                      </div>
+                      <div className="space-y-1 text-black/80">
+                        <div>
+                          <span className="text-black/60">{ownerName.toUpperCase()} IN {partnerName.toUpperCase()}&apos;S HOUSES: </span>
+                          {synastry.overlays.person1InPerson2Houses.map(o => `${abbreviate(o.planet)} H${o.house}`).join(', ')}
                         </div>
+                        <div>
+                          <span className="text-black/60">{partnerName.toUpperCase()} IN {ownerName.toUpperCase()}&apos;S HOUSES: </span>
+                          {synastry.overlays.person2InPerson1Houses.map(o => `${abbreviate(o.planet)} H${o.house}`).join(', ')}
+                        </div>
+                        <div>{synastry.elements.summary}</div>
+                        <div>{synastry.modalities.summary}</div>
+                        {onOpenRelationshipChart && (
+                          <div className="flex gap-2 pt-1">
+                            {(['composite', 'davison'] as const).map(method => (
+                              <button
+                                key={method}
+                                onClick={() => onOpenRelationshipChart(method)}
+                                className="border border-black/30 px-2 py-0.5 hover:bg-black hover:text-[rgb(222,212,198)] transition-colors"
+                              >
+                                {method === 'composite' ? 'COMPOSITE CHART' : 'DAVISON CHART'} →
+                              </button>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
-                  )}
-                </>
+                  </div>
+                </div>
+              )}
+
+              {/* Today's Sky */}
+              {transits && (
+                <div className="mb-4">
+                  <div className="border border-black/30 p-2">
+                    <div className="text-black/60 mb-2 text-xs font-bold">TODAY&apos;S SKY ({transits.date})</div>
+                    <div className="text-[10px] space-y-0.5">
+                      {transits.aspects.length > 0 ? (
+                        transits.aspects.slice(0, 12).map((aspect, index) => {
+                          const quality = getAspectQuality(aspect.aspect, aspect.orb);
+                          return (
+                            <div key={index} className={`flex justify-between ${quality.orbClass}`}>
+                              <span>
+                                t.{abbreviate(aspect.planet1)} <span className={quality.color}>{quality.symbol}</span> n.{abbreviate(aspect.planet2)}
+                              </span>
+                              <span>{aspect.orb.toFixed(1)}°{aspect.applying !== undefined && ` ${aspect.applying ? 'APP' : 'SEP'}`}</span>
+                            </div>
+                          );
+                        })
+                      ) : (
+                        <div className="text-black/40">No transits within orb</div>
+                      )}
+                      <div className="text-black/60 pt-1">
+                        {transits.transitedHouses.map(entry => `H${entry.house}: ${entry.planets.map(abbreviate).join(' ')}`).join(' | ')}
+                      </div>
+                    </div>
+                  </div>
+                </div>
               )}
 
             </div>
@@ -530,15 +1031,20 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
                     msg.character === 'neptune' ? 'text-blue-500' :
                     msg.character === 'pluto' ? 'text-purple-600' :
                     msg.character === 'northNode' ? 'text-yellow-300' :
+                    msg.character === 'chiron' ? 'text-teal-400' :
+                    msg.character === 'lilith' ? 'text-fuchsia-500' :
                     msg.character === 'astrologer' ? 'text-amber-300' :
+                    msg.character === 'moderator' ? 'text-orange-400' :
                     'text-white'
                   }`}>
                     <div className="font-bold mb-1">
                       {msg.character === 'user' ? '> USER_QUERY:' : 
-                       msg.character === 'astrologer' ? '> ASTROLOGER:' : ''}
+                       msg.character === 'astrologer' ? '> ASTROLOGER:' :
+                       msg.character === 'moderator' ? '> MODERATOR:' : ''}
                     </div>
                     <div className="pl-2 whitespace-pre-wrap break-words">
                       {msg.content}
+                      {msg.streaming && <span className="animate-pulse">▌</span>}
                     </div>
                   </div>
                 </div>
@@ -562,7 +1068,21 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
 
           {/* Input Area - Fixed at Bottom */}
           <div className="border-t border-green-400/30 p-4">
-            <div className="text-xs text-green-600 mb-2">Ask the planets:</div>
+            <div className="flex justify-between items-center text-xs text-green-600 mb-2">
+              <span>Ask the planets:</span>
+              <div className="flex items-center gap-1 text-[10px]">
+                <span>ROUND TABLE:</span>
+                {Array.from({ length: MAX_DEBATE_ROUNDS + 1 }, (_, rounds) => (
+                  <button
+                    key={rounds}
+                    onClick={() => setDebateRounds(rounds)}
+                    className={`border border-green-400/30 px-1 transition-colors ${rounds === debateRounds ? 'bg-green-400 text-black' : 'hover:border-green-400 hover:text-green-400'}`}
+                  >
+                    {rounds === 0 ? 'OFF' : rounds}
+                  </button>
+                ))}
+              </div>
+            </div>
             <div className="flex items-start">
               <span className="text-green-400 mr-2 mt-1">{'>'}</span>
               <textarea
@@ -571,13 +1091,12 @@ export default function TerminalChat({ reading, onBack }: TerminalChatProps) {
                 onKeyPress={(e) => e.key === 'Enter' && !e.shiftKey && (e.preventDefault(), handleSendMessage())}
                 className="flex-1 bg-transparent outline-none text-green-300 text-xs border border-green-400/30 focus:border-green-400 p-2 rounded resize-none min-h-[2.5rem] max-h-24 overflow-y-auto"
                 placeholder="Enter cosmic query... (Shift+Enter for new line)"
-                disabled={loading}
                 rows={1}
               />
             </div>
             {loading && (
               <div className="mt-2 text-center">
-                <span className="text-green-600 animate-pulse text-xs">Processing...</span>
+                <span className="text-green-600 animate-pulse text-xs">Processing... (a new query interrupts)</span>
               </div>
             )}
           </div>
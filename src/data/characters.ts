@@ -1,8 +1,61 @@
-import type { PlanetaryCharacter, AstrologyReading } from '@/types/astrology';
+import type { PlanetaryCharacter, AstrologyReading, Aspect, ChartType, DebateTurn, HouseOverlay, PlanetPosition, TransitReading } from '@/types/astrology';
+import { byAspectWeight, describeAspectPhase } from '@/lib/aspects';
+import { STANCE_INSTRUCTIONS } from '@/lib/roundtable';
+import { AYANAMSA_NAMES, DEFAULT_AYANAMSA } from '@/lib/sidereal';
+
+// The other person in a synastry reading, seen from this chart's side
+export interface PartnerContext {
+  name: string;
+  aspects: Aspect[]; // planet1 is in this chart, planet2 in the partner's
+  overlays: HouseOverlay[]; // This chart's planets in the partner's houses
+}
 
 type PlanetKey = 'sun' | 'moon' | 'mercury' | 'venus' | 'mars' | 'jupiter' | 'saturn' | 'uranus' | 'neptune' | 'pluto' | 'northNode';
 
-export function createPlanetaryCharacters(reading: AstrologyReading): Record<PlanetKey, PlanetaryCharacter> {
+// Characters that only exist when the chart was cast with the matching extra points
+export const OPTIONAL_CHARACTER_KEYS = ['chiron', 'lilith'] as const;
+type OptionalCharacterKey = typeof OPTIONAL_CHARACTER_KEYS[number];
+
+export type CharacterKey = PlanetKey | OptionalCharacterKey;
+
+// Lilith speaks for the mean apogee when the chart has it, otherwise the true one
+export function lilithOf(reading: AstrologyReading): PlanetPosition | undefined {
+  return reading.meanLilith ?? reading.trueLilith;
+}
+
+const CHARACTER_POINTS: Record<CharacterKey, string[]> = {
+  sun: ['Sun'],
+  moon: ['Moon'],
+  mercury: ['Mercury'],
+  venus: ['Venus'],
+  mars: ['Mars'],
+  jupiter: ['Jupiter'],
+  saturn: ['Saturn'],
+  uranus: ['Uranus'],
+  neptune: ['Neptune'],
+  pluto: ['Pluto'],
+  northNode: ['North Node'],
+  chiron: ['Chiron'],
+  lilith: ['Mean Lilith', 'True Lilith']
+};
+
+// Chart point a character speaks for, as named in the aspects
+export function characterPoint(key: CharacterKey, reading: AstrologyReading): string {
+  return key === 'lilith' ? lilithOf(reading)?.name || 'Mean Lilith' : CHARACTER_POINTS[key][0];
+}
+
+export function characterKeyFor(point: string): CharacterKey | undefined {
+  return (Object.keys(CHARACTER_POINTS) as CharacterKey[]).find(key => CHARACTER_POINTS[key].includes(point));
+}
+
+// Round-table turn as the speaker hears it, with the name of the character it answers
+export interface DebateCue extends DebateTurn {
+  replyToName: string;
+}
+
+export function createPlanetaryCharacters(
+  reading: AstrologyReading
+): Record<PlanetKey, PlanetaryCharacter> & Partial<Record<OptionalCharacterKey, PlanetaryCharacter>> {
   const getElement = (sign: string): string => {
     const fireSigns = ['Aries', 'Leo', 'Sagittarius'];
     const earthSigns = ['Taurus', 'Virgo', 'Capricorn'];
@@ -16,6 +69,8 @@ export function createPlanetaryCharacters(reading: AstrologyReading): Record<Pla
     return 'Unknown';
   };
 
+  const lilith = lilithOf(reading);
+
   return {
     sun: {
       name: 'Sol',
@@ -125,7 +180,31 @@ export function createPlanetaryCharacters(reading: AstrologyReading): Record<Pla
       tarotCard: 'The World / The Star',
       color: 'from-gold-400 to-amber-500',
       emoji: '☊'
-    }
+    },
+
+    ...(reading.chiron && {
+      chiron: {
+        name: 'Chiron',
+        sign: reading.chiron.sign,
+        element: getElement(reading.chiron.sign),
+        personality: `I am Chiron, the wounded healer, in ${reading.chiron.sign}. I carry the wound that never quite closes and the wisdom it teaches. Through ${reading.chiron.sign}, I turn pain into medicine via ${getSignPersonality(reading.chiron.sign)}. I am your inner healer, teacher, bridge.`,
+        tarotCard: 'The Hermit / Temperance',
+        color: 'from-teal-500 to-emerald-700',
+        emoji: '⚷'
+      }
+    }),
+
+    ...(lilith && {
+      lilith: {
+        name: 'Lilith',
+        sign: lilith.sign,
+        element: getElement(lilith.sign),
+        personality: `I am Lilith, your Black Moon in ${lilith.sign}. I am the instinct you were told to hide, the refusal to be tamed. In ${lilith.sign}, I demand freedom through ${getSignPersonality(lilith.sign)}. I am your inner exile, wild truth-teller.`,
+        tarotCard: 'The Devil / The Moon',
+        color: 'from-gray-900 to-purple-900',
+        emoji: '⚸'
+      }
+    })
   };
 }
 
@@ -148,7 +227,14 @@ function getSignPersonality(sign: string): string {
   return personalities[sign] || 'unique cosmic energy';
 }
 
-export function generateSystemPrompt(character: PlanetaryCharacter, reading: AstrologyReading, userQuery: string): string {
+export function generateSystemPrompt(
+  character: PlanetaryCharacter,
+  reading: AstrologyReading,
+  userQuery: string,
+  transits?: TransitReading,
+  partner?: PartnerContext,
+  debate?: DebateCue
+): string {
   const planetName = character.name === 'Sol' ? 'Sun' : 
                     character.name === 'Luna' ? 'Moon' : 
                     character.name === 'Hermes' ? 'Mercury' :
@@ -158,16 +244,21 @@ export function generateSystemPrompt(character: PlanetaryCharacter, reading: Ast
                     character.name === 'Chronos' ? 'Saturn' :
                     character.name === 'Prometheus' ? 'Uranus' :
                     character.name === 'Poseidon' ? 'Neptune' :
-                    character.name === 'Hades' ? 'Pluto' : 'North Node';
+                    character.name === 'Hades' ? 'Pluto' :
+                    character.name === 'Chiron' ? 'Chiron' :
+                    character.name === 'Lilith' ? lilithOf(reading)?.name || 'Mean Lilith' : 'North Node';
 
-  // Find relevant aspects for this planet
+  // Find relevant aspects for this planet, applying ones first
   const relevantAspects = reading.aspects?.filter(aspect => 
     aspect.planet1.toLowerCase().includes(planetName.toLowerCase()) || 
     aspect.planet2.toLowerCase().includes(planetName.toLowerCase())
-  ).slice(0, 2) || [];
+  ).sort(byAspectWeight).slice(0, 3) || [];
 
   const aspectInfo = relevantAspects.length > 0 ? 
-    `Key aspects: ${relevantAspects.map(a => `${a.aspect} ${a.planet1 === planetName ? a.planet2 : a.planet1}`).join(', ')}` : 
+    `Key aspects: ${relevantAspects.map(a => {
+      const phase = describeAspectPhase(a);
+      return `${a.aspect} ${a.planet1 === planetName ? a.planet2 : a.planet1}${phase ? ` (${phase})` : ''}`;
+    }).join(', ')}` : 
     'No major aspects';
 
   // Extract relevant chart interpretation from chart2txt if available
@@ -176,17 +267,84 @@ export function generateSystemPrompt(character: PlanetaryCharacter, reading: Ast
 FULL CHART CONTEXT:
 ${reading.chartDescription}` : '';
   
-  return `You are ${character.name}, the ${planetName} in this chart. ${character.personality.split('.')[0]}.
+  // Where this planet is in the sky right now, and the transits touching it
+  let skyContext = '';
+  if (transits) {
+    const transiting = transits.planets.find(p => p.name === planetName);
+    const transitAspects = transits.aspects
+      .filter(a => a.planet1 === planetName || a.planet2 === planetName)
+      .sort(byAspectWeight)
+      .slice(0, 3);
+    skyContext = `
+
+TODAY'S SKY (${transits.date} ${transits.time.slice(0, 5)} UT):${transiting ? `
+Transiting ${planetName}: ${transiting.sign} ${Math.floor(transiting.degree)}°${transiting.retrograde ? ' (retrograde)' : ''}, passing through natal house ${transiting.natalHouse}` : ''}
+${transitAspects.length > 0 ?
+  `Active transits: ${transitAspects.map(a => `transiting ${a.planet1} ${a.aspect} natal ${a.planet2} (${a.orb}°, ${describeAspectPhase(a)})`).join(', ')}` :
+  'No close transits to you right now'}`;
+  }
+
+  // How this planet meets the partner's chart in a relationship reading
+  let partnerContext = '';
+  if (partner) {
+    const overlay = partner.overlays.find(o => o.planet === planetName);
+    const contacts = partner.aspects.filter(a => a.planet1 === planetName).slice(0, 3);
+    partnerContext = `
+
+RELATIONSHIP WITH ${partner.name.toUpperCase()}:${overlay ? `
+Your ${planetName} falls in ${partner.name}'s house ${overlay.house}` : ''}
+${contacts.length > 0 ?
+  `Contacts: ${contacts.map(a => `${a.aspect} ${partner.name}'s ${a.planet2} (${a.orb}°)`).join(', ')}` :
+  `No close contacts to ${partner.name}'s chart`}`;
+  }
+
+  // Charts other than the natal one change who the planet is speaking for
+  const chartVoices: Partial<Record<ChartType, string>> = {
+    'progressed': `Speak as the progressed self, how the natal ${planetName} has evolved by then.`,
+    'solar-arc': `Speak as the progressed self, how the natal ${planetName} has evolved by then.`,
+    'solar-return': 'Speak about the year this return covers, not the lifelong natal pattern.',
+    'lunar-return': 'Speak about the month this return covers, not the lifelong natal pattern.',
+    'composite': 'You belong to the relationship itself, not to either person. Speak for what the two create together.',
+    'davison': 'You belong to the relationship itself, not to either person. Speak for what the two create together.',
+    'harmonic': `Speak only to the theme of harmonic ${reading.harmonic}; your conjunctions here are the natal aspects of that harmonic.`
+  };
+  const chartVoice = reading.chartType && chartVoices[reading.chartType];
+  const chartFrame = chartVoice ? `
+THIS CHART: ${reading.chartLabel}. ${chartVoice}
+` : '';
+
+  const owner = partner && reading.birthInfo.name ? `${reading.birthInfo.name}'s chart` : 'this chart';
+
+  // Signs mean different degrees in a sidereal chart, so say which zodiac they are in
+  const zodiacNote = reading.zodiac?.type === 'sidereal'
+    ? ` (sidereal zodiac, ${AYANAMSA_NAMES[reading.zodiac.ayanamsa || DEFAULT_AYANAMSA]} ayanamsa)`
+    : '';
+
+  // With an approximate or unknown birth time the houses and angles may be wrong, and the Moon may change sign
+  const uncertainty = reading.timeUncertainty;
+  const housesTrusted = !uncertainty || uncertainty.housesReliable;
+  const placement = uncertainty?.placements.find(p => p.name === planetName);
+  const timeNote = uncertainty ? `
+BIRTH TIME: ${uncertainty.mode === 'unknown' ? `unknown, chart cast for ${uncertainty.castFor}` : `somewhere between ${uncertainty.window.start} and ${uncertainty.window.end}`}.${placement && !placement.signCertain ? ` Your sign could be ${placement.signs.join(' or ')} depending on the time.` : ''}${housesTrusted ? ' The Ascendant degree is approximate.' : ' Do not claim a house position, the Ascendant or the chart ruler; speak from sign and aspects only.'}
+` : '';
+
+  // At the round table the planet answers another character, not only the question
+  const debateFrame = debate ? `
+ROUND TABLE: ${debate.replyToName} (${debate.replyTo}) has just spoken. You form a ${debate.aspect} with them in this chart (${debate.orb}° orb). ${STANCE_INSTRUCTIONS[debate.stance]}
+` : '';
 
-YOUR POSITION: ${planetName} in ${character.sign}
-${aspectInfo}${chartContext}
+  return `You are ${character.name}, the ${planetName} in ${owner}. ${character.personality.split('.')[0]}.
+${chartFrame}${debateFrame}
+YOUR POSITION: ${planetName} in ${character.sign}${zodiacNote}
+${timeNote}${aspectInfo}${skyContext}${partnerContext}${chartContext}
 
 RESPONSE RULES:
 - Keep responses concise (aim for 1-2 sentences, roughly 100-150 characters)
 - Answer from your unique planetary perspective
-- Reference your sign/aspects/houses when relevant to the question
+- Reference your ${housesTrusted ? 'sign/aspects/houses' : 'sign/aspects'} when relevant to the question
+- Give applying aspects more weight than separating ones: they are still building, separating ones are fading
 - Use the full chart context above to provide deeper astrological insights
-- Be insightful but brief
+${debate ? `- Address ${debate.replyToName} by name and answer what they actually said, keeping the user's question in view\n` : ''}${partner ? `- When the question touches the relationship, speak about how you meet ${partner.name}'s chart\n` : ''}${transits ? `- Draw on today's sky when the question is about now, timing or what is happening lately\n` : ''}- Be insightful but brief
 - Use your archetype's energy/voice
 - Complete your thoughts - don't cut off mid-sentence
 - DO NOT introduce yourself or say "I am [name]" - your username shows who you are
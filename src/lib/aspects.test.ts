@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import {
+  aspectOrb,
+  ASPECT_CATALOGUE,
+  aspectWeight,
+  byAspectWeight,
+  calculateAspects,
+  daysToExact,
+  describeAspectPhase,
+  findAspect,
+  resolveAspectProfile,
+  timeAspect,
+  validateAspectProfile
+} from '@/lib/aspects';
+import { calculateBodyPosition, julianDay } from '@/lib/ephemeris';
+
+const J2000 = 2451545;
+
+const definition = (name: string) => ASPECT_CATALOGUE.find(aspect => aspect.name === name)!;
+
+describe('resolveAspectProfile', () => {
+  it('expands the default preset to the major aspects and the quincunx', () => {
+    const profile = resolveAspectProfile();
+    expect(profile).toMatchObject({ preset: 'default', custom: false, orbPolicy: 'flat' });
+    expect(profile.aspects.map(aspect => aspect.name)).toEqual(['Conjunction', 'Opposition', 'Trine', 'Square', 'Sextile', 'Quincunx']);
+  });
+
+  it('uses the preset orbs and policy', () => {
+    const tight = resolveAspectProfile('tight');
+    expect(tight.aspects.find(aspect => aspect.name === 'Trine')?.orb).toBe(3);
+    expect(resolveAspectProfile('traditional').orbPolicy).toBe('moieties');
+    expect(resolveAspectProfile('modern').aspects).toHaveLength(ASPECT_CATALOGUE.length);
+  });
+
+  it('marks a preset as custom only when it is changed', () => {
+    const custom = resolveAspectProfile({ preset: 'default', aspects: ['Conjunction', 'Septile'], orbs: { Conjunction: 10 } });
+    expect(custom.custom).toBe(true);
+    expect(custom.aspects).toEqual([{ name: 'Conjunction', degrees: 0, orb: 10 }, { name: 'Septile', degrees: 360 / 7, orb: 1 }]);
+
+    expect(resolveAspectProfile({ preset: 'traditional', orbPolicy: 'moieties' }).custom).toBe(false);
+    expect(resolveAspectProfile({ preset: 'traditional', orbPolicy: 'flat' }).custom).toBe(true);
+  });
+});
+
+describe('validateAspectProfile', () => {
+  it('accepts presets and customised presets', () => {
+    expect(validateAspectProfile('modern')).toBeNull();
+    expect(validateAspectProfile({ preset: 'tight', orbs: { Trine: 4 }, orbPolicy: 'luminaries' })).toBeNull();
+  });
+
+  it('names what is wrong', () => {
+    expect(validateAspectProfile('loose' as never)).toMatch(/^Unknown aspect preset: loose/);
+    expect(validateAspectProfile({ orbPolicy: 'wide' as never })).toMatch(/^Unknown orb policy: wide/);
+    expect(validateAspectProfile({ aspects: [] })).toBe('Aspect list must name at least one aspect');
+    expect(validateAspectProfile({ aspects: ['Novile'] })).toMatch(/^Unknown aspect: Novile/);
+    expect(validateAspectProfile({ orbs: { Trine: 20 } })).toBe('Orb for Trine must be a number of degrees between 0 and 15');
+    expect(validateAspectProfile({ orbs: { Trine: 0 } })).toMatch(/^Orb for Trine/);
+  });
+});
+
+describe('aspectOrb', () => {
+  it('widens orbs for the luminaries and narrows them for the outer planets', () => {
+    expect(aspectOrb(definition('Trine'), 'Sun', 'Mars', 'luminaries')).toBe(10);
+    expect(aspectOrb(definition('Trine'), 'Mars', 'Pluto', 'luminaries')).toBe(6);
+    expect(aspectOrb(definition('Trine'), 'Mars', 'Venus', 'luminaries')).toBe(8);
+  });
+
+  it('adds the two bodies\' moieties, scaled down for minor aspects', () => {
+    expect(aspectOrb(definition('Conjunction'), 'Sun', 'Moon', 'moieties')).toBe(13.5);
+    expect(aspectOrb(definition('Sextile'), 'Sun', 'Moon', 'moieties')).toBeCloseTo(13.5 * 6 / 8, 9);
+  });
+
+  it('halves the orb when a sensitive point is involved', () => {
+    expect(aspectOrb(definition('Conjunction'), 'Sun', 'Part of Fortune', 'flat')).toBe(4);
+    expect(aspectOrb(definition('Conjunction'), 'Sun', 'North Node', 'flat')).toBe(8);
+  });
+});
+
+describe('findAspect', () => {
+  it('applies the profile\'s orb policy', () => {
+    const sun = { name: 'Sun', longitude: 0 };
+    const mars = { name: 'Mars', longitude: 9 };
+    expect(findAspect(sun, mars)).toBeNull();
+    expect(findAspect(sun, mars, resolveAspectProfile({ orbPolicy: 'luminaries' }))).toEqual({ aspect: 'Conjunction', orb: 9, exactDegrees: 0 });
+  });
+
+  it('measures across 0° Aries and keeps the tightest match', () => {
+    // 350° and 35.5° are 45.5° apart, a semi-square half a degree wide
+    const modern = resolveAspectProfile('modern');
+    expect(findAspect({ name: 'Venus', longitude: 350 }, { name: 'Mars', longitude: 35.5 }, modern))
+      .toMatchObject({ aspect: 'Semi-square', orb: 0.5 });
+  });
+});
+
+describe('calculateAspects', () => {
+  it('skips the nodal axis and lists the tightest aspects first', () => {
+    const aspects = calculateAspects([
+      { name: 'Sun', longitude: 10, speed: 1 },
+      { name: 'North Node', longitude: 100, speed: 0 },
+      { name: 'South Node', longitude: 280, speed: 0 },
+      { name: 'Moon', longitude: 193, speed: 13 }
+    ]);
+    expect(aspects.some(aspect => aspect.planet1 === 'North Node' && aspect.planet2 === 'South Node')).toBe(false);
+    expect(aspects.map(aspect => aspect.orb)).toEqual([...aspects.map(aspect => aspect.orb)].sort((a, b) => a - b));
+    expect(aspects[0]).toMatchObject({ planet1: 'Sun', planet2: 'North Node', aspect: 'Square', orb: 0 });
+  });
+
+  const planets = [
+    { name: 'Sun', longitude: 0, speed: 1 },
+    { name: 'Mars', longitude: 87, speed: 0.5 }
+  ];
+
+  it('times aspects only when given the chart timing', () => {
+    const [square] = calculateAspects(planets);
+    expect(square).toMatchObject({ aspect: 'Square', orb: 3 });
+    expect(square.applying).toBeUndefined();
+
+    const [timed] = calculateAspects(planets, undefined, { jd: J2000, daysPerDay: 1 });
+    expect(timed).toMatchObject({ applying: false, exactDate: '1999-12-26T12:00:00Z' });
+    expect(describeAspectPhase(timed)).toBe('separating, exact 1999-12-26');
+  });
+});
+
+describe('daysToExact', () => {
+  it('counts days until a conjunction perfects', () => {
+    // A body 10° behind a fixed point, gaining a degree a day, whichever body it is
+    expect(daysToExact(350, 1, 0, 0, 0)).toBeCloseTo(10, 9);
+    expect(daysToExact(0, 0, 350, 1, 0)).toBeCloseTo(10, 9);
+  });
+
+  it('counts days since a conjunction perfected', () => {
+    expect(daysToExact(10, 1, 0, 0, 0)).toBeCloseTo(-10, 9);
+    expect(daysToExact(0, 0, 350, -1, 0)).toBeCloseTo(-10, 9);
+  });
+
+  it('times aspects from either side and across 0° Aries', () => {
+    expect(daysToExact(85, 1, 0, 0, 90)).toBeCloseTo(5, 9);
+    expect(daysToExact(95, 1, 0, 0, 90)).toBeCloseTo(-5, 9);
+    // Retrograde motion closing a square from the far side
+    expect(daysToExact(95, -0.5, 0, 0, 90)).toBeCloseTo(10, 9);
+    expect(daysToExact(10, 0.5, 185, 0, 180)).toBeCloseTo(-10, 9);
+    expect(daysToExact(2, 1, 190, 0, 180)).toBeCloseTo(8, 9);
+  });
+
+  it('uses the relative motion of both bodies', () => {
+    // Moon 12° behind the Sun, gaining 13.2 - 1 = 12.2° a day
+    expect(daysToExact(100, 13.2, 112, 1, 0)).toBeCloseTo(12 / 12.2, 9);
+  });
+
+  it('gives no estimate when the bodies keep pace', () => {
+    expect(daysToExact(85, 1, 0, 1, 90)).toBeNull();
+    expect(daysToExact(85, 0, 0, 0, 90)).toBeNull();
+  });
+});
+
+describe('timeAspect', () => {
+  it('dates an applying aspect from the chart moment', () => {
+    expect(timeAspect({ longitude: 85, speed: 1 }, { longitude: 0, speed: 0 }, 90, { jd: J2000, daysPerDay: 1 })).toEqual({
+      applying: true,
+      exactDate: '2000-01-06T12:00:00Z'
+    });
+  });
+
+  it('dates a separating aspect in the past', () => {
+    expect(timeAspect({ longitude: 95, speed: 1 }, { longitude: 0, speed: 0 }, 90, { jd: J2000, daysPerDay: 1 })).toEqual({
+      applying: false,
+      exactDate: '1999-12-27T12:00:00Z'
+    });
+  });
+
+  it('scales symbolic days to real time for progressions', () => {
+    // Two progressed days ahead stand for two years of life
+    const timing = { jd: J2000, daysPerDay: 365.25 };
+    expect(timeAspect({ longitude: 88, speed: 1 }, { longitude: 0, speed: 0 }, 90, timing).exactDate).toBe('2002-01-01T00:00:00Z');
+  });
+
+  it('leaves stationary pairs untimed', () => {
+    expect(timeAspect({ longitude: 88, speed: 0 }, { longitude: 0, speed: 0 }, 90, { jd: J2000, daysPerDay: 1 })).toEqual({});
+  });
+
+  it('predicts a real new moon to within a few hours', () => {
+    // New moon of 2000 January 6, 18:14 UT
+    const jd = julianDay('2000-01-05', '12:00:00');
+    const sun = calculateBodyPosition('Sun', jd);
+    const moon = calculateBodyPosition('Moon', jd);
+    const { applying, exactDate } = timeAspect(moon, sun, 0, { jd, daysPerDay: 1 });
+
+    expect(applying).toBe(true);
+    const predicted = Date.parse(exactDate!);
+    expect(Math.abs(predicted - Date.parse('2000-01-06T18:14:00Z'))).toBeLessThan(3 * 60 * 60 * 1000);
+  });
+});
+
+describe('aspectWeight', () => {
+  it('ranks tighter aspects first and applying ones above separating ones at the same orb', () => {
+    expect(aspectWeight({ orb: 1 })).toBeGreaterThan(aspectWeight({ orb: 2 }));
+    expect(aspectWeight({ orb: 2, applying: true })).toBeGreaterThan(aspectWeight({ orb: 2 }));
+    expect(aspectWeight({ orb: 2 })).toBeGreaterThan(aspectWeight({ orb: 2, applying: false }));
+
+    // An applying aspect a degree wide outranks a static one half a degree wide
+    const sorted = [{ orb: 1, applying: false }, { orb: 0.5 }, { orb: 1, applying: true }].sort(byAspectWeight);
+    expect(sorted).toEqual([{ orb: 1, applying: true }, { orb: 0.5 }, { orb: 1, applying: false }]);
+  });
+});
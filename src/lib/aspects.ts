@@ -0,0 +1,260 @@
+import type { Aspect, AspectDefinition, AspectPreset, AspectProfile, AspectProfileOptions, OrbPolicy } from '@/types/astrology';
+import { angularDifference, toUtcDateTime } from '@/lib/ephemeris';
+import { isSensitivePoint } from '@/lib/points';
+
+type AspectPoint = { name: string; longitude: number };
+
+// The real moment a chart stands for, and real days per day of planetary motion (a year for secondary progressions)
+export interface AspectTiming {
+  jd: number;
+  daysPerDay: number;
+}
+
+// Below this the bodies are treated as moving together, with no exact date to estimate (degrees per day)
+const MIN_SEPARATION_RATE = 1e-6;
+
+// Every aspect a profile can use; orbs are the base orbs of the default profile
+export const ASPECT_CATALOGUE: AspectDefinition[] = [
+  { name: 'Conjunction', degrees: 0, orb: 8 },
+  { name: 'Opposition', degrees: 180, orb: 8 },
+  { name: 'Trine', degrees: 120, orb: 8 },
+  { name: 'Square', degrees: 90, orb: 8 },
+  { name: 'Sextile', degrees: 60, orb: 6 },
+  { name: 'Quincunx', degrees: 150, orb: 3 },
+  { name: 'Semi-sextile', degrees: 30, orb: 2 },
+  { name: 'Semi-square', degrees: 45, orb: 2 },
+  { name: 'Sesquiquadrate', degrees: 135, orb: 2 },
+  { name: 'Quintile', degrees: 72, orb: 2 },
+  { name: 'Biquintile', degrees: 144, orb: 2 },
+  { name: 'Septile', degrees: 360 / 7, orb: 1 },
+];
+
+export const ASPECT_PRESETS = ['default', 'traditional', 'modern', 'tight'] as const;
+export const ORB_POLICIES = ['flat', 'luminaries', 'moieties'] as const;
+
+const MAJOR_ASPECTS = ['Conjunction', 'Opposition', 'Trine', 'Square', 'Sextile'];
+
+const PRESETS: Record<AspectPreset, Required<Omit<AspectProfileOptions, 'preset'>>> = {
+  default: { aspects: [...MAJOR_ASPECTS, 'Quincunx'], orbs: {}, orbPolicy: 'flat' },
+  traditional: { aspects: MAJOR_ASPECTS, orbs: {}, orbPolicy: 'moieties' },
+  modern: { aspects: ASPECT_CATALOGUE.map(definition => definition.name), orbs: {}, orbPolicy: 'luminaries' },
+  tight: {
+    aspects: [...MAJOR_ASPECTS, 'Quincunx'],
+    orbs: { Conjunction: 4, Opposition: 4, Trine: 3, Square: 3, Sextile: 2, Quincunx: 1 },
+    orbPolicy: 'flat'
+  },
+};
+
+// Half of each body's orb (Lilly's values, with modern ones for the outer planets); two bodies' moieties add up
+const MOIETIES: Record<string, number> = {
+  Sun: 7.5,
+  Moon: 6,
+  Mercury: 3.5,
+  Venus: 3.5,
+  Mars: 3.75,
+  Jupiter: 4.5,
+  Saturn: 4.5,
+  Uranus: 2.5,
+  Neptune: 2.5,
+  Pluto: 2.5,
+  'North Node': 2,
+};
+const DEFAULT_MOIETY = 2.5;
+const MAJOR_ORB = 8; // Moiety orbs apply in full at this base orb and shrink in proportion below it
+
+const LUMINARIES = ['Sun', 'Moon'];
+const OUTER_PLANETS = ['Uranus', 'Neptune', 'Pluto'];
+const LUMINARY_ORB_FACTOR = 1.25;
+const OUTER_PLANET_ORB_FACTOR = 0.75;
+const SENSITIVE_POINT_ORB_FACTOR = 0.5; // South Node, Lilith, the Parts, Vertex and East Point; the North Node keeps its usual orb
+
+// The nodal axis is an exact opposition by construction, so it is not reported as an aspect
+const NODAL_AXIS = ['North Node', 'South Node'];
+
+export function isAspectPreset(value: unknown): value is AspectPreset {
+  return typeof value === 'string' && (ASPECT_PRESETS as readonly string[]).includes(value);
+}
+
+export function isOrbPolicy(value: unknown): value is OrbPolicy {
+  return typeof value === 'string' && (ORB_POLICIES as readonly string[]).includes(value);
+}
+
+// Reason the requested profile cannot be used, or null when it is fine
+export function validateAspectProfile(input: AspectPreset | AspectProfileOptions): string | null {
+  const options = typeof input === 'string' ? { preset: input } : input;
+  if (!options || typeof options !== 'object') {
+    return 'Aspect profile must be a preset name or an object';
+  }
+
+  if (options.preset !== undefined && !isAspectPreset(options.preset)) {
+    return `Unknown aspect preset: ${options.preset}. Use one of: ${ASPECT_PRESETS.join(', ')}`;
+  }
+  if (options.orbPolicy !== undefined && !isOrbPolicy(options.orbPolicy)) {
+    return `Unknown orb policy: ${options.orbPolicy}. Use one of: ${ORB_POLICIES.join(', ')}`;
+  }
+
+  const names = ASPECT_CATALOGUE.map(definition => definition.name);
+  if (options.aspects !== undefined) {
+    if (!Array.isArray(options.aspects) || options.aspects.length === 0) {
+      return 'Aspect list must name at least one aspect';
+    }
+    const unknown = options.aspects.find(name => !names.includes(name));
+    if (unknown !== undefined) {
+      return `Unknown aspect: ${unknown}. Use any of: ${names.join(', ')}`;
+    }
+  }
+
+  for (const [name, orb] of Object.entries(options.orbs || {})) {
+    if (!names.includes(name)) {
+      return `Unknown aspect: ${name}. Use any of: ${names.join(', ')}`;
+    }
+    if (typeof orb !== 'number' || !(orb > 0) || orb > 15) {
+      return `Orb for ${name} must be a number of degrees between 0 and 15`;
+    }
+  }
+
+  return null;
+}
+
+// Expand a preset name or customised preset into the aspects and orb policy to calculate with
+export function resolveAspectProfile(input: AspectPreset | AspectProfileOptions = 'default'): AspectProfile {
+  const options = typeof input === 'string' ? { preset: input } : input;
+  const preset = options.preset || 'default';
+  const base = PRESETS[preset];
+  const orbs = { ...base.orbs, ...options.orbs };
+  const names = options.aspects || base.aspects;
+
+  return {
+    preset,
+    custom: Boolean(options.aspects || options.orbs || (options.orbPolicy && options.orbPolicy !== base.orbPolicy)),
+    orbPolicy: options.orbPolicy || base.orbPolicy,
+    aspects: ASPECT_CATALOGUE
+      .filter(definition => names.includes(definition.name))
+      .map(definition => ({ ...definition, orb: orbs[definition.name] ?? definition.orb }))
+  };
+}
+
+export const DEFAULT_ASPECT_PROFILE = resolveAspectProfile();
+
+// Orb allowed for an aspect between two named bodies under the profile's orb policy
+export function aspectOrb(definition: AspectDefinition, body1: string, body2: string, policy: OrbPolicy): number {
+  const bodies = [body1, body2];
+  const narrowed = bodies.some(isSensitivePoint);
+  return baseOrb(definition, bodies, policy) * (narrowed ? SENSITIVE_POINT_ORB_FACTOR : 1);
+}
+
+function baseOrb(definition: AspectDefinition, bodies: string[], policy: OrbPolicy): number {
+  switch (policy) {
+    case 'luminaries':
+      if (bodies.some(body => LUMINARIES.includes(body))) return definition.orb * LUMINARY_ORB_FACTOR;
+      if (bodies.some(body => OUTER_PLANETS.includes(body))) return definition.orb * OUTER_PLANET_ORB_FACTOR;
+      return definition.orb;
+    case 'moieties': {
+      const moieties = bodies.reduce((sum, body) => sum + (MOIETIES[body] ?? DEFAULT_MOIETY), 0);
+      return moieties * Math.min(definition.orb / MAJOR_ORB, 1);
+    }
+    default:
+      return definition.orb;
+  }
+}
+
+// Tightest aspect formed between two points under the profile, if any
+export function findAspect(
+  point1: AspectPoint,
+  point2: AspectPoint,
+  profile: AspectProfile = DEFAULT_ASPECT_PROFILE
+): Omit<Aspect, 'planet1' | 'planet2'> | null {
+  let diff = Math.abs(point1.longitude - point2.longitude);
+  if (diff > 180) diff = 360 - diff;
+
+  let best: Omit<Aspect, 'planet1' | 'planet2'> | null = null;
+  for (const definition of profile.aspects) {
+    const orb = Math.abs(diff - definition.degrees);
+    if (orb <= aspectOrb(definition, point1.name, point2.name, profile.orbPolicy) && (!best || orb < best.orb)) {
+      best = {
+        aspect: definition.name,
+        orb: Math.round(orb * 100) / 100,
+        exactDegrees: definition.degrees
+      };
+    }
+  }
+  return best;
+}
+
+// Days until (positive) or since (negative) an aspect perfects if both bodies keep their current daily motion
+export function daysToExact(
+  longitude1: number,
+  speed1: number,
+  longitude2: number,
+  speed2: number,
+  exactDegrees: number
+): number | null {
+  const delta = angularDifference(longitude2, longitude1);
+  const separationRate = Math.sign(delta) * (speed1 - speed2);
+  if (Math.abs(separationRate) < MIN_SEPARATION_RATE) return null;
+  return (exactDegrees - Math.abs(delta)) / separationRate;
+}
+
+// Applying flag and estimated exact date for an aspect between two moving points
+export function timeAspect(
+  point1: { longitude: number; speed: number },
+  point2: { longitude: number; speed: number },
+  exactDegrees: number,
+  timing: AspectTiming
+): Pick<Aspect, 'applying' | 'exactDate'> {
+  const days = daysToExact(point1.longitude, point1.speed, point2.longitude, point2.speed, exactDegrees);
+  if (days === null) return {};
+  return {
+    applying: days > 0,
+    exactDate: toUtcDateTime(timing.jd + days * timing.daysPerDay)
+  };
+}
+
+// Calculate aspects between planets, timed from their speeds when the chart moves
+export function calculateAspects(
+  planets: Array<AspectPoint & { speed: number }>,
+  profile: AspectProfile = DEFAULT_ASPECT_PROFILE,
+  timing?: AspectTiming
+): Aspect[] {
+  const aspects: Aspect[] = [];
+
+  for (let i = 0; i < planets.length; i++) {
+    for (let j = i + 1; j < planets.length; j++) {
+      const planet1 = planets[i];
+      const planet2 = planets[j];
+      if (NODAL_AXIS.includes(planet1.name) && NODAL_AXIS.includes(planet2.name)) continue;
+      const aspect = findAspect(planet1, planet2, profile);
+
+      if (aspect) {
+        aspects.push({
+          planet1: planet1.name,
+          planet2: planet2.name,
+          ...aspect,
+          ...(timing && timeAspect(planet1, planet2, aspect.exactDegrees, timing))
+        });
+      }
+    }
+  }
+  return aspects.sort((a, b) => a.orb - b.orb);
+}
+
+// Applying aspects are still building, so they count for more than separating ones at the same orb
+const APPLYING_WEIGHT = 1.5;
+const SEPARATING_WEIGHT = 0.75;
+
+// Relative importance of an aspect: tighter is stronger, applying stronger than separating
+export function aspectWeight(aspect: Pick<Aspect, 'orb' | 'applying'>): number {
+  const phase = aspect.applying === undefined ? 1 : aspect.applying ? APPLYING_WEIGHT : SEPARATING_WEIGHT;
+  return phase / (1 + aspect.orb);
+}
+
+export function byAspectWeight(a: Pick<Aspect, 'orb' | 'applying'>, b: Pick<Aspect, 'orb' | 'applying'>): number {
+  return aspectWeight(b) - aspectWeight(a);
+}
+
+// 'applying, exact 2030-01-01' style note for prompts and explanations; empty for static aspects
+export function describeAspectPhase(aspect: Pick<Aspect, 'applying' | 'exactDate'>): string {
+  if (aspect.applying === undefined) return '';
+  const phase = aspect.applying ? 'applying' : 'separating';
+  return aspect.exactDate ? `${phase}, exact ${aspect.exactDate.slice(0, 10)}` : phase;
+}
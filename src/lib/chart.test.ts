@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { calculateNatalChart, remoteFallbackEndpoint, validateChartDate } from '@/lib/chart';
+import { EphemerisRangeError } from '@/lib/ephemeris';
+
+const LONDON = { name: 'London', latitude: 51.5074, longitude: -0.1278 };
+
+const REMOTE_PLANETS = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto', 'North Node']
+  .map((name, index) => ({ name, longitude: index * 30 + 5, speed: 1 }));
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('remote ephemeris fallback', () => {
+  it('is off unless ASTRO_API_FALLBACK is true', () => {
+    expect(remoteFallbackEndpoint({})).toBeNull();
+    expect(remoteFallbackEndpoint({ ASTRO_API_FALLBACK: 'true' })).toBe('https://simple-astro-api.netlify.app/api/positions');
+    expect(remoteFallbackEndpoint({ ASTRO_API_FALLBACK: 'true', ASTRO_API_ENDPOINT: 'http://localhost:9000/positions' }))
+      .toBe('http://localhost:9000/positions');
+  });
+
+  it('casts from the local ephemeris without calling the remote service', async () => {
+    vi.stubEnv('ASTRO_API_FALLBACK', 'true');
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const reading = await calculateNatalChart({ date: '1990-06-15', time: '14:30', location: LONDON });
+    expect(reading.ephemerisSource).toBe('local');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects dates outside the local range while the fallback is off', async () => {
+    expect(validateChartDate('1750-06-15')).toMatch(/1800 to 2100/);
+    await expect(calculateNatalChart({ date: '1750-06-15', time: '12:00', location: LONDON, timeZone: 'UTC' }))
+      .rejects.toThrow('outside supported ephemeris range');
+  });
+
+  it('checks the range on the UT moment, not the local date', async () => {
+    // Midnight in Tokyo on the first supported day is still 1799 in UT
+    expect(validateChartDate('1800-01-01')).toBeNull();
+    await expect(calculateNatalChart({ date: '1800-01-01', time: '00:30', location: LONDON, timeZone: 'Asia/Tokyo' }))
+      .rejects.toThrow(EphemerisRangeError);
+  });
+
+  it('takes positions from the remote service when the local ephemeris throws', async () => {
+    vi.stubEnv('ASTRO_API_FALLBACK', 'true');
+    vi.stubEnv('ASTRO_API_ENDPOINT', 'http://localhost:9000/positions');
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ planets: REMOTE_PLANETS, ascendant: 100, midheaven: 10 })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(validateChartDate('1750-06-15')).toBeNull();
+    const reading = await calculateNatalChart({ date: '1750-06-15', time: '12:00', location: LONDON, timeZone: 'UTC' });
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:9000/positions?date=1750-06-15&time=12:00:00&lat=51.5074&lng=-0.1278');
+    expect(reading.ephemerisSource).toBe('simple-astro-api');
+    expect(reading.sun).toMatchObject({ longitude: 5, sign: 'Aries' });
+    expect(reading.ascendant).toBe(100);
+  });
+
+  it('fails when the remote service answers with something other than positions', async () => {
+    vi.stubEnv('ASTRO_API_FALLBACK', 'true');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({ error: 'down' }))));
+
+    await expect(calculateNatalChart({ date: '1750-06-15', time: '12:00', location: LONDON, timeZone: 'UTC' }))
+      .rejects.toThrow('Malformed positions in response');
+  });
+});
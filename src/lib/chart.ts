@@ -0,0 +1,400 @@
+import { chart2txt } from 'chart2txt';
+import { calculateAngles, calculateChart, EphemerisRangeError, julianDay, validateEphemerisDate, type CalculationResult } from '@/lib/ephemeris';
+import { calculateAspects, DEFAULT_ASPECT_PROFILE, resolveAspectProfile, validateAspectProfile, type AspectTiming } from '@/lib/aspects';
+import { detectAspectPatterns } from '@/lib/patterns';
+import { assignDeclinations, calculateDeclinationAspects } from '@/lib/declinations';
+import { assignDignities } from '@/lib/dignities';
+import { calculateDispositors } from '@/lib/dispositors';
+import { calculateExtraPoints, extraPointFields, extraPointsOf, validateExtraPoints } from '@/lib/points';
+import { calculateHouseCusps, DEFAULT_HOUSE_SYSTEM, HOUSE_SYSTEM_NAMES, HOUSE_SYSTEMS, isHouseSystem, wholeSignCusps, type HouseCalculation } from '@/lib/houses';
+import { resolveZodiac, toZodiacLongitude, TROPICAL_ZODIAC, validateZodiac, zodiacOffset } from '@/lib/sidereal';
+import { isValidTimeZone, resolveBirthTimezone } from '@/lib/timezone';
+import { analyzeTimeWindow, isTimeKnown, resolveUncertainBirthTime, validateBirthTimeOptions } from '@/lib/uncertainty';
+import { geocodeLocation } from '@/lib/geocoding';
+import { getSignAndDegree, toPlanetPosition } from '@/lib/zodiac';
+import type { AspectProfile, AstrologyReading, BirthInfo, ChartOptions, ChartType, EphemerisSource, House, PlanetPosition, TimezoneInfo, ZodiacSettings } from '@/types/astrology';
+
+// Create house information
+export const HOUSE_NAMES = [
+  '1st House (Self)', '2nd House (Resources)', '3rd House (Communication)',
+  '4th House (Home)', '5th House (Creativity)', '6th House (Service)',
+  '7th House (Partnership)', '8th House (Transformation)', '9th House (Philosophy)',
+  '10th House (Career)', '11th House (Community)', '12th House (Spirituality)'
+];
+
+export function buildHouses(houseCusps: number[]): House[] {
+  return houseCusps.map((cusp, index) => ({
+    number: index + 1,
+    name: HOUSE_NAMES[index],
+    cusp: cusp,
+    ...getSignAndDegree(cusp)
+  }));
+}
+
+// Generate human-readable chart description using chart2txt
+export function generateChartDescription(
+  astrologyData: Pick<AstrologyReading, 'planets' | 'ascendant' | 'midheaven' | 'houseCusps' | 'houseSystem' | 'aspectProfile'>,
+  locationName: string,
+  date: string,
+  time: string,
+  chartName: string = 'Birth Chart'
+): string {
+  try {
+    // Convert our data format to chart2txt format
+    // The key is that chart2txt expects 'degree' to be the longitude value (0-360)
+    const chart2txtData = {
+      name: chartName, // Required field
+      planets: astrologyData.planets.map((planet) => ({
+        name: planet.name,
+        degree: planet.longitude, // Use longitude directly as degree
+      })),
+      ascendant: astrologyData.ascendant,
+      midheaven: astrologyData.midheaven,
+      houseCusps: astrologyData.houseCusps,
+      location: locationName,
+      timestamp: new Date(`${date.replace(/-/g, "/")} ${time.replace(/-/g, ":")}`),
+    };
+
+    // chart2txt keeps its own aspect defaults unless the chart was cast with another profile; it only knows flat orbs
+    const profile = astrologyData.aspectProfile;
+    const aspectDefinitions = profile && (profile.preset !== 'default' || profile.custom)
+      ? profile.aspects.map(({ name, degrees, orb }) => ({ name: name.toLowerCase(), angle: degrees, orb }))
+      : undefined;
+
+    return chart2txt(chart2txtData, {
+      houseSystemName: HOUSE_SYSTEM_NAMES[astrologyData.houseSystem],
+      ...(aspectDefinitions && { aspectDefinitions })
+    });
+  } catch (error) {
+    console.error('Error generating chart description:', error);
+    return 'Chart description unavailable';
+  }
+}
+
+function findPlanet(planets: PlanetPosition[], name: string): PlanetPosition {
+  const planet = planets.find(p => p.name === name) ||
+    planets.find(p => p.name.toLowerCase().includes(name === 'North Node' ? 'node' : name.toLowerCase()));
+  if (!planet) {
+    throw new Error(`Missing position for ${name}`);
+  }
+  return planet;
+}
+
+export interface ReadingInput {
+  planets: PlanetPosition[];
+  ascendant: number;
+  midheaven: number;
+  houses: HouseCalculation;
+  aspectProfile?: AspectProfile; // Defaults to the standard profile; derived charts pass on their natal chart's
+  aspectTiming?: AspectTiming | null; // Defaults to the chart moment in real time; null where the points never move apart
+  zodiac?: ZodiacSettings; // Positions come in tropical and are shifted into this zodiac
+  ayanamsaJd?: number; // Moment the ayanamsa is taken for; defaults to the chart moment
+  birthInfo: BirthInfo;
+  timezone: TimezoneInfo; // Local and UT time of the moment the chart is cast for
+  chartType?: ChartType;
+  chartLabel?: string;
+  ephemerisSource?: EphemerisSource; // Defaults to the local ephemeris
+}
+
+// Full reading, with aspects, houses and the chart2txt description, from computed positions
+export function assembleReading(input: ReadingInput): AstrologyReading {
+  const {
+    houses, birthInfo, timezone, chartType, chartLabel, aspectProfile = DEFAULT_ASPECT_PROFILE, zodiac = TROPICAL_ZODIAC, ephemerisSource = 'local'
+  } = input;
+  const jd = julianDay(timezone.utcDate, timezone.utcTime);
+
+  // Shift everything into the chart's zodiac; whole sign houses then start from the shifted ascendant's sign
+  const offset = zodiacOffset(zodiac, input.ayanamsaJd ?? jd);
+  const ascendant = toZodiacLongitude(input.ascendant, offset);
+  const midheaven = toZodiacLongitude(input.midheaven, offset);
+  const cusps = houses.system === 'whole-sign' ? wholeSignCusps(ascendant) : houses.cusps.map(cusp => toZodiacLongitude(cusp, offset));
+  const shifted = input.planets.map(planet => {
+    const longitude = toZodiacLongitude(planet.longitude, offset);
+    return { ...planet, longitude, ...getSignAndDegree(longitude) };
+  });
+  // Declination does not multiply with longitude, so a harmonic chart has no declinations or parallels
+  const declinations = chartType !== 'harmonic';
+  const planets = assignDignities(
+    declinations ? assignDeclinations(shifted, input.planets.map(planet => planet.longitude), jd) : shifted,
+    ascendant
+  );
+
+  const aspectTiming = input.aspectTiming === undefined ? { jd, daysPerDay: 1 } : input.aspectTiming;
+  const aspects = calculateAspects(planets, aspectProfile, aspectTiming ?? undefined);
+
+  const reading: AstrologyReading = {
+    // Extract individual planets for compatibility
+    sun: findPlanet(planets, 'Sun'),
+    moon: findPlanet(planets, 'Moon'),
+    mercury: findPlanet(planets, 'Mercury'),
+    venus: findPlanet(planets, 'Venus'),
+    mars: findPlanet(planets, 'Mars'),
+    jupiter: findPlanet(planets, 'Jupiter'),
+    saturn: findPlanet(planets, 'Saturn'),
+    uranus: findPlanet(planets, 'Uranus'),
+    neptune: findPlanet(planets, 'Neptune'),
+    pluto: findPlanet(planets, 'Pluto'),
+    northNode: findPlanet(planets, 'North Node'),
+    ...extraPointFields(planets),
+    planets,
+    aspects,
+    aspectProfile,
+    ...(declinations && { declinationAspects: calculateDeclinationAspects(planets) }),
+    patterns: detectAspectPatterns(planets, aspects, cusps),
+    dispositors: calculateDispositors(planets, ascendant),
+    houses: buildHouses(cusps),
+    ascendant,
+    midheaven,
+    houseCusps: cusps,
+    houseSystem: houses.system,
+    ...(houses.system !== houses.requestedSystem && {
+      requestedHouseSystem: houses.requestedSystem
+    }),
+    zodiac: zodiac.type === 'sidereal' ? { ...zodiac, ayanamsaValue: offset } : TROPICAL_ZODIAC,
+    ephemerisSource,
+    birthInfo,
+    timezone,
+    ...(chartType && { chartType }),
+    ...(chartLabel && { chartLabel })
+  };
+
+  // Generate human-readable chart description for AI characters
+  reading.chartDescription = generateChartDescription(
+    reading,
+    birthInfo.location.name,
+    timezone.localDate,
+    timezone.localTime,
+    chartLabel
+  );
+
+  return reading;
+}
+
+type Environment = Record<string, string | undefined>;
+
+const DEFAULT_ASTRO_API_ENDPOINT = 'https://simple-astro-api.netlify.app/api/positions';
+
+// Remote positions service to fall back on when the local ephemeris throws, or null when the fallback is off:
+//   ASTRO_API_FALLBACK   'true' to enable it
+//   ASTRO_API_ENDPOINT   simple-astro-api compatible positions URL
+export function remoteFallbackEndpoint(env: Environment = process.env): string | null {
+  return env.ASTRO_API_FALLBACK === 'true' ? env.ASTRO_API_ENDPOINT || DEFAULT_ASTRO_API_ENDPOINT : null;
+}
+
+// Reason a birth date cannot be charted; any date goes when the remote fallback can take over from the local ephemeris
+export function validateChartDate(date: string, time?: string): string | null {
+  return remoteFallbackEndpoint() ? null : validateEphemerisDate(date, time);
+}
+
+type PlanetaryPositions = CalculationResult & { source: EphemerisSource };
+
+// Planetary positions from the local ephemeris, or from simple-astro-api when it throws and the fallback is enabled
+async function getPlanetaryPositions(
+  date: string,
+  time: string,
+  lat: number,
+  lng: number,
+): Promise<PlanetaryPositions> {
+  try {
+    return { ...calculateChart(date, time, lat, lng), source: 'local' };
+  } catch (error) {
+    const endpoint = remoteFallbackEndpoint();
+    if (!endpoint) {
+      console.error("Ephemeris error:", error);
+      throw new Error(`Failed to get astrological data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    console.warn("Local ephemeris failed, falling back to remote API:", error);
+    return { ...await getRemotePlanetaryPositions(endpoint, date, time, lat, lng), source: 'simple-astro-api' };
+  }
+}
+
+async function getRemotePlanetaryPositions(
+  endpoint: string,
+  date: string,
+  time: string,
+  lat: number,
+  lng: number,
+): Promise<CalculationResult> {
+  try {
+    const url = `${endpoint}?date=${date}&time=${time}&lat=${lat}&lng=${lng}`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data: CalculationResult = await response.json();
+    if (!Array.isArray(data.planets) || typeof data.ascendant !== 'number' || typeof data.midheaven !== 'number'
+      || data.planets.some(planet => typeof planet.name !== 'string' || typeof planet.longitude !== 'number')) {
+      throw new Error('Malformed positions in response');
+    }
+    return data;
+  } catch (error) {
+    console.error("API error:", error);
+    throw new Error(`Failed to get astrological data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Birth data as posted by the form: the location may be a bare place name still to be geocoded
+export interface ChartRequest extends ChartOptions {
+  name?: string;
+  date: string;
+  time?: string; // Required unless the time mode is a window or unknown
+  location: string | { name: string; latitude?: number; longitude?: number };
+}
+
+// Reason the options cannot be used, or null when they are fine
+export function validateChartOptions(options: ChartOptions): string | null {
+  const { houseSystem = DEFAULT_HOUSE_SYSTEM, timeZone, aspectProfile, extraPoints, zodiac, ayanamsa, timeMode, timeWindow, unknownTimeChart } = options;
+
+  if (!isHouseSystem(houseSystem)) {
+    return `Unsupported house system: ${houseSystem}. Use one of: ${HOUSE_SYSTEMS.join(', ')}`;
+  }
+
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    return `Unknown time zone: ${timeZone}`;
+  }
+
+  if (aspectProfile !== undefined) {
+    const aspectProfileError = validateAspectProfile(aspectProfile);
+    if (aspectProfileError) return aspectProfileError;
+  }
+
+  if (extraPoints !== undefined) {
+    const extraPointsError = validateExtraPoints(extraPoints);
+    if (extraPointsError) return extraPointsError;
+  }
+
+  const zodiacError = validateZodiac(zodiac, ayanamsa);
+  if (zodiacError) return zodiacError;
+
+  return validateBirthTimeOptions(timeMode, timeWindow, unknownTimeChart);
+}
+
+// Place name and coordinates of a requested location, geocoding it when the coordinates are missing
+export async function resolveLocation(location: ChartRequest['location']): Promise<BirthInfo['location']> {
+  const name = typeof location === 'string' ? location : location.name;
+  // Zero is a real coordinate, on the equator or the Greenwich meridian
+  if (typeof location !== 'string' && typeof location.latitude === 'number' && typeof location.longitude === 'number') {
+    return { name, latitude: location.latitude, longitude: location.longitude };
+  }
+  const { latitude, longitude } = await geocodeLocation(name);
+  return { name, latitude, longitude };
+}
+
+// Cast a natal chart from birth data: geocode, resolve the time zone, then compute positions and houses
+export async function calculateNatalChart(request: ChartRequest): Promise<AstrologyReading> {
+  const {
+    name, date, time = '', location, houseSystem = DEFAULT_HOUSE_SYSTEM, timeZone, disambiguation, aspectProfile, extraPoints = [], zodiac, ayanamsa,
+    timeMode, timeWindow, unknownTimeChart
+  } = request;
+  const { name: locationName, ...coordinates } = await resolveLocation(location);
+
+  // Convert the local birth time to UT using the birthplace's historical time zone rules; a window or unknown time
+  // is cast for its midpoint, noon or sunrise
+  const timezoneOptions = { timeZone, disambiguation: disambiguation === 'later' ? 'later' as const : 'earlier' as const };
+  const uncertainTime = isTimeKnown(timeMode)
+    ? null
+    : resolveUncertainBirthTime(date, coordinates, { timeMode: timeMode as 'window' | 'unknown', timeWindow, unknownTimeChart, ...timezoneOptions });
+  const timezone = uncertainTime?.timezone || resolveBirthTimezone(date, time, coordinates, timezoneOptions);
+
+  // The local date was checked on the way in, but its UT moment can fall on the other side of the range boundary
+  const dateError = validateChartDate(timezone.utcDate, timezone.utcTime);
+  if (dateError) throw new EphemerisRangeError(dateError);
+
+  // Get astrological data from the local ephemeris, or the remote fallback when enabled
+  const astroData = await getPlanetaryPositions(
+    timezone.utcDate,
+    timezone.utcTime,
+    coordinates.latitude,
+    coordinates.longitude
+  );
+
+  // Compute house cusps for the requested system from the local sidereal time
+  const jd = julianDay(timezone.utcDate, timezone.utcTime);
+  const angles = calculateAngles(jd, coordinates.latitude, coordinates.longitude);
+  const houseCalculation = calculateHouseCusps(houseSystem, angles, coordinates.latitude);
+  const points = calculateExtraPoints(extraPoints, jd, coordinates.latitude, coordinates.longitude);
+
+  const zodiacSettings = resolveZodiac(zodiac, ayanamsa);
+  const reading = assembleReading({
+    planets: [...astroData.planets, ...points].map(toPlanetPosition),
+    ascendant: astroData.ascendant,
+    midheaven: astroData.midheaven,
+    houses: houseCalculation,
+    aspectProfile: resolveAspectProfile(aspectProfile),
+    zodiac: zodiacSettings,
+    ephemerisSource: astroData.source,
+    birthInfo: {
+      name: name || undefined,
+      date,
+      time: uncertainTime ? timezone.localTime : time,
+      location: {
+        name: locationName,
+        latitude: coordinates.latitude,
+        longitude: coordinates.longitude
+      }
+    },
+    timezone
+  });
+
+  if (!uncertainTime) return reading;
+  return {
+    ...reading,
+    timeUncertainty: {
+      mode: timeMode as 'window' | 'unknown',
+      window: uncertainTime.window,
+      castFor: uncertainTime.castFor,
+      ...analyzeTimeWindow(uncertainTime.startJd, uncertainTime.endJd, coordinates, houseSystem, zodiacSettings, extraPoints)
+    }
+  };
+}
+
+// Relationship endpoints take either a stored reading or birth data for each person
+export type ChartInput = AstrologyReading | ChartRequest;
+
+export function isReading(input: ChartInput): input is AstrologyReading {
+  return 'planets' in input && Array.isArray(input.planets);
+}
+
+// Reason the input cannot be charted, or null when it is a reading or complete birth data
+export function validateChartInput(input: ChartInput): string | null {
+  if (isReading(input)) return null;
+  if (!input.date || (!input.time && isTimeKnown(input.timeMode)) || !input.location) {
+    return 'Missing required birth data: date, time, location';
+  }
+  return validateChartDate(input.date) || validateChartOptions(input);
+}
+
+// Stored readings are used as they are; birth data is cast into a chart first
+export async function resolveReading(input: ChartInput): Promise<AstrologyReading> {
+  return isReading(input) ? input : calculateNatalChart(input);
+}
+
+// Birth data that casts a reading again with the settings it was cast with
+export function chartRequestOf(reading: AstrologyReading): ChartRequest {
+  const { birthInfo, aspectProfile, zodiac, timeUncertainty } = reading;
+  return {
+    name: birthInfo.name,
+    date: birthInfo.date,
+    location: birthInfo.location,
+    houseSystem: reading.requestedHouseSystem || reading.houseSystem,
+    timeZone: reading.timezone.zone,
+    extraPoints: extraPointsOf(reading),
+    ...(aspectProfile && {
+      aspectProfile: aspectProfile.custom
+        ? {
+          preset: aspectProfile.preset,
+          orbPolicy: aspectProfile.orbPolicy,
+          aspects: aspectProfile.aspects.map(aspect => aspect.name),
+          orbs: Object.fromEntries(aspectProfile.aspects.map(aspect => [aspect.name, aspect.orb]))
+        }
+        : aspectProfile.preset
+    }),
+    ...(zodiac?.type === 'sidereal' && { zodiac: 'sidereal' as const, ayanamsa: zodiac.ayanamsa }),
+    // An uncertain time keeps its window rather than the moment it happened to be cast for
+    ...(timeUncertainty
+      ? { timeMode: timeUncertainty.mode, ...(timeUncertainty.mode === 'window' && { timeWindow: timeUncertainty.window }) }
+      : { time: birthInfo.time })
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { assignDeclinations, calculateDeclinationAspects } from '@/lib/declinations';
+import { obliquityOfEcliptic } from '@/lib/ephemeris';
+import { toPlanetPosition } from '@/lib/zodiac';
+import type { PlanetPosition } from '@/types/astrology';
+
+const J2000 = 2451545;
+
+function atDeclination(name: string, declination?: number): PlanetPosition {
+  return { ...toPlanetPosition({ name, longitude: 0, speed: 0 }), ...(declination !== undefined && { declination }) };
+}
+
+describe('assignDeclinations', () => {
+  it('derives a missing declination from the ecliptic longitude', () => {
+    const obliquity = obliquityOfEcliptic(J2000);
+    const [equinox, solstice, southern] = assignDeclinations(
+      [atDeclination('Sun'), atDeclination('Mars'), atDeclination('Venus')],
+      [0, 90, 270],
+      J2000
+    );
+    expect(equinox.declination).toBeCloseTo(0, 9);
+    expect(solstice.declination).toBeCloseTo(obliquity, 9);
+    expect(southern.declination).toBeCloseTo(-obliquity, 9);
+  });
+
+  it('flags planets beyond the Sun\'s greatest declination as out of bounds', () => {
+    const [moon, mars, sun] = assignDeclinations(
+      [atDeclination('Moon', 27.5), atDeclination('Mars', -24), atDeclination('Sun')],
+      [0, 0, 90],
+      J2000
+    );
+    expect(moon).toMatchObject({ declination: 27.5, outOfBounds: true });
+    expect(mars.outOfBounds).toBe(true);
+    // The Sun at the solstice reaches the bound but does not pass it
+    expect(sun.outOfBounds).toBe(false);
+  });
+});
+
+describe('calculateDeclinationAspects', () => {
+  it('finds parallels and contraparallels within a degree, tightest first', () => {
+    const aspects = calculateDeclinationAspects([
+      atDeclination('Sun', 10),
+      atDeclination('Moon', 10.5),
+      atDeclination('Mars', -10.2),
+      atDeclination('Jupiter', 12)
+    ]);
+    expect(aspects).toEqual([
+      { planet1: 'Sun', planet2: 'Mars', aspect: 'Contraparallel', orb: 0.2, exactDegrees: 0, declinations: [10, -10.2] },
+      { planet1: 'Moon', planet2: 'Mars', aspect: 'Contraparallel', orb: 0.3, exactDegrees: 0, declinations: [10.5, -10.2] },
+      { planet1: 'Sun', planet2: 'Moon', aspect: 'Parallel', orb: 0.5, exactDegrees: 0, declinations: [10, 10.5] }
+    ]);
+  });
+
+  it('calls two bodies near the equator parallel rather than contraparallel', () => {
+    expect(calculateDeclinationAspects([atDeclination('Sun', 0.2), atDeclination('Moon', 0.3)])[0].aspect).toBe('Parallel');
+  });
+
+  it('skips the nodal axis and bodies without a declination', () => {
+    expect(calculateDeclinationAspects([
+      atDeclination('North Node', 15),
+      atDeclination('South Node', -15),
+      atDeclination('Vertex')
+    ])).toEqual([]);
+  });
+});
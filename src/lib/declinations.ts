@@ -0,0 +1,56 @@
+import { eclipticToDeclination, obliquityOfEcliptic } from '@/lib/ephemeris';
+import type { Aspect, PlanetPosition } from '@/types/astrology';
+
+// Parallels share a declination on the same side of the equator, contraparallels mirror it across
+export const DECLINATION_ASPECTS = [
+  { name: 'Parallel', orb: 1 },
+  { name: 'Contraparallel', orb: 1 }
+];
+
+// The nodes always mirror each other, so the pair is never reported
+const NODAL_AXIS = ['North Node', 'South Node'];
+
+// Rounding can carry a solstice point a hair past the obliquity, which is not out of bounds (degrees)
+const BOUNDS_TOLERANCE = 1e-9;
+
+// Declination and out-of-bounds flag for each planet; positions without a declination of their own
+// (composite midpoints, directed points, calculated points) are taken to lie on the ecliptic
+export function assignDeclinations(planets: PlanetPosition[], tropicalLongitudes: number[], jd: number): PlanetPosition[] {
+  const obliquity = obliquityOfEcliptic(jd);
+  return planets.map((planet, index) => {
+    const declination = planet.declination ?? eclipticToDeclination(tropicalLongitudes[index], 0, obliquity);
+    return { ...planet, declination, outOfBounds: Math.abs(declination) > obliquity + BOUNDS_TOLERANCE };
+  });
+}
+
+export function calculateDeclinationAspects(planets: PlanetPosition[]): Aspect[] {
+  const aspects: Aspect[] = [];
+
+  for (let i = 0; i < planets.length; i++) {
+    for (let j = i + 1; j < planets.length; j++) {
+      const planet1 = planets[i];
+      const planet2 = planets[j];
+      if (planet1.declination === undefined || planet2.declination === undefined) continue;
+      if (NODAL_AXIS.includes(planet1.name) && NODAL_AXIS.includes(planet2.name)) continue;
+
+      const [parallel, contraparallel] = DECLINATION_ASPECTS;
+      const separation = Math.abs(planet1.declination - planet2.declination);
+      const mirror = Math.abs(planet1.declination + planet2.declination);
+      const definition = separation <= mirror ? parallel : contraparallel;
+      const orb = Math.min(separation, mirror);
+
+      if (orb <= definition.orb) {
+        aspects.push({
+          planet1: planet1.name,
+          planet2: planet2.name,
+          aspect: definition.name,
+          orb: Math.round(orb * 100) / 100,
+          exactDegrees: 0,
+          declinations: [planet1.declination, planet2.declination]
+        });
+      }
+    }
+  }
+
+  return aspects.sort((a, b) => a.orb - b.orb);
+}
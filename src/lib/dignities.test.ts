@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { assignDignities, calculateDignities, isDayChart } from '@/lib/dignities';
+import { toPlanetPosition } from '@/lib/zodiac';
+
+function dignitiesOf(longitudes: Record<string, number>, ascendant = 0) {
+  const planets = Object.entries(longitudes).map(([name, longitude]) => toPlanetPosition({ name, longitude, speed: 0 }));
+  return Object.fromEntries(assignDignities(planets, ascendant).map(planet => [planet.name, planet.dignities!]));
+}
+
+describe('isDayChart', () => {
+  it('is a day chart when the Sun is above the horizon', () => {
+    expect(isDayChart(190, 0)).toBe(true);
+    expect(isDayChart(10, 0)).toBe(false);
+    expect(isDayChart(5, 100)).toBe(true);
+  });
+});
+
+describe('calculateDignities', () => {
+  it('takes the Egyptian term ruler, changing at each term boundary', () => {
+    expect(calculateDignities('Sun', 5.99, true).termRuler).toBe('Jupiter');
+    expect(calculateDignities('Sun', 6, true).termRuler).toBe('Venus');
+    expect(calculateDignities('Sun', 29.99, true).termRuler).toBe('Saturn');
+    // 14° Capricorn opens Venus's term
+    expect(calculateDignities('Sun', 284, true).termRuler).toBe('Venus');
+    expect(calculateDignities('Sun', 358.5, true).termRuler).toBe('Saturn');
+  });
+
+  it('takes the face ruler in Chaldean order from the first decan of Aries', () => {
+    expect([0, 10, 20, 30, 40, 50].map(longitude => calculateDignities('Sun', longitude, true).faceRuler))
+      .toEqual(['Mars', 'Sun', 'Venus', 'Mercury', 'Moon', 'Saturn']);
+    // The sequence runs unbroken to the last decan of Pisces, which returns to Mars
+    expect(calculateDignities('Sun', 355, true).faceRuler).toBe('Mars');
+  });
+
+  it('scores the Sun in its own sign and triplicity by day', () => {
+    // 10° Leo: domicile and day triplicity ruler; the term is Venus's and the face Jupiter's
+    expect(calculateDignities('Sun', 130, true)).toMatchObject({
+      rulership: true,
+      triplicity: true,
+      term: false,
+      face: false,
+      peregrine: false,
+      score: 8,
+      termRuler: 'Venus',
+      faceRuler: 'Jupiter'
+    });
+    expect(calculateDignities('Sun', 130, false).score).toBe(5);
+  });
+
+  it('counts sect for the triplicity ruler', () => {
+    // Mars in its fall in Cancer rules the Water triplicity by night only
+    expect(calculateDignities('Mars', 100, true)).toMatchObject({ fall: true, triplicity: false, peregrine: true, score: -9 });
+    expect(calculateDignities('Mars', 100, false)).toMatchObject({ fall: true, triplicity: true, peregrine: false, score: -1 });
+  });
+
+  it('credits a planet in its own term or face', () => {
+    expect(calculateDignities('Jupiter', 3, true)).toMatchObject({ term: true, score: 2 });
+    expect(calculateDignities('Mars', 5, true)).toMatchObject({ rulership: true, face: true, score: 6 });
+  });
+
+  it('uses the modern rulers for the outer planets and never calls them peregrine', () => {
+    expect(calculateDignities('Pluto', 220, true)).toMatchObject({ rulership: true, peregrine: false, signRuler: 'Mars' });
+    expect(calculateDignities('Uranus', 130, true)).toMatchObject({ detriment: true, peregrine: false, score: -5 });
+  });
+});
+
+describe('assignDignities', () => {
+  it('finds mutual reception by rulership', () => {
+    const dignities = dignitiesOf({ Venus: 10, Mars: 40 });
+    expect(dignities.Venus.receivedBy).toEqual([{ planet: 'Mars', by: 'rulership' }]);
+    expect(dignities.Venus.mutualReceptions).toEqual([{ planet: 'Mars', type: 'rulership' }]);
+    expect(dignities.Mars.mutualReceptions).toEqual([{ planet: 'Venus', type: 'rulership' }]);
+  });
+
+  it('calls a reception mixed when one side receives by exaltation', () => {
+    // The Sun in Capricorn, where Mars is exalted; Mars in Leo, the Sun's domicile
+    const dignities = dignitiesOf({ Sun: 280, Mars: 130 });
+    expect(dignities.Sun.receivedBy).toEqual([{ planet: 'Mars', by: 'exaltation' }]);
+    expect(dignities.Sun.mutualReceptions).toEqual([{ planet: 'Mars', type: 'mixed' }]);
+  });
+
+  it('only lists receptions by planets in the chart', () => {
+    expect(dignitiesOf({ Moon: 10 }).Moon.receivedBy).toEqual([]);
+  });
+
+  it('reads the chart sect from the Sun and the Ascendant', () => {
+    // The Moon in Taurus rules the Earth triplicity by night
+    expect(dignitiesOf({ Sun: 10, Moon: 40 }, 0).Moon.triplicity).toBe(true);
+    expect(dignitiesOf({ Sun: 190, Moon: 40 }, 0).Moon.triplicity).toBe(false);
+  });
+});
@@ -0,0 +1,182 @@
+import { normalizeDegrees } from '@/lib/ephemeris';
+import { getElement, ZODIAC_SIGNS } from '@/lib/zodiac';
+import type { MutualReception, PlanetDignities, PlanetPosition, ReceptionType } from '@/types/astrology';
+
+export const TRADITIONAL_PLANETS = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn'];
+
+// Sign rulers from Aries to Pisces
+export const SIGN_RULERS = [
+  'Mars', 'Venus', 'Mercury', 'Moon', 'Sun', 'Mercury',
+  'Venus', 'Mars', 'Jupiter', 'Saturn', 'Saturn', 'Jupiter'
+];
+export const MODERN_SIGN_RULERS = [
+  'Mars', 'Venus', 'Mercury', 'Moon', 'Sun', 'Mercury',
+  'Venus', 'Pluto', 'Jupiter', 'Saturn', 'Uranus', 'Neptune'
+];
+
+const EXALTATIONS: Record<string, string> = {
+  Sun: 'Aries',
+  Moon: 'Taurus',
+  Mercury: 'Virgo',
+  Venus: 'Pisces',
+  Mars: 'Capricorn',
+  Jupiter: 'Cancer',
+  Saturn: 'Libra'
+};
+
+// Dorothean rulers by element: day, night, participating
+const TRIPLICITY_RULERS: Record<string, [string, string, string]> = {
+  Fire: ['Sun', 'Jupiter', 'Saturn'],
+  Earth: ['Venus', 'Moon', 'Mars'],
+  Air: ['Saturn', 'Mercury', 'Jupiter'],
+  Water: ['Venus', 'Mars', 'Moon']
+};
+
+// Egyptian terms: each sign's ruler and the degree its term ends at
+const TERMS: Array<Array<[string, number]>> = [
+  [['Jupiter', 6], ['Venus', 12], ['Mercury', 20], ['Mars', 25], ['Saturn', 30]],
+  [['Venus', 8], ['Mercury', 14], ['Jupiter', 22], ['Saturn', 27], ['Mars', 30]],
+  [['Mercury', 6], ['Jupiter', 12], ['Venus', 17], ['Mars', 24], ['Saturn', 30]],
+  [['Mars', 7], ['Venus', 13], ['Mercury', 19], ['Jupiter', 26], ['Saturn', 30]],
+  [['Jupiter', 6], ['Venus', 11], ['Saturn', 18], ['Mercury', 24], ['Mars', 30]],
+  [['Mercury', 7], ['Venus', 17], ['Jupiter', 21], ['Mars', 28], ['Saturn', 30]],
+  [['Saturn', 6], ['Mercury', 14], ['Jupiter', 21], ['Venus', 28], ['Mars', 30]],
+  [['Mars', 7], ['Venus', 11], ['Mercury', 19], ['Jupiter', 24], ['Saturn', 30]],
+  [['Jupiter', 12], ['Venus', 17], ['Mercury', 21], ['Saturn', 26], ['Mars', 30]],
+  [['Mercury', 7], ['Jupiter', 14], ['Venus', 22], ['Saturn', 26], ['Mars', 30]],
+  [['Mercury', 7], ['Venus', 13], ['Jupiter', 20], ['Mars', 25], ['Saturn', 30]],
+  [['Venus', 12], ['Jupiter', 16], ['Mercury', 19], ['Mars', 28], ['Saturn', 30]]
+];
+
+// Faces (decans) follow the Chaldean order from the first ten degrees of Aries
+const CHALDEAN_ORDER = ['Mars', 'Sun', 'Venus', 'Mercury', 'Moon', 'Saturn', 'Jupiter'];
+
+// Lilly's points for each essential dignity and debility
+const DIGNITY_SCORES = {
+  rulership: 5,
+  exaltation: 4,
+  triplicity: 3,
+  term: 2,
+  face: 1,
+  detriment: -5,
+  fall: -4,
+  peregrine: -5
+};
+
+function signIndex(longitude: number): number {
+  return Math.floor(normalizeDegrees(longitude) / 30);
+}
+
+function opposite(index: number): number {
+  return (index + 6) % 12;
+}
+
+// Signs a planet rules: traditional domiciles, or the modern one for the outer planets
+function domiciles(planet: string): number[] {
+  const rulers = TRADITIONAL_PLANETS.includes(planet) ? SIGN_RULERS : MODERN_SIGN_RULERS;
+  return rulers.flatMap((ruler, index) => ruler === planet ? [index] : []);
+}
+
+function exaltationSign(planet: string): number {
+  return EXALTATIONS[planet] ? ZODIAC_SIGNS.indexOf(EXALTATIONS[planet]) : -1;
+}
+
+function exaltationRulerOf(index: number): string | undefined {
+  return Object.keys(EXALTATIONS).find(planet => exaltationSign(planet) === index);
+}
+
+function termRulerAt(longitude: number): string {
+  const index = signIndex(longitude);
+  const degree = normalizeDegrees(longitude) - index * 30;
+  return TERMS[index].find(([, end]) => degree < end)?.[0] || TERMS[index][4][0];
+}
+
+function faceRulerAt(longitude: number): string {
+  return CHALDEAN_ORDER[Math.floor(normalizeDegrees(longitude) / 10) % CHALDEAN_ORDER.length];
+}
+
+// Day chart when the Sun is above the horizon, i.e. in houses 7 to 12
+export function isDayChart(sunLongitude: number, ascendant: number): boolean {
+  return normalizeDegrees(sunLongitude - ascendant) >= 180;
+}
+
+// Essential dignities and debilities of one planet at a longitude, before receptions are known
+export function calculateDignities(
+  planet: string,
+  longitude: number,
+  dayChart: boolean
+): Omit<PlanetDignities, 'receivedBy' | 'mutualReceptions'> {
+  const index = signIndex(longitude);
+  const triplicityRulers = TRIPLICITY_RULERS[getElement(ZODIAC_SIGNS[index])];
+  const termRuler = termRulerAt(longitude);
+  const faceRuler = faceRulerAt(longitude);
+  const exaltationRuler = exaltationRulerOf(index);
+
+  const dignities = {
+    rulership: domiciles(planet).includes(index),
+    exaltation: exaltationSign(planet) === index,
+    triplicity: triplicityRulers[dayChart ? 0 : 1] === planet,
+    term: termRuler === planet,
+    face: faceRuler === planet,
+    detriment: domiciles(planet).some(sign => opposite(sign) === index),
+    fall: exaltationSign(planet) >= 0 && opposite(exaltationSign(planet)) === index
+  };
+
+  // Peregrine only applies to the traditional planets, which can hold all five dignities
+  const peregrine = TRADITIONAL_PLANETS.includes(planet) &&
+    !dignities.rulership && !dignities.exaltation && !dignities.triplicity && !dignities.term && !dignities.face;
+
+  const score = (Object.keys(dignities) as Array<keyof typeof dignities>)
+    .reduce((sum, key) => sum + (dignities[key] ? DIGNITY_SCORES[key] : 0), peregrine ? DIGNITY_SCORES.peregrine : 0);
+
+  return {
+    ...dignities,
+    peregrine,
+    score,
+    signRuler: SIGN_RULERS[index],
+    ...(exaltationRuler && { exaltationRuler }),
+    triplicityRulers,
+    termRuler,
+    faceRuler
+  };
+}
+
+// Each planet's dignities plus the receptions between the planets of one chart
+export function assignDignities(planets: PlanetPosition[], ascendant: number): PlanetPosition[] {
+  const sun = planets.find(planet => planet.name === 'Sun');
+  const dayChart = sun ? isDayChart(sun.longitude, ascendant) : true;
+  const present = new Set(planets.map(planet => planet.name));
+
+  // A planet receives another that stands in its domicile or exaltation
+  const receptions = new Map(planets.map(planet => {
+    const index = signIndex(planet.longitude);
+    const receivers: Array<{ planet: string; by: ReceptionType }> = [];
+    const ruler = SIGN_RULERS[index];
+    const exaltationRuler = exaltationRulerOf(index);
+    if (ruler !== planet.name && present.has(ruler)) receivers.push({ planet: ruler, by: 'rulership' });
+    if (exaltationRuler && exaltationRuler !== planet.name && present.has(exaltationRuler)) {
+      receivers.push({ planet: exaltationRuler, by: 'exaltation' });
+    }
+    return [planet.name, receivers];
+  }));
+
+  return planets.map(planet => {
+    const receivedBy = receptions.get(planet.name) || [];
+    const mutualReceptions: MutualReception[] = [];
+    for (const receiver of receivedBy) {
+      const back = (receptions.get(receiver.planet) || []).find(reception => reception.planet === planet.name);
+      if (back && !mutualReceptions.some(mutual => mutual.planet === receiver.planet)) {
+        mutualReceptions.push({ planet: receiver.planet, type: back.by === receiver.by ? receiver.by : 'mixed' });
+      }
+    }
+
+    return {
+      ...planet,
+      dignities: {
+        ...calculateDignities(planet.name, planet.longitude, dayChart),
+        receivedBy,
+        mutualReceptions
+      }
+    };
+  });
+}
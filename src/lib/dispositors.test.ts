@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDispositors, calculateDispositorTree } from '@/lib/dispositors';
+
+function planetsAt(longitudes: Record<string, number>) {
+  return Object.entries(longitudes).map(([name, longitude]) => ({ name, longitude }));
+}
+
+describe('calculateDispositorTree', () => {
+  it('follows each chain to a final dispositor in its own sign', () => {
+    // The Moon in Leo goes to the Sun, the Sun in Aries to Mars, and Mars in Aries rules itself
+    const tree = calculateDispositorTree(planetsAt({ Sun: 15, Moon: 130, Mars: 5 }), 0, 'traditional');
+    const node = (name: string) => tree.nodes.find(n => n.planet === name)!;
+
+    expect(tree.finalDispositors).toEqual(['Mars']);
+    expect(tree.cycles).toEqual([]);
+    expect(node('Moon')).toMatchObject({ dispositor: 'Sun', chain: ['Moon', 'Sun', 'Mars'], depth: 2, final: false });
+    expect(node('Sun')).toMatchObject({ dispositor: 'Mars', disposes: ['Moon'], depth: 1 });
+    expect(node('Mars')).toMatchObject({ dispositor: 'Mars', disposes: ['Sun'], depth: 0, final: true });
+    expect(tree.maxDepth).toBe(2);
+  });
+
+  it('reports a mutual reception as a cycle with no final dispositor', () => {
+    // Venus in Aries and Mars in Taurus rule each other; Mercury in Libra hangs off Venus
+    const tree = calculateDispositorTree(planetsAt({ Venus: 10, Mars: 40, Mercury: 190 }), 0, 'traditional');
+    const node = (name: string) => tree.nodes.find(n => n.planet === name)!;
+
+    expect(tree.finalDispositors).toEqual([]);
+    expect(tree.cycles).toEqual([['Venus', 'Mars']]);
+    expect(node('Venus')).toMatchObject({ inCycle: true, depth: 0 });
+    expect(node('Mercury')).toMatchObject({ inCycle: false, chain: ['Mercury', 'Venus', 'Mars'], depth: 1 });
+  });
+
+  it('finds longer cycles once', () => {
+    // Sun in Taurus → Venus in Gemini → Mercury in Leo → Sun
+    const tree = calculateDispositorTree(planetsAt({ Sun: 40, Venus: 70, Mercury: 130 }), 0, 'traditional');
+    expect(tree.cycles).toEqual([['Sun', 'Venus', 'Mercury']]);
+    expect(tree.nodes.every(node => node.inCycle)).toBe(true);
+  });
+
+  it('ends a chain at a ruler missing from the chart', () => {
+    const tree = calculateDispositorTree(planetsAt({ Moon: 280 }), 0, 'traditional');
+    expect(tree.nodes[0]).toMatchObject({ dispositor: 'Saturn', chain: ['Moon'], depth: 0, final: false, inCycle: false });
+  });
+
+  it('leaves the nodes and other points out', () => {
+    const tree = calculateDispositorTree(planetsAt({ Mars: 5, 'North Node': 10, Chiron: 20 }), 0, 'traditional');
+    expect(tree.nodes.map(node => node.planet)).toEqual(['Mars']);
+    expect(tree.nodes[0].disposes).toEqual([]);
+  });
+});
+
+describe('calculateDispositors', () => {
+  it('gives Scorpio and Aquarius to the outer planets under modern rulership', () => {
+    const { traditional, modern } = calculateDispositors(planetsAt({ Mars: 220, Pluto: 225 }), 310);
+
+    expect(traditional.finalDispositors).toEqual(['Mars']);
+    expect(traditional.chartRuler).toBe('Saturn');
+    expect(modern.finalDispositors).toEqual(['Pluto']);
+    expect(modern.nodes.find(node => node.planet === 'Mars')).toMatchObject({ dispositor: 'Pluto', depth: 1 });
+    expect(modern.chartRuler).toBe('Uranus');
+  });
+});
@@ -0,0 +1,92 @@
+import { MODERN_SIGN_RULERS, SIGN_RULERS } from '@/lib/dignities';
+import { isMajorBody } from '@/lib/points';
+import { getSignAndDegree, ZODIAC_SIGNS } from '@/lib/zodiac';
+import type { DispositorAnalysis, DispositorNode, DispositorTree, RulershipScheme } from '@/types/astrology';
+
+export const RULERSHIP_SCHEMES = ['traditional', 'modern'] as const;
+
+function rulersFor(scheme: RulershipScheme): string[] {
+  return scheme === 'traditional' ? SIGN_RULERS : MODERN_SIGN_RULERS;
+}
+
+// Each planet points at the ruler of its sign; following the arrows always ends in a self-ruling planet or a loop
+export function calculateDispositorTree(
+  planets: Array<{ name: string; longitude: number }>,
+  ascendant: number,
+  scheme: RulershipScheme
+): DispositorTree {
+  const rulers = rulersFor(scheme);
+  // The nodes and other points are not planets, so they neither rule nor get disposed
+  const included = planets.filter(planet => isMajorBody(planet.name));
+  const names = new Set(included.map(planet => planet.name));
+  const signs = new Map(included.map(planet => [planet.name, getSignAndDegree(planet.longitude).sign]));
+  const dispositorOf = (name: string) => rulers[ZODIAC_SIGNS.indexOf(signs.get(name)!)];
+
+  // Walk each chain until it reaches a planet seen before on the same walk
+  const chains = new Map<string, string[]>();
+  const cycleMembers = new Set<string>();
+  const cycles: string[][] = [];
+
+  for (const planet of included) {
+    const chain = [planet.name];
+    let next = dispositorOf(planet.name);
+    while (names.has(next) && !chain.includes(next)) {
+      chain.push(next);
+      next = dispositorOf(next);
+    }
+
+    // A ruler missing from the chart ends the chain where it is
+    if (names.has(next)) {
+      const loop = chain.slice(chain.indexOf(next));
+      if (loop.length > 1 && !loop.some(name => cycleMembers.has(name))) {
+        cycles.push(loop);
+        loop.forEach(name => cycleMembers.add(name));
+      }
+    }
+    chains.set(planet.name, chain);
+  }
+
+  const finalDispositors = included
+    .map(planet => planet.name)
+    .filter(name => dispositorOf(name) === name);
+
+  const nodes: DispositorNode[] = included.map(planet => {
+    const chain = chains.get(planet.name)!;
+    const final = finalDispositors.includes(planet.name);
+    const inCycle = cycleMembers.has(planet.name);
+    const depth = final || inCycle ? 0 : chain.findIndex(name => finalDispositors.includes(name) || cycleMembers.has(name));
+    const dispositor = dispositorOf(planet.name);
+
+    return {
+      planet: planet.name,
+      sign: signs.get(planet.name)!,
+      dispositor,
+      disposes: included
+        .map(other => other.name)
+        .filter(other => other !== planet.name && dispositorOf(other) === planet.name),
+      chain,
+      depth: depth < 0 ? chain.length - 1 : depth,
+      final,
+      inCycle
+    };
+  });
+
+  return {
+    scheme,
+    nodes,
+    finalDispositors,
+    cycles,
+    maxDepth: Math.max(0, ...nodes.map(node => node.depth)),
+    chartRuler: rulers[Math.floor(ascendant / 30) % 12]
+  };
+}
+
+export function calculateDispositors(
+  planets: Array<{ name: string; longitude: number }>,
+  ascendant: number
+): DispositorAnalysis {
+  return {
+    traditional: calculateDispositorTree(planets, ascendant, 'traditional'),
+    modern: calculateDispositorTree(planets, ascendant, 'modern')
+  };
+}
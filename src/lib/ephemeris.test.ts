@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  anglesFromRamc,
+  angularDifference,
+  calculateBodyPosition,
+  EphemerisRangeError,
+  fromJulianDay,
+  greenwichSiderealTime,
+  julianDay,
+  obliquityOfEcliptic,
+  toUtcDateTime,
+  validateEphemerisDate
+} from '@/lib/ephemeris';
+
+// Reference values from Meeus, Astronomical Algorithms (2nd ed.); his examples are in TD, about a minute off UT
+const ARCMINUTE = 1 / 60;
+
+function expectLongitude(actual: number, expected: number, tolerance: number) {
+  expect(Math.abs(angularDifference(actual, expected))).toBeLessThan(tolerance);
+}
+
+describe('julianDay', () => {
+  it('matches the standard epochs', () => {
+    expect(julianDay('2000-01-01', '12:00:00')).toBe(2451545);
+    expect(julianDay('1987-04-10', '00:00:00')).toBe(2446895.5);
+    // Example 7.a: Sputnik, 1957 October 4.81
+    expect(julianDay('1957-10-04', '19:26:24')).toBeCloseTo(2436116.31, 6);
+  });
+
+  it('rounds trips through fromJulianDay', () => {
+    expect(fromJulianDay(julianDay('1990-06-15', '13:30:00'))).toEqual({ date: '1990-06-15', time: '13:30:00' });
+    expect(fromJulianDay(julianDay('1999-12-31', '23:59:59.9'))).toEqual({ date: '2000-01-01', time: '00:00:00' });
+    expect(toUtcDateTime(2451545)).toBe('2000-01-01T12:00:00Z');
+  });
+
+  it('rejects malformed dates', () => {
+    expect(() => julianDay('1990-xx-15')).toThrow('Invalid date or time');
+  });
+});
+
+describe('sidereal time and obliquity', () => {
+  it('gives Greenwich mean sidereal time (example 12.a)', () => {
+    // 13h10m46.3668s
+    expect(greenwichSiderealTime(julianDay('1987-04-10', '00:00:00'))).toBeCloseTo(197.693195, 5);
+  });
+
+  it('gives the obliquity of the ecliptic (example 22.a)', () => {
+    expect(obliquityOfEcliptic(julianDay('1987-04-10', '00:00:00'))).toBeCloseTo(23.4409, 3);
+  });
+});
+
+describe('calculateBodyPosition', () => {
+  it('places the Sun (example 25.a)', () => {
+    expectLongitude(calculateBodyPosition('Sun', julianDay('1992-10-13', '00:00:00')).longitude, 199.90895, 2 * ARCMINUTE);
+  });
+
+  it('places the Moon (example 47.a)', () => {
+    expectLongitude(calculateBodyPosition('Moon', julianDay('1992-04-12', '00:00:00')).longitude, 133.162655, 3 * ARCMINUTE);
+  });
+
+  it('places Venus (example 33.a)', () => {
+    expectLongitude(calculateBodyPosition('Venus', julianDay('1992-12-20', '00:00:00')).longitude, 313.08102, 3 * ARCMINUTE);
+  });
+
+  it('puts the Sun at the solstice point on the June solstice', () => {
+    // 2000 June 21, 01:48 UT
+    const sun = calculateBodyPosition('Sun', julianDay('2000-06-21', '01:48:00'));
+    expectLongitude(sun.longitude, 90, 2 * ARCMINUTE);
+    expect(sun.declination).toBeCloseTo(obliquityOfEcliptic(julianDay('2000-06-21', '01:48:00')), 1);
+  });
+
+  it('reports retrograde motion as negative speed', () => {
+    // Mercury was retrograde from 2023 April 21 to May 15
+    expect(calculateBodyPosition('Mercury', julianDay('2023-05-01')).speed).toBeLessThan(0);
+    expect(calculateBodyPosition('Mercury', julianDay('2023-06-01')).speed).toBeGreaterThan(0);
+  });
+
+  it('refuses dates outside the supported range', () => {
+    expect(() => calculateBodyPosition('Sun', julianDay('1700-01-01'))).toThrow('outside supported ephemeris range');
+    expect(() => calculateBodyPosition('Sun', julianDay('2100-12-31'))).not.toThrow();
+    expect(validateEphemerisDate('1799-12-31')).toMatch(/1800 to 2100/);
+    expect(validateEphemerisDate('2101-01-01')).toMatch(/1800 to 2100/);
+    expect(validateEphemerisDate('1800-01-01')).toBeNull();
+  });
+
+  it('validates the UT instant against the same bound the calculation enforces', () => {
+    expect(validateEphemerisDate('1800-01-01', '00:00:00')).toBeNull();
+    expect(validateEphemerisDate('1799-12-31', '23:59:59')).toMatch(/1800 to 2100/);
+    expect(validateEphemerisDate('2100-12-31', '23:59:59')).toBeNull();
+    expect(validateEphemerisDate('2101-01-01', '00:00:00')).toMatch(/1800 to 2100/);
+    expect(() => calculateBodyPosition('Sun', julianDay('1799-12-31', '23:59:59'))).toThrow(EphemerisRangeError);
+    expect(() => calculateBodyPosition('Sun', julianDay('1800-01-01', '00:00:00'))).not.toThrow();
+    expect(validateEphemerisDate('1990-xx-15')).toMatch('Invalid date or time');
+  });
+});
+
+describe('anglesFromRamc', () => {
+  it('puts the Midheaven at 0° Aries and the Ascendant at 0° Cancer for RAMC 0 on the equator', () => {
+    const angles = anglesFromRamc(0, 23.44, 0);
+    expectLongitude(angles.midheaven, 0, 1e-9);
+    expectLongitude(angles.ascendant, 90, 1e-9);
+  });
+
+  it('puts the Midheaven at 0° Cancer and the Ascendant at 0° Libra for RAMC 90 on the equator', () => {
+    const angles = anglesFromRamc(90, 23.44, 0);
+    expectLongitude(angles.midheaven, 90, 1e-9);
+    expectLongitude(angles.ascendant, 180, 1e-9);
+  });
+
+  it('keeps the Ascendant in the eastern half of the chart from the Midheaven', () => {
+    for (const latitude of [-50, -20, 0, 35, 51.5, 60]) {
+      for (let ramc = 0; ramc < 360; ramc += 15) {
+        const { ascendant, midheaven } = anglesFromRamc(ramc, 23.44, latitude);
+        const arc = angularDifference(midheaven, ascendant);
+        expect(arc).toBeGreaterThan(0);
+        expect(arc).toBeLessThan(180);
+      }
+    }
+  });
+});
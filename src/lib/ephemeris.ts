@@ -0,0 +1,537 @@
+// Local ephemeris engine.
+//
+// Positions are computed from mean orbital elements referred to the equinox of
+// date, corrected with the principal periodic perturbation terms for the Moon,
+// Jupiter, Saturn and Uranus and a periodic series for Pluto. Accuracy is on
+// the order of 1-2 arcminutes for dates between 1800 and 2100, which is well
+// inside what any astrological interpretation needs.
+//
+// Chiron runs on a single set of osculating elements, so it drifts by up to a
+// degree or two away from the 1990s; the Black Moon Lilith points are derived
+// from the lunar orbit.
+
+export interface EphemerisPosition {
+  name: string;
+  longitude: number; // geocentric ecliptic longitude, 0-360
+  latitude: number; // geocentric ecliptic latitude
+  declination: number; // geocentric equatorial declination, north positive
+  distance: number; // AU (Earth radii for the Moon)
+  speed: number; // degrees per day in longitude, negative when retrograde
+}
+
+export interface CalculationResult {
+  planets: EphemerisPosition[];
+  ascendant: number;
+  midheaven: number;
+  date: string;
+  time: string;
+  location: {
+    latitude: number;
+    longitude: number;
+  };
+  timezone?: string;
+}
+
+export interface ChartAngles {
+  ascendant: number;
+  midheaven: number;
+  ramc: number; // right ascension of the MC (local sidereal time in degrees)
+  obliquity: number;
+}
+
+const MIN_SUPPORTED_YEAR = 1800;
+const MAX_SUPPORTED_YEAR = 2100;
+
+const DEG = Math.PI / 180;
+const RAD = 180 / Math.PI;
+
+const sind = (x: number) => Math.sin(x * DEG);
+const cosd = (x: number) => Math.cos(x * DEG);
+const atan2d = (y: number, x: number) => Math.atan2(y, x) * RAD;
+
+export function normalizeDegrees(angle: number): number {
+  const result = angle % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+// Signed shortest distance from a to b, in the range (-180, 180]
+export function angularDifference(a: number, b: number): number {
+  const diff = normalizeDegrees(b - a);
+  return diff > 180 ? diff - 360 : diff;
+}
+
+// Julian Day for a Gregorian calendar date and UT clock time
+export function julianDay(date: string, time: string = '12:00:00'): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours = 0, minutes = 0, seconds = 0] = time.split(':').map(Number);
+
+  if ([year, month, day, hours, minutes, seconds].some(value => Number.isNaN(value))) {
+    throw new Error(`Invalid date or time: ${date} ${time}`);
+  }
+
+  const dayFraction = day + (hours + minutes / 60 + seconds / 3600) / 24;
+  let y = year;
+  let m = month;
+  if (m <= 2) {
+    y -= 1;
+    m += 12;
+  }
+  const a = Math.floor(y / 100);
+  const b = 2 - a + Math.floor(a / 4);
+
+  return Math.floor(365.25 * (y + 4716)) + Math.floor(30.6001 * (m + 1)) + dayFraction + b - 1524.5;
+}
+
+// Inverse of julianDay, returning UT date (YYYY-MM-DD) and time (HH:MM:SS)
+export function fromJulianDay(jd: number): { date: string; time: string } {
+  const z = Math.floor(jd + 0.5);
+  const f = jd + 0.5 - z;
+  const alpha = Math.floor((z - 1867216.25) / 36524.25);
+  const a = z + 1 + alpha - Math.floor(alpha / 4);
+  const b = a + 1524;
+  const c = Math.floor((b - 122.1) / 365.25);
+  const d = Math.floor(365.25 * c);
+  const e = Math.floor((b - d) / 30.6001);
+
+  let day = b - d - Math.floor(30.6001 * e);
+  const month = e < 14 ? e - 1 : e - 13;
+  const year = month > 2 ? c - 4716 : c - 4715;
+
+  let totalSeconds = Math.round(f * 86400);
+  if (totalSeconds >= 86400) {
+    // Rounding pushed us to midnight; let the Date object roll the calendar over
+    const next = new Date(Date.UTC(year, month - 1, day + 1));
+    return { date: next.toISOString().slice(0, 10), time: '00:00:00' };
+  }
+  const hours = Math.floor(totalSeconds / 3600);
+  totalSeconds -= hours * 3600;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds - minutes * 60;
+
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  day = Math.floor(day);
+  return {
+    date: `${year.toString().padStart(4, '0')}-${pad(month)}-${pad(day)}`,
+    time: `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+  };
+}
+
+// ISO 8601 UT timestamp, e.g. '2030-01-01T12:00:00Z'
+export function toUtcDateTime(jd: number): string {
+  const { date, time } = fromJulianDay(jd);
+  return `${date}T${time}Z`;
+}
+
+// Days since 2000 Jan 0.0 UT, the epoch the orbital elements below are referred to
+function daysSinceEpoch(jd: number): number {
+  return jd - 2451543.5;
+}
+
+export function obliquityOfEcliptic(jd: number): number {
+  return 23.4393 - 3.563e-7 * daysSinceEpoch(jd);
+}
+
+interface OrbitalElements {
+  N: number; // longitude of the ascending node
+  i: number; // inclination
+  w: number; // argument of perihelion
+  a: number; // semi-major axis
+  e: number; // eccentricity
+  M: number; // mean anomaly
+}
+
+const ORBITAL_ELEMENTS: Record<string, (d: number) => OrbitalElements> = {
+  Sun: d => ({
+    N: 0, i: 0, w: 282.9404 + 4.70935e-5 * d,
+    a: 1, e: 0.016709 - 1.151e-9 * d, M: 356.047 + 0.9856002585 * d
+  }),
+  Moon: d => ({
+    N: 125.1228 - 0.0529538083 * d, i: 5.1454, w: 318.0634 + 0.1643573223 * d,
+    a: 60.2666, e: 0.0549, M: 115.3654 + 13.0649929509 * d
+  }),
+  Mercury: d => ({
+    N: 48.3313 + 3.24587e-5 * d, i: 7.0047 + 5.0e-8 * d, w: 29.1241 + 1.01444e-5 * d,
+    a: 0.387098, e: 0.205635 + 5.59e-10 * d, M: 168.6562 + 4.0923344368 * d
+  }),
+  Venus: d => ({
+    N: 76.6799 + 2.4659e-5 * d, i: 3.3946 + 2.75e-8 * d, w: 54.891 + 1.38374e-5 * d,
+    a: 0.72333, e: 0.006773 - 1.302e-9 * d, M: 48.0052 + 1.6021302244 * d
+  }),
+  Mars: d => ({
+    N: 49.5574 + 2.11081e-5 * d, i: 1.8497 - 1.78e-8 * d, w: 286.5016 + 2.92961e-5 * d,
+    a: 1.523688, e: 0.093405 + 2.516e-9 * d, M: 18.6021 + 0.5240207766 * d
+  }),
+  Jupiter: d => ({
+    N: 100.4542 + 2.76854e-5 * d, i: 1.303 - 1.557e-7 * d, w: 273.8777 + 1.64505e-5 * d,
+    a: 5.20256, e: 0.048498 + 4.469e-9 * d, M: 19.895 + 0.0830853001 * d
+  }),
+  Saturn: d => ({
+    N: 113.6634 + 2.3898e-5 * d, i: 2.4886 - 1.081e-7 * d, w: 339.3939 + 2.97661e-5 * d,
+    a: 9.55475, e: 0.055546 - 9.499e-9 * d, M: 316.967 + 0.0334442282 * d
+  }),
+  Uranus: d => ({
+    N: 74.0005 + 1.3978e-5 * d, i: 0.7733 + 1.9e-8 * d, w: 96.6612 + 3.0565e-5 * d,
+    a: 19.18171 - 1.55e-8 * d, e: 0.047318 + 7.45e-9 * d, M: 142.5905 + 0.011725806 * d
+  }),
+  Neptune: d => ({
+    N: 131.7806 + 3.0173e-5 * d, i: 1.77 - 2.55e-7 * d, w: 272.8461 - 6.027e-6 * d,
+    a: 30.05826 + 3.313e-8 * d, e: 0.008606 + 2.15e-9 * d, M: 260.2471 + 0.005995147 * d
+  })
+};
+
+export const EPHEMERIS_BODIES = [
+  'Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter',
+  'Saturn', 'Uranus', 'Neptune', 'Pluto', 'North Node'
+] as const;
+
+// Optional bodies, only computed when a chart asks for them
+export const EXTRA_EPHEMERIS_BODIES = ['Chiron', 'Mean Lilith', 'True Lilith'] as const;
+
+// Chiron's osculating elements (J2000 ecliptic) about its 1996 perihelion
+const CHIRON_PERIHELION_JD = 2450128.7;
+const CHIRON_ELEMENTS = { N: 209.37, i: 6.93, w: 339.25, a: 13.648, e: 0.383 };
+
+// Earth + Moon gravitational parameter in Earth radii^3 per day^2, for the osculating lunar orbit
+const EARTH_MOON_GM = 11608.8;
+
+interface EclipticCoordinates {
+  longitude: number;
+  latitude: number;
+  distance: number;
+}
+
+function solveKepler(M: number, e: number): number {
+  let E = M + e * RAD * sind(M) * (1 + e * cosd(M));
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const delta = (E - e * RAD * sind(E) - M) / (1 - e * cosd(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-7) break;
+  }
+  return E;
+}
+
+// Position in the orbit's own reference frame (heliocentric, or geocentric for the Moon)
+function orbitalPosition(el: OrbitalElements): EclipticCoordinates {
+  const M = normalizeDegrees(el.M);
+  const E = solveKepler(M, el.e);
+  const xv = el.a * (cosd(E) - el.e);
+  const yv = el.a * Math.sqrt(1 - el.e * el.e) * sind(E);
+  const v = atan2d(yv, xv);
+  const r = Math.sqrt(xv * xv + yv * yv);
+
+  const xh = r * (cosd(el.N) * cosd(v + el.w) - sind(el.N) * sind(v + el.w) * cosd(el.i));
+  const yh = r * (sind(el.N) * cosd(v + el.w) + cosd(el.N) * sind(v + el.w) * cosd(el.i));
+  const zh = r * sind(v + el.w) * sind(el.i);
+
+  return {
+    longitude: normalizeDegrees(atan2d(yh, xh)),
+    latitude: atan2d(zh, Math.sqrt(xh * xh + yh * yh)),
+    distance: r
+  };
+}
+
+function meanAnomaly(body: string, d: number): number {
+  return normalizeDegrees(ORBITAL_ELEMENTS[body](d).M);
+}
+
+function sunPosition(d: number): EclipticCoordinates {
+  const el = ORBITAL_ELEMENTS.Sun(d);
+  const E = solveKepler(normalizeDegrees(el.M), el.e);
+  const xv = cosd(E) - el.e;
+  const yv = Math.sqrt(1 - el.e * el.e) * sind(E);
+  return {
+    longitude: normalizeDegrees(atan2d(yv, xv) + el.w),
+    latitude: 0,
+    distance: Math.sqrt(xv * xv + yv * yv)
+  };
+}
+
+function moonPosition(d: number): EclipticCoordinates {
+  const moon = ORBITAL_ELEMENTS.Moon(d);
+  const sun = ORBITAL_ELEMENTS.Sun(d);
+  const position = orbitalPosition(moon);
+
+  const Ms = normalizeDegrees(sun.M);
+  const Mm = normalizeDegrees(moon.M);
+  const Ls = Ms + sun.w;
+  const Lm = Mm + moon.w + moon.N;
+  const D = Lm - Ls;
+  const F = Lm - moon.N;
+
+  const longitude = position.longitude
+    - 1.274 * sind(Mm - 2 * D) // evection
+    + 0.658 * sind(2 * D) // variation
+    - 0.186 * sind(Ms) // yearly equation
+    - 0.059 * sind(2 * Mm - 2 * D)
+    - 0.057 * sind(Mm - 2 * D + Ms)
+    + 0.053 * sind(Mm + 2 * D)
+    + 0.046 * sind(2 * D - Ms)
+    + 0.041 * sind(Mm - Ms)
+    - 0.035 * sind(D) // parallactic equation
+    - 0.031 * sind(Mm + Ms)
+    - 0.015 * sind(2 * F - 2 * D)
+    + 0.011 * sind(Mm - 4 * D);
+
+  const latitude = position.latitude
+    - 0.173 * sind(F - 2 * D)
+    - 0.055 * sind(Mm - F - 2 * D)
+    - 0.046 * sind(Mm + F - 2 * D)
+    + 0.033 * sind(F + 2 * D)
+    + 0.017 * sind(2 * Mm + F);
+
+  const distance = position.distance
+    - 0.58 * cosd(Mm - 2 * D)
+    - 0.46 * cosd(2 * D);
+
+  return { longitude: normalizeDegrees(longitude), latitude, distance };
+}
+
+// Heliocentric position including the mutual Jupiter/Saturn/Uranus perturbations
+function heliocentricPosition(body: string, d: number): EclipticCoordinates {
+  if (body === 'Pluto') return plutoHeliocentric(d);
+
+  const position = orbitalPosition(ORBITAL_ELEMENTS[body](d));
+  const Mj = meanAnomaly('Jupiter', d);
+  const Ms = meanAnomaly('Saturn', d);
+  const Mu = meanAnomaly('Uranus', d);
+
+  if (body === 'Jupiter') {
+    position.longitude +=
+      - 0.332 * sind(2 * Mj - 5 * Ms - 67.6)
+      - 0.056 * sind(2 * Mj - 2 * Ms + 21)
+      + 0.042 * sind(3 * Mj - 5 * Ms + 21)
+      - 0.036 * sind(Mj - 2 * Ms)
+      + 0.022 * cosd(Mj - Ms)
+      + 0.023 * sind(2 * Mj - 3 * Ms + 52)
+      - 0.016 * sind(Mj - 5 * Ms - 69);
+  } else if (body === 'Saturn') {
+    position.longitude +=
+      0.812 * sind(2 * Mj - 5 * Ms - 67.6)
+      - 0.229 * cosd(2 * Mj - 4 * Ms - 2)
+      + 0.119 * sind(Mj - 2 * Ms - 3)
+      + 0.046 * sind(2 * Mj - 6 * Ms - 69)
+      + 0.014 * sind(Mj - 3 * Ms + 32);
+    position.latitude +=
+      - 0.02 * cosd(2 * Mj - 4 * Ms - 2)
+      + 0.018 * sind(2 * Mj - 6 * Ms - 49);
+  } else if (body === 'Uranus') {
+    position.longitude +=
+      0.04 * sind(Ms - 2 * Mu + 6)
+      + 0.035 * sind(Ms - 3 * Mu + 33)
+      - 0.015 * sind(Mj - Mu + 20);
+  }
+
+  position.longitude = normalizeDegrees(position.longitude);
+  return position;
+}
+
+// Pluto has no useful Keplerian model, so use a periodic fit (J2000 equinox) and precess to date
+function plutoHeliocentric(d: number): EclipticCoordinates {
+  const S = 50.03 + 0.033459652 * d;
+  const P = 238.95 + 0.003968789 * d;
+
+  const longitude = 238.9508 + 0.00400703 * d
+    - 19.799 * sind(P) + 19.848 * cosd(P)
+    + 0.897 * sind(2 * P) - 4.956 * cosd(2 * P)
+    + 0.61 * sind(3 * P) + 1.211 * cosd(3 * P)
+    - 0.341 * sind(4 * P) - 0.19 * cosd(4 * P)
+    + 0.128 * sind(5 * P) - 0.034 * cosd(5 * P)
+    - 0.038 * sind(6 * P) + 0.031 * cosd(6 * P)
+    + 0.02 * sind(S - P) - 0.01 * cosd(S - P);
+
+  const latitude = -3.9082
+    - 5.453 * sind(P) - 14.975 * cosd(P)
+    + 3.527 * sind(2 * P) + 1.673 * cosd(2 * P)
+    - 1.051 * sind(3 * P) + 0.328 * cosd(3 * P)
+    + 0.179 * sind(4 * P) - 0.292 * cosd(4 * P)
+    + 0.019 * sind(5 * P) + 0.1 * cosd(5 * P)
+    - 0.031 * sind(6 * P) - 0.026 * cosd(6 * P)
+    + 0.011 * cosd(S - P);
+
+  const distance = 40.72
+    + 6.68 * sind(P) + 6.9 * cosd(P)
+    - 1.18 * sind(2 * P) - 0.03 * cosd(2 * P)
+    + 0.15 * sind(3 * P) - 0.14 * cosd(3 * P);
+
+  const precession = 3.82394e-5 * (d - 1.5);
+  return { longitude: normalizeDegrees(longitude + precession), latitude, distance };
+}
+
+function chironHeliocentric(d: number): EclipticCoordinates {
+  const jd = d + 2451543.5;
+  const M = (0.9856076686 / Math.pow(CHIRON_ELEMENTS.a, 1.5)) * (jd - CHIRON_PERIHELION_JD);
+  const position = orbitalPosition({ ...CHIRON_ELEMENTS, M });
+  const precession = 3.82394e-5 * (d - 1.5);
+  return { ...position, longitude: normalizeDegrees(position.longitude + precession) };
+}
+
+function toCartesian({ longitude, latitude, distance }: EclipticCoordinates): [number, number, number] {
+  return [
+    distance * cosd(latitude) * cosd(longitude),
+    distance * cosd(latitude) * sind(longitude),
+    distance * sind(latitude)
+  ];
+}
+
+// Mean lunar apogee: the perigee of the mean orbit turned through 180 degrees
+function meanLilithPosition(d: number): EclipticCoordinates {
+  const moon = ORBITAL_ELEMENTS.Moon(d);
+  return { longitude: normalizeDegrees(moon.N + moon.w + 180), latitude: 0, distance: 0 };
+}
+
+// Osculating lunar apogee: the far end of the Keplerian orbit fitted to the Moon's position and velocity
+function trueLilithPosition(d: number): EclipticCoordinates {
+  const step = 0.01;
+  const r = toCartesian(moonPosition(d));
+  const before = toCartesian(moonPosition(d - step));
+  const after = toCartesian(moonPosition(d + step));
+  const v = r.map((_, axis) => (after[axis] - before[axis]) / (2 * step));
+
+  const h = [r[1] * v[2] - r[2] * v[1], r[2] * v[0] - r[0] * v[2], r[0] * v[1] - r[1] * v[0]];
+  const vxh = [v[1] * h[2] - v[2] * h[1], v[2] * h[0] - v[0] * h[2], v[0] * h[1] - v[1] * h[0]];
+  const radius = Math.hypot(...r);
+
+  // The eccentricity vector points at perigee, so the apogee lies opposite it
+  const [ex, ey, ez] = vxh.map((component, axis) => -(component / EARTH_MOON_GM - r[axis] / radius));
+  return {
+    longitude: normalizeDegrees(atan2d(ey, ex)),
+    latitude: atan2d(ez, Math.hypot(ex, ey)),
+    distance: 0
+  };
+}
+
+function geocentricPosition(body: string, d: number): EclipticCoordinates {
+  if (body === 'Sun') return sunPosition(d);
+  if (body === 'Moon') return moonPosition(d);
+  if (body === 'North Node') {
+    return { longitude: normalizeDegrees(ORBITAL_ELEMENTS.Moon(d).N), latitude: 0, distance: 0 };
+  }
+  if (body === 'Mean Lilith') return meanLilithPosition(d);
+  if (body === 'True Lilith') return trueLilithPosition(d);
+
+  const sun = sunPosition(d);
+  const planet = body === 'Chiron' ? chironHeliocentric(d) : heliocentricPosition(body, d);
+
+  const xs = sun.distance * cosd(sun.longitude);
+  const ys = sun.distance * sind(sun.longitude);
+  const xh = planet.distance * cosd(planet.latitude) * cosd(planet.longitude);
+  const yh = planet.distance * cosd(planet.latitude) * sind(planet.longitude);
+  const zh = planet.distance * sind(planet.latitude);
+
+  const xg = xh + xs;
+  const yg = yh + ys;
+  return {
+    longitude: normalizeDegrees(atan2d(yg, xg)),
+    latitude: atan2d(zh, Math.sqrt(xg * xg + yg * yg)),
+    distance: Math.sqrt(xg * xg + yg * yg + zh * zh)
+  };
+}
+
+const EPHEMERIS_RANGE_MESSAGE = `Date outside supported ephemeris range: charts can be cast for ${MIN_SUPPORTED_YEAR} to ${MAX_SUPPORTED_YEAR}`;
+
+// A moment the ephemeris does not cover; the input is at fault rather than the calculation
+export class EphemerisRangeError extends Error {
+  constructor(message: string = EPHEMERIS_RANGE_MESSAGE) {
+    super(message);
+    this.name = 'EphemerisRangeError';
+  }
+}
+
+// The range runs from the first UT instant of the first supported year to the end of the last
+const MIN_SUPPORTED_JD = julianDay(`${MIN_SUPPORTED_YEAR}-01-01`, '00:00:00');
+const MAX_SUPPORTED_JD = julianDay(`${MAX_SUPPORTED_YEAR + 1}-01-01`, '00:00:00');
+
+function isSupportedJd(jd: number): boolean {
+  return jd >= MIN_SUPPORTED_JD && jd < MAX_SUPPORTED_JD;
+}
+
+function assertSupportedDate(jd: number) {
+  if (!isSupportedJd(jd)) {
+    throw new EphemerisRangeError();
+  }
+}
+
+// Reason a UT date and time cannot be charted, or null when the ephemeris covers it; a bare date is taken at noon
+export function validateEphemerisDate(date: string, time?: string): string | null {
+  let jd: number;
+  try {
+    jd = julianDay(date, time);
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid date or time';
+  }
+  return isSupportedJd(jd) ? null : EPHEMERIS_RANGE_MESSAGE;
+}
+
+export function calculateBodyPosition(body: string, jd: number): EphemerisPosition {
+  assertSupportedDate(jd);
+  const d = daysSinceEpoch(jd);
+  const position = geocentricPosition(body, d);
+
+  // Daily motion from a central difference over one day
+  const before = geocentricPosition(body, d - 0.5);
+  const after = geocentricPosition(body, d + 0.5);
+
+  return {
+    name: body,
+    longitude: position.longitude,
+    latitude: position.latitude,
+    declination: eclipticToDeclination(position.longitude, position.latitude, obliquityOfEcliptic(jd)),
+    distance: position.distance,
+    speed: angularDifference(before.longitude, after.longitude)
+  };
+}
+
+export function calculatePlanetPositions(jd: number): EphemerisPosition[] {
+  return EPHEMERIS_BODIES.map(body => calculateBodyPosition(body, jd));
+}
+
+// Greenwich mean sidereal time in degrees
+export function greenwichSiderealTime(jd: number): number {
+  const t = (jd - 2451545) / 36525;
+  return normalizeDegrees(
+    280.46061837 + 360.98564736629 * (jd - 2451545) + 0.000387933 * t * t - (t * t * t) / 38710000
+  );
+}
+
+// Right ascension of a point on the ecliptic
+export function eclipticToRightAscension(longitude: number, obliquity: number): number {
+  return normalizeDegrees(atan2d(sind(longitude) * cosd(obliquity), cosd(longitude)));
+}
+
+// Declination of a point given in ecliptic coordinates; points on the ecliptic take a latitude of zero
+export function eclipticToDeclination(longitude: number, latitude: number, obliquity: number): number {
+  return Math.asin(sind(latitude) * cosd(obliquity) + cosd(latitude) * sind(obliquity) * sind(longitude)) * RAD;
+}
+
+export function calculateAngles(jd: number, latitude: number, longitude: number): ChartAngles {
+  const obliquity = obliquityOfEcliptic(jd);
+  const ramc = normalizeDegrees(greenwichSiderealTime(jd) + longitude);
+  return anglesFromRamc(ramc, obliquity, latitude);
+}
+
+// Ascendant and Midheaven for a sidereal time (RAMC) at a latitude
+export function anglesFromRamc(ramc: number, obliquity: number, latitude: number): ChartAngles {
+  const midheaven = normalizeDegrees(atan2d(sind(ramc), cosd(ramc) * cosd(obliquity)));
+  const ascendant = normalizeDegrees(
+    atan2d(cosd(ramc), -(sind(obliquity) * Math.tan(latitude * DEG) + cosd(obliquity) * sind(ramc)))
+  );
+
+  return { ascendant, midheaven, ramc, obliquity };
+}
+
+// Full positions for a UT date/time and location, in the shape the chart route expects
+export function calculateChart(date: string, time: string, latitude: number, longitude: number): CalculationResult {
+  const jd = julianDay(date, time);
+  const planets = calculatePlanetPositions(jd);
+  const { ascendant, midheaven } = calculateAngles(jd, latitude, longitude);
+
+  return {
+    planets,
+    ascendant,
+    midheaven,
+    date,
+    time,
+    location: { latitude, longitude },
+    timezone: 'UTC'
+  };
+}
@@ -0,0 +1,11 @@
+import type { LifeEventType } from '@/types/astrology';
+
+// Kept apart from the rectification engine, which pulls in the ephemeris and time zone data, so the terminal can list
+// the event types too
+export const LIFE_EVENT_TYPES: LifeEventType[] = [
+  'marriage', 'divorce', 'relocation', 'career', 'loss', 'childbirth', 'accident', 'other'
+];
+
+export function isLifeEventType(value: unknown): value is LifeEventType {
+  return typeof value === 'string' && (LIFE_EVENT_TYPES as string[]).includes(value);
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { geocodeLocation, normalizePlaceName, searchGazetteer } from '@/lib/geocoding';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('normalizePlaceName', () => {
+  it('folds accents, case and punctuation but keeps commas', () => {
+    expect(normalizePlaceName('  São  Paulo, BR ')).toBe('sao paulo, br');
+    expect(normalizePlaceName('Zürich')).toBe('zurich');
+    expect(normalizePlaceName("St. John's")).toBe('st john s');
+  });
+});
+
+describe('searchGazetteer', () => {
+  it('puts the capital ahead of smaller places of the same name', async () => {
+    const [first] = await searchGazetteer('Paris');
+    expect(first).toMatchObject({ name: 'Paris', country: 'FR', label: 'Paris, France' });
+  });
+
+  it('ranks by the country or admin region named after a comma', async () => {
+    const [texas] = await searchGazetteer('Paris, TX');
+    expect(texas).toMatchObject({ country: 'US', adminCode: 'TX', label: 'Paris, TX, United States' });
+
+    const [ontario] = await searchGazetteer('London, Canada');
+    expect(ontario.country).toBe('CA');
+
+    const results = await searchGazetteer('Springfield, IL');
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.every(candidate => candidate.country === 'US' && candidate.adminCode === 'IL')).toBe(true);
+  });
+
+  it('reads a trailing word as a qualifier when the whole text matches no name', async () => {
+    const [first] = await searchGazetteer('paris france');
+    expect(first).toMatchObject({ name: 'Paris', country: 'FR' });
+    const [texas] = await searchGazetteer('paris us');
+    expect(texas.country).toBe('US');
+  });
+
+  it('offers several distinct candidates for an ambiguous name, exact names first', async () => {
+    const results = await searchGazetteer('springfield', 5);
+    expect(results).toHaveLength(5);
+    expect(new Set(results.map(candidate => candidate.id)).size).toBe(5);
+    expect(results.every(candidate => candidate.name === 'Springfield')).toBe(true);
+    // Illinois' capital edges out the slightly larger Springfield in Missouri
+    expect(results[0]).toMatchObject({ country: 'US', adminCode: 'IL' });
+    expect(results[1]).toMatchObject({ country: 'US', adminCode: 'MO' });
+  });
+
+  it('matches accented names from plain text and ignores too-short queries', async () => {
+    const [first] = await searchGazetteer('zurich');
+    expect(first).toMatchObject({ name: 'Zürich', country: 'CH' });
+    expect(await searchGazetteer('z')).toEqual([]);
+  });
+});
+
+describe('geocodeLocation', () => {
+  it('prefers the offline gazetteer', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const london = await geocodeLocation('London');
+    expect(london).toMatchObject({ country: 'GB' });
+    expect(london.latitude).toBeCloseTo(51.5, 0);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('falls back to Photon for places the gazetteer does not list', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      features: [{ geometry: { coordinates: [-3.2, 55.9] }, properties: { osm_id: 42, name: 'Tiny Hamlet', countrycode: 'GB', state: 'Scotland' } }]
+    }))));
+
+    expect(await geocodeLocation('Tiny Hamletxyz')).toMatchObject({
+      id: 'osm-42',
+      label: 'Tiny Hamlet, Scotland, United Kingdom',
+      latitude: 55.9,
+      longitude: -3.2
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import type { City } from 'all-the-cities';
+import type { GeocodeCandidate } from '@/types/astrology';
+
+// Offline gazetteer built from the GeoNames cities1000 dump (every place with 1000+ inhabitants),
+// with Photon as an online fallback for places too small to be listed.
+
+interface GazetteerEntry {
+  city: City;
+  key: string; // normalized name used for matching
+  countryName: string;
+  countryKey: string;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const MIN_QUERY_LENGTH = 2;
+
+let gazetteerPromise: Promise<GazetteerEntry[]> | null = null;
+
+const countryNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+function getCountryName(code: string): string {
+  try {
+    return countryNames.of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+export function normalizePlaceName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9,\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The dataset is several MB, so it is only decoded on the first lookup and kept in memory after that
+function loadGazetteer(): Promise<GazetteerEntry[]> {
+  if (!gazetteerPromise) {
+    gazetteerPromise = import('all-the-cities')
+      .then(module => module.default.map(city => {
+        const countryName = getCountryName(city.country);
+        return {
+          city,
+          key: normalizePlaceName(city.name),
+          countryName,
+          countryKey: normalizePlaceName(countryName)
+        };
+      }))
+      .catch(error => {
+        gazetteerPromise = null;
+        throw error;
+      });
+  }
+  return gazetteerPromise;
+}
+
+// US-style letter codes read well in a label; numeric GeoNames codes do not
+function displayAdminCode(adminCode: string): string | undefined {
+  return /^[A-Z]{2,3}$/.test(adminCode) ? adminCode : undefined;
+}
+
+function toCandidate(entry: GazetteerEntry): GeocodeCandidate {
+  const { city, countryName } = entry;
+  const admin = displayAdminCode(city.adminCode);
+  return {
+    id: city.cityId.toString(),
+    name: city.name,
+    label: [city.name, admin, countryName].filter(Boolean).join(', '),
+    country: city.country,
+    countryName,
+    adminCode: city.adminCode || undefined,
+    population: city.population,
+    latitude: city.loc.coordinates[1],
+    longitude: city.loc.coordinates[0]
+  };
+}
+
+function matchesQualifier(entry: GazetteerEntry, qualifier: string): boolean {
+  const { city, countryKey } = entry;
+  return qualifier === city.country.toLowerCase() ||
+    qualifier === city.adminCode.toLowerCase() ||
+    (qualifier.length >= 3 && countryKey.startsWith(qualifier));
+}
+
+function scoreEntry(entry: GazetteerEntry, name: string, qualifiers: string[]): number | null {
+  let score: number;
+  if (entry.key === name) {
+    score = 3;
+  } else if (entry.key.startsWith(name)) {
+    score = 1;
+  } else {
+    return null;
+  }
+
+  // Every qualifier ("TX", "France", "US"...) must match the country or admin region
+  for (const qualifier of qualifiers) {
+    if (!matchesQualifier(entry, qualifier)) return null;
+    score += 4;
+  }
+
+  score += Math.log10(entry.city.population + 1);
+  if (entry.city.featureCode === 'PPLC') score += 1;
+  else if (entry.city.featureCode === 'PPLA') score += 0.5;
+  return score;
+}
+
+function rankEntries(entries: GazetteerEntry[], name: string, qualifiers: string[]) {
+  const ranked: Array<{ entry: GazetteerEntry; score: number }> = [];
+  for (const entry of entries) {
+    const score = scoreEntry(entry, name, qualifiers);
+    if (score !== null) ranked.push({ entry, score });
+  }
+  return ranked.sort((a, b) => b.score - a.score);
+}
+
+// Ranked candidates for free text such as "springfield", "Paris, TX" or "paris france"
+export async function searchGazetteer(query: string, limit: number = DEFAULT_LIMIT): Promise<GeocodeCandidate[]> {
+  const normalized = normalizePlaceName(query);
+  if (normalized.replace(/,/g, '').trim().length < MIN_QUERY_LENGTH) return [];
+
+  const entries = await loadGazetteer();
+  const [name, ...rest] = normalized.split(',').map(part => part.trim());
+  const qualifiers = rest.filter(Boolean);
+  const cappedLimit = Math.min(Math.max(limit, 1), MAX_LIMIT);
+
+  let ranked = rankEntries(entries, name, qualifiers);
+
+  // Without a comma, "paris france" may still be a name followed by a qualifier
+  if (ranked.length === 0 && qualifiers.length === 0 && name.includes(' ')) {
+    const words = name.split(' ');
+    ranked = rankEntries(entries, words.slice(0, -1).join(' '), [words[words.length - 1]]);
+  }
+
+  return ranked.slice(0, cappedLimit).map(({ entry }) => toCandidate(entry));
+}
+
+// Online lookup via Photon, used when the offline gazetteer has no match
+export async function searchPhoton(query: string, limit: number = DEFAULT_LIMIT): Promise<GeocodeCandidate[]> {
+  try {
+    const params = new URLSearchParams();
+    params.append("layer", "city");
+    params.append("layer", "district");
+    params.append("q", query);
+    params.append("limit", limit.toString());
+
+    const response = await fetch(`https://photon.komoot.io/api?${params.toString()}`);
+    const data = await response.json();
+
+    return (data?.features || []).map((feature: {
+      geometry: { coordinates: [number, number] };
+      properties: { osm_id?: number; name?: string; countrycode?: string; state?: string };
+    }) => {
+      const { properties } = feature;
+      const country = properties.countrycode || '';
+      const countryName = country ? getCountryName(country) : '';
+      const name = properties.name || query;
+      return {
+        id: `osm-${properties.osm_id ?? name}`,
+        name,
+        label: [name, properties.state, countryName].filter(Boolean).join(', '),
+        country,
+        countryName,
+        adminCode: properties.state,
+        population: 0,
+        latitude: feature.geometry.coordinates[1], // GeoJSON format returns [longitude, latitude]
+        longitude: feature.geometry.coordinates[0]
+      };
+    });
+  } catch (error) {
+    console.error("Geocoding error:", error);
+    throw new Error("Failed to geocode location");
+  }
+}
+
+// Best single match for a location string, preferring the offline gazetteer
+export async function geocodeLocation(locationString: string): Promise<GeocodeCandidate> {
+  const [best] = await searchGazetteer(locationString, 1);
+  if (best) return best;
+
+  const [online] = await searchPhoton(locationString, 1);
+  if (online) return online;
+
+  throw new Error(`Failed to geocode location: ${locationString}`);
+}
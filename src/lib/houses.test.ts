@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { anglesFromRamc, angularDifference, eclipticToDeclination, eclipticToRightAscension } from '@/lib/ephemeris';
+import { calculateHouseCusps, calculateHousePosition, equalCusps, HOUSE_SYSTEMS, wholeSignCusps } from '@/lib/houses';
+
+const OBLIQUITY = 23.4393;
+const DEG = Math.PI / 180;
+
+// London at a sidereal time that puts late Virgo on the Ascendant
+const LONDON = 51.5074;
+const ANGLES = anglesFromRamc(139.5, OBLIQUITY, LONDON);
+
+function arc(from: number, to: number): number {
+  return (angularDifference(from, to) + 360) % 360;
+}
+
+describe('calculateHouseCusps', () => {
+  it.each(HOUSE_SYSTEMS)('%s gives twelve cusps in zodiac order with opposite houses facing each other', system => {
+    const { cusps } = calculateHouseCusps(system, ANGLES, LONDON);
+    expect(cusps).toHaveLength(12);
+
+    const total = cusps.reduce((sum, cusp, index) => sum + arc(cusp, cusps[(index + 1) % 12]), 0);
+    expect(total).toBeCloseTo(360, 6);
+    for (let i = 0; i < 6; i++) {
+      expect(Math.abs(angularDifference(cusps[i] + 180, cusps[i + 6]))).toBeLessThan(1e-6);
+    }
+  });
+
+  it.each(['placidus', 'koch', 'porphyry', 'regiomontanus', 'campanus'] as const)('%s puts the angles on cusps 1 and 10', system => {
+    const { cusps } = calculateHouseCusps(system, ANGLES, LONDON);
+    expect(Math.abs(angularDifference(cusps[0], ANGLES.ascendant))).toBeLessThan(1e-6);
+    expect(Math.abs(angularDifference(cusps[9], ANGLES.midheaven))).toBeLessThan(1e-6);
+  });
+
+  it('trisects the semi-diurnal arc for the Placidus 11th and 12th cusps', () => {
+    const { cusps } = calculateHouseCusps('placidus', ANGLES, LONDON);
+    const tan = (x: number) => Math.tan(x * DEG);
+
+    // A Placidus cusp sits a third (11th) or two thirds (12th) of its own semi-diurnal arc east of the meridian
+    [[cusps[10], 1 / 3], [cusps[11], 2 / 3]].forEach(([cusp, fraction]) => {
+      const declination = eclipticToDeclination(cusp, 0, OBLIQUITY);
+      const semiArc = Math.acos(-tan(LONDON) * tan(declination)) / DEG;
+      const meridianDistance = arc(ANGLES.ramc, eclipticToRightAscension(cusp, OBLIQUITY));
+      expect(meridianDistance).toBeCloseTo(semiArc * fraction, 3);
+    });
+  });
+
+  it('trisects the quadrants for Porphyry', () => {
+    const { cusps } = calculateHouseCusps('porphyry', ANGLES, LONDON);
+    const quadrant = arc(ANGLES.midheaven, ANGLES.ascendant);
+    expect(arc(cusps[9], cusps[10])).toBeCloseTo(quadrant / 3, 6);
+    expect(arc(cusps[10], cusps[11])).toBeCloseTo(quadrant / 3, 6);
+  });
+
+  it('lays out equal and whole sign houses from the Ascendant', () => {
+    expect(equalCusps(100)).toEqual([100, 130, 160, 190, 220, 250, 280, 310, 340, 10, 40, 70]);
+    expect(wholeSignCusps(100)[0]).toBe(90);
+    expect(wholeSignCusps(359.9)).toEqual([330, 0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300]);
+  });
+
+  it('falls back to Porphyry for Placidus and Koch above the polar circle', () => {
+    const polar = anglesFromRamc(139.5, OBLIQUITY, 70);
+    expect(calculateHouseCusps('placidus', polar, 70)).toMatchObject({ system: 'porphyry', requestedSystem: 'placidus' });
+    expect(calculateHouseCusps('koch', polar, 70)).toMatchObject({ system: 'porphyry', requestedSystem: 'koch' });
+    expect(calculateHouseCusps('regiomontanus', polar, 70).system).toBe('regiomontanus');
+    expect(calculateHouseCusps('placidus', ANGLES, LONDON).system).toBe('placidus');
+  });
+});
+
+describe('calculateHousePosition', () => {
+  const cusps = equalCusps(100);
+
+  it('finds the house, cusps included in the house they open', () => {
+    expect(calculateHousePosition(100, cusps)).toBe(1);
+    expect(calculateHousePosition(129.99, cusps)).toBe(1);
+    expect(calculateHousePosition(130, cusps)).toBe(2);
+  });
+
+  it('handles the house that spans 0° Aries', () => {
+    expect(calculateHousePosition(355, cusps)).toBe(9);
+    expect(calculateHousePosition(5, cusps)).toBe(9);
+    expect(calculateHousePosition(15, cusps)).toBe(10);
+  });
+});
@@ -0,0 +1,256 @@
+import type { HouseSystem } from '@/types/astrology';
+import { normalizeDegrees, type ChartAngles } from '@/lib/ephemeris';
+
+export const HOUSE_SYSTEMS: HouseSystem[] = [
+  'placidus', 'koch', 'whole-sign', 'equal', 'porphyry', 'regiomontanus', 'campanus'
+];
+
+export const DEFAULT_HOUSE_SYSTEM: HouseSystem = 'placidus';
+
+export const HOUSE_SYSTEM_NAMES: Record<HouseSystem, string> = {
+  'placidus': 'Placidus',
+  'koch': 'Koch',
+  'whole-sign': 'Whole Sign',
+  'equal': 'Equal',
+  'porphyry': 'Porphyry',
+  'regiomontanus': 'Regiomontanus',
+  'campanus': 'Campanus'
+};
+
+// Quadrant system used when Placidus or Koch are undefined above the polar circles
+const POLAR_FALLBACK_SYSTEM: HouseSystem = 'porphyry';
+
+export interface HouseCalculation {
+  system: HouseSystem; // the system the cusps were actually computed with
+  requestedSystem: HouseSystem;
+  cusps: number[]; // 12 cusp longitudes, index 0 = 1st house
+}
+
+const DEG = Math.PI / 180;
+const RAD = 180 / Math.PI;
+
+const sind = (x: number) => Math.sin(x * DEG);
+const cosd = (x: number) => Math.cos(x * DEG);
+const tand = (x: number) => Math.tan(x * DEG);
+const atan2d = (y: number, x: number) => Math.atan2(y, x) * RAD;
+
+type Vector = [number, number, number];
+
+const cross = (a: Vector, b: Vector): Vector => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0]
+];
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+export function isHouseSystem(value: unknown): value is HouseSystem {
+  return typeof value === 'string' && (HOUSE_SYSTEMS as string[]).includes(value);
+}
+
+// Placidus and Koch divide semi-arcs that stop existing once the ecliptic can become circumpolar
+function quadrantSemiArcsDefined(latitude: number, obliquity: number): boolean {
+  return Math.abs(latitude) < 90 - obliquity;
+}
+
+// Ecliptic longitude of the point on the ecliptic with the given right ascension
+function longitudeFromRightAscension(ra: number, obliquity: number): number {
+  return normalizeDegrees(atan2d(sind(ra), cosd(ra) * cosd(obliquity)));
+}
+
+// Ecliptic degree rising on the eastern horizon when the local sidereal time is `ramc`
+function risingDegree(ramc: number, latitude: number, obliquity: number): number {
+  return normalizeDegrees(
+    atan2d(cosd(ramc), -(sind(obliquity) * tand(latitude) + cosd(obliquity) * sind(ramc)))
+  );
+}
+
+function declinationOf(longitude: number, obliquity: number): number {
+  return Math.asin(sind(obliquity) * sind(longitude)) * RAD;
+}
+
+// Fill in the western cusps (4-9) from their eastern opposites
+function withOppositeCusps(eastern: Record<number, number>): number[] {
+  const cusps: number[] = [];
+  for (let house = 1; house <= 12; house++) {
+    const source = [1, 2, 3, 10, 11, 12].includes(house) ? house : ((house + 5) % 12) + 1;
+    const longitude = eastern[source];
+    cusps.push(normalizeDegrees(source === house ? longitude : longitude + 180));
+  }
+  return cusps;
+}
+
+export function equalCusps(start: number): number[] {
+  return Array.from({ length: 12 }, (_, index) => normalizeDegrees(start + index * 30));
+}
+
+// Each house is the whole sign the ascendant's sign starts, so this depends on the zodiac the ascendant is in
+export function wholeSignCusps(ascendant: number): number[] {
+  return equalCusps(Math.floor(ascendant / 30) * 30);
+}
+
+function porphyryCusps(angles: ChartAngles): number[] {
+  const { ascendant, midheaven } = angles;
+  const upperArc = normalizeDegrees(ascendant - midheaven);
+  const lowerArc = normalizeDegrees(midheaven + 180 - ascendant);
+
+  return withOppositeCusps({
+    10: midheaven,
+    11: midheaven + upperArc / 3,
+    12: midheaven + (2 * upperArc) / 3,
+    1: ascendant,
+    2: ascendant + lowerArc / 3,
+    3: ascendant + (2 * lowerArc) / 3
+  });
+}
+
+// Placidus trisects each point's own diurnal/nocturnal semi-arc, which needs an iterative solve
+function placidusCusps(angles: ChartAngles, latitude: number): number[] {
+  const { ramc, obliquity, ascendant, midheaven } = angles;
+  const porphyry = porphyryCusps(angles);
+
+  const solveCusp = (house: number, fraction: number, nocturnal: boolean) => {
+    let longitude = porphyry[house - 1];
+    for (let iteration = 0; iteration < 50; iteration++) {
+      const declination = declinationOf(longitude, obliquity);
+      const x = Math.max(-1, Math.min(1, -tand(latitude) * tand(declination)));
+      const diurnalArc = Math.acos(x) * RAD;
+      const ra = nocturnal
+        ? ramc + diurnalArc + fraction * (180 - diurnalArc)
+        : ramc + fraction * diurnalArc;
+      const next = longitudeFromRightAscension(ra, obliquity);
+      const change = Math.abs(normalizeDegrees(next - longitude + 180) - 180);
+      longitude = next;
+      if (change < 1e-7) break;
+    }
+    return longitude;
+  };
+
+  return withOppositeCusps({
+    10: midheaven,
+    11: solveCusp(11, 1 / 3, false),
+    12: solveCusp(12, 2 / 3, false),
+    1: ascendant,
+    2: solveCusp(2, 1 / 3, true),
+    3: solveCusp(3, 2 / 3, true)
+  });
+}
+
+// Koch trisects the MC degree's diurnal semi-arc and takes the degree rising at each step
+function kochCusps(angles: ChartAngles, latitude: number): number[] {
+  const { ramc, obliquity, ascendant, midheaven } = angles;
+  const mcDeclination = declinationOf(midheaven, obliquity);
+  const ascensionalDifference = Math.asin(tand(latitude) * tand(mcDeclination)) * RAD;
+  const step = (90 + ascensionalDifference) / 3;
+
+  return withOppositeCusps({
+    10: midheaven,
+    11: risingDegree(ramc - 2 * step, latitude, obliquity),
+    12: risingDegree(ramc - step, latitude, obliquity),
+    1: ascendant,
+    2: risingDegree(ramc + step, latitude, obliquity),
+    3: risingDegree(ramc + 2 * step, latitude, obliquity)
+  });
+}
+
+// Regiomontanus and Campanus both bound houses with great circles through the north and south
+// points of the horizon; they differ only in which circle (equator or prime vertical) is divided
+function horizonCircleCusps(angles: ChartAngles, latitude: number, divisionPoint: (offset: number) => Vector): number[] {
+  const { ramc, obliquity, ascendant, midheaven } = angles;
+  const northPoint: Vector = [-sind(latitude) * cosd(ramc), -sind(latitude) * sind(ramc), cosd(latitude)];
+  const eastPoint: Vector = [-sind(ramc), cosd(ramc), 0];
+  const eclipticPole: Vector = [0, -sind(obliquity), cosd(obliquity)];
+
+  const cuspAt = (offset: number) => {
+    const houseCircleNormal = cross(northPoint, divisionPoint(offset));
+    let intersection = cross(houseCircleNormal, eclipticPole);
+    // The circle meets the ecliptic twice; cusps 11-3 are the eastern intersection
+    if (dot(intersection, eastPoint) < 0) {
+      intersection = [-intersection[0], -intersection[1], -intersection[2]];
+    }
+    const [x, y, z] = intersection;
+    // Rotate from equatorial to ecliptic coordinates before taking the longitude
+    return normalizeDegrees(atan2d(y * cosd(obliquity) + z * sind(obliquity), x));
+  };
+
+  return withOppositeCusps({
+    10: midheaven,
+    11: cuspAt(30),
+    12: cuspAt(60),
+    1: ascendant,
+    2: cuspAt(120),
+    3: cuspAt(150)
+  });
+}
+
+function regiomontanusCusps(angles: ChartAngles, latitude: number): number[] {
+  // Equal 30° divisions of the celestial equator, measured from the meridian
+  return horizonCircleCusps(angles, latitude, offset => [
+    cosd(angles.ramc + offset), sind(angles.ramc + offset), 0
+  ]);
+}
+
+function campanusCusps(angles: ChartAngles, latitude: number): number[] {
+  // Equal 30° divisions of the prime vertical, measured from the zenith
+  const { ramc } = angles;
+  const zenith: Vector = [cosd(latitude) * cosd(ramc), cosd(latitude) * sind(ramc), sind(latitude)];
+  const eastPoint: Vector = [-sind(ramc), cosd(ramc), 0];
+  return horizonCircleCusps(angles, latitude, offset => [
+    cosd(offset) * zenith[0] + sind(offset) * eastPoint[0],
+    cosd(offset) * zenith[1] + sind(offset) * eastPoint[1],
+    cosd(offset) * zenith[2] + sind(offset) * eastPoint[2]
+  ]);
+}
+
+export function calculateHouseCusps(requestedSystem: HouseSystem, angles: ChartAngles, latitude: number): HouseCalculation {
+  let system = requestedSystem;
+  if ((system === 'placidus' || system === 'koch') && !quadrantSemiArcsDefined(latitude, angles.obliquity)) {
+    system = POLAR_FALLBACK_SYSTEM;
+  }
+
+  let cusps: number[];
+  switch (system) {
+    case 'placidus':
+      cusps = placidusCusps(angles, latitude);
+      break;
+    case 'koch':
+      cusps = kochCusps(angles, latitude);
+      break;
+    case 'whole-sign':
+      cusps = wholeSignCusps(angles.ascendant);
+      break;
+    case 'equal':
+      cusps = equalCusps(angles.ascendant);
+      break;
+    case 'regiomontanus':
+      cusps = regiomontanusCusps(angles, latitude);
+      break;
+    case 'campanus':
+      cusps = campanusCusps(angles, latitude);
+      break;
+    case 'porphyry':
+    default:
+      cusps = porphyryCusps(angles);
+  }
+
+  return { system, requestedSystem, cusps };
+}
+
+// House (1-12) containing a longitude, given cusps in house order
+export function calculateHousePosition(longitude: number, houseCusps: number[]): number {
+  for (let i = 0; i < houseCusps.length; i++) {
+    const currentCusp = houseCusps[i];
+    const nextCusp = houseCusps[(i + 1) % houseCusps.length];
+
+    if (nextCusp > currentCusp) {
+      if (longitude >= currentCusp && longitude < nextCusp) {
+        return i + 1;
+      }
+    } else {
+      // Handle wrap-around case (e.g., 11th to 12th house)
+      if (longitude >= currentCusp || longitude < nextCusp) {
+        return i + 1;
+      }
+    }
+  }
+  return 1; // Default to 1st house
+}
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLlmProvider, LlmRequestError, mockResponse, resolveLlmSettings, validateLlmConfig } from '@/lib/llm';
+import type { LlmMessage } from '@/lib/llm';
+import { formatServerSentEvent } from '@/lib/sse';
+
+const MESSAGES: LlmMessage[] = [
+  { role: 'system', content: 'You are Ares, the warrior planet.\nYOUR POSITION: Act now' },
+  { role: 'user', content: 'Should I take the job?' },
+  { role: 'assistant', content: 'Yes.', name: 'Zeus' },
+  { role: 'user', content: ' And the move abroad? ' }
+];
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+  const parts: string[] = [];
+  for await (const part of stream) parts.push(part);
+  return parts;
+}
+
+describe('validateLlmConfig', () => {
+  it('asks for the key OpenRouter needs, which is the default provider', () => {
+    expect(validateLlmConfig({})).toMatch(/^OpenRouter API key not configured/);
+    expect(validateLlmConfig({ OPENROUTER_API_KEY: 'key' })).toBeNull();
+  });
+
+  it('needs a base URL and model for an OpenAI-compatible server', () => {
+    const env = { LLM_PROVIDER: 'openai-compatible', OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1' };
+    expect(validateLlmConfig(env)).toMatch(/OPENAI_COMPATIBLE_MODEL/);
+    expect(validateLlmConfig({ ...env, OPENAI_COMPATIBLE_MODEL: 'llama3' })).toBeNull();
+  });
+
+  it('checks the provider name and the numeric settings', () => {
+    expect(validateLlmConfig({ LLM_PROVIDER: 'anthropic' })).toMatch(/^Unsupported LLM_PROVIDER: anthropic/);
+    expect(validateLlmConfig({ LLM_PROVIDER: 'mock' })).toBeNull();
+    expect(validateLlmConfig({ LLM_PROVIDER: 'mock', MOCK_TEMPERATURE: '3' })).toBe('MOCK_TEMPERATURE must be a number from 0 to 2');
+    expect(validateLlmConfig({ LLM_PROVIDER: 'mock', MOCK_MAX_TOKENS: '1.5' })).toBe('MOCK_MAX_TOKENS must be a whole number above 0');
+    expect(validateLlmConfig({ LLM_PROVIDER: 'mock', MOCK_STREAM_DELAY_MS: 'soon' })).toMatch(/^MOCK_STREAM_DELAY_MS/);
+  });
+});
+
+describe('resolveLlmSettings', () => {
+  it('fills in the provider defaults', () => {
+    expect(resolveLlmSettings({ OPENROUTER_API_KEY: 'key' })).toEqual({
+      provider: 'openrouter',
+      model: 'anthropic/claude-3-haiku',
+      temperature: 0.7,
+      maxTokens: 200,
+      baseUrl: 'https://openrouter.ai/api/v1',
+      apiKey: 'key'
+    });
+  });
+
+  it('reads the settings under the provider\'s prefix', () => {
+    expect(resolveLlmSettings({
+      LLM_PROVIDER: 'openai-compatible',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:8080/v1/',
+      OPENAI_COMPATIBLE_MODEL: 'llama3',
+      OPENAI_COMPATIBLE_TEMPERATURE: '0',
+      OPENAI_COMPATIBLE_MAX_TOKENS: '500',
+      OPENROUTER_MAX_TOKENS: '50'
+    })).toEqual({ provider: 'openai-compatible', model: 'llama3', temperature: 0, maxTokens: 500, baseUrl: 'http://localhost:8080/v1' });
+  });
+});
+
+describe('mockResponse', () => {
+  it('echoes the speaker, question, position and history', () => {
+    const text = mockResponse(MESSAGES, { maxTokens: 200 });
+    expect(text).toMatch(/^\[MOCK ARES\] Asked: "And the move abroad\?"\. Position: Act now\. Context: 2 earlier messages\. /);
+    expect(mockResponse(MESSAGES, { maxTokens: 200 })).toBe(text);
+  });
+
+  it('caps the answer at the token limit, counting words', () => {
+    expect(mockResponse(MESSAGES, { maxTokens: 3 })).toBe('[MOCK ARES] Asked:');
+  });
+});
+
+describe('createLlmProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('streams the mock answer word by word', async () => {
+    const provider = createLlmProvider({ LLM_PROVIDER: 'mock', MOCK_STREAM_DELAY_MS: '0' });
+    const parts = await collect(await provider.stream(MESSAGES));
+    expect(parts.length).toBeGreaterThan(5);
+    expect(parts.join('')).toBe(await provider.complete(MESSAGES));
+  });
+
+  it('posts OpenAI-style requests and relays the streamed deltas', async () => {
+    const events = [{ choices: [{ delta: { content: 'Hello' } }] }, { choices: [{ delta: {} }] }, { choices: [{ delta: { content: ' there' } }] }];
+    const fetchMock = vi.fn(async () => new Response([...events.map(formatServerSentEvent), 'data: [DONE]\n\n'].join('')));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createLlmProvider({ LLM_PROVIDER: 'openai-compatible', OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1', OPENAI_COMPATIBLE_MODEL: 'llama3' });
+    expect(await collect(await provider.stream(MESSAGES))).toEqual(['Hello', ' there']);
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body as string)).toMatchObject({ model: 'llama3', max_tokens: 200, stream: true, messages: MESSAGES });
+  });
+
+  it('fails with the provider\'s status before streaming anything', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('rate limited', { status: 429 })));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const provider = createLlmProvider({ OPENROUTER_API_KEY: 'key' });
+    const failure = provider.stream(MESSAGES);
+    await expect(failure).rejects.toBeInstanceOf(LlmRequestError);
+    await expect(failure).rejects.toMatchObject({ message: 'Failed to generate AI response', status: 429 });
+  });
+});
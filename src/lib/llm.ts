@@ -0,0 +1,252 @@
+import { readServerSentEvents } from '@/lib/sse';
+
+// Chat model behind the planets, chosen by environment:
+//   LLM_PROVIDER             openrouter (default), openai-compatible or mock
+//   <PREFIX>_MODEL           model name; required for openai-compatible
+//   <PREFIX>_TEMPERATURE     0 to 2
+//   <PREFIX>_MAX_TOKENS      length cap of each answer
+//   <PREFIX>_BASE_URL        OpenAI-style API root, e.g. http://localhost:11434/v1 for Ollama; required for openai-compatible
+//   <PREFIX>_API_KEY         required for openrouter, optional for openai-compatible
+//   MOCK_STREAM_DELAY_MS     pause between streamed words of the mock
+// where PREFIX is OPENROUTER, OPENAI_COMPATIBLE or MOCK.
+
+export type LlmProviderName = 'openrouter' | 'openai-compatible' | 'mock';
+
+export const LLM_PROVIDERS: LlmProviderName[] = ['openrouter', 'openai-compatible', 'mock'];
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  name?: string; // Who said it, when several characters share the user side of the thread
+}
+
+export interface LlmSettings {
+  provider: LlmProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  baseUrl?: string;
+  apiKey?: string;
+  streamDelayMs?: number; // Mock only
+}
+
+export interface LlmProvider {
+  settings: LlmSettings;
+  complete(messages: LlmMessage[], signal?: AbortSignal): Promise<string>;
+  // Resolves once the provider has accepted the request, so failures surface before any text is relayed
+  stream(messages: LlmMessage[], signal?: AbortSignal): Promise<AsyncGenerator<string>>;
+}
+
+// A failed call to the provider, with the HTTP status to answer the client with
+export class LlmRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'LlmRequestError';
+  }
+}
+
+type Environment = Record<string, string | undefined>;
+
+const PROVIDER_DEFAULTS: Record<LlmProviderName, { prefix: string; model?: string; baseUrl?: string; temperature: number; maxTokens: number }> = {
+  'openrouter': { prefix: 'OPENROUTER', model: 'anthropic/claude-3-haiku', baseUrl: 'https://openrouter.ai/api/v1', temperature: 0.7, maxTokens: 200 },
+  'openai-compatible': { prefix: 'OPENAI_COMPATIBLE', temperature: 0.7, maxTokens: 200 },
+  'mock': { prefix: 'MOCK', model: 'mock', temperature: 0, maxTokens: 200 }
+};
+
+const MAX_TEMPERATURE = 2;
+const TOP_P = 0.9;
+const DEFAULT_MOCK_STREAM_DELAY_MS = 20;
+
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value);
+}
+
+function providerName(env: Environment): string {
+  return env.LLM_PROVIDER || 'openrouter';
+}
+
+// Reason the environment cannot configure a provider, or null when it is fine
+export function validateLlmConfig(env: Environment = process.env): string | null {
+  const name = providerName(env);
+  if (!isLlmProviderName(name)) {
+    return `Unsupported LLM_PROVIDER: ${name}. Use one of: ${LLM_PROVIDERS.join(', ')}`;
+  }
+
+  const { prefix } = PROVIDER_DEFAULTS[name];
+  const temperature = env[`${prefix}_TEMPERATURE`];
+  if (temperature !== undefined && !(Number(temperature) >= 0 && Number(temperature) <= MAX_TEMPERATURE)) {
+    return `${prefix}_TEMPERATURE must be a number from 0 to ${MAX_TEMPERATURE}`;
+  }
+  const maxTokens = env[`${prefix}_MAX_TOKENS`];
+  if (maxTokens !== undefined && !(Number.isInteger(Number(maxTokens)) && Number(maxTokens) > 0)) {
+    return `${prefix}_MAX_TOKENS must be a whole number above 0`;
+  }
+
+  if (name === 'openrouter' && !env.OPENROUTER_API_KEY) {
+    return 'OpenRouter API key not configured. Set OPENROUTER_API_KEY, or LLM_PROVIDER=mock to develop without one';
+  }
+  if (name === 'openai-compatible' && (!env.OPENAI_COMPATIBLE_BASE_URL || !env.OPENAI_COMPATIBLE_MODEL)) {
+    return 'An OpenAI-compatible provider needs OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL';
+  }
+  const delay = env.MOCK_STREAM_DELAY_MS;
+  if (name === 'mock' && delay !== undefined && !(Number(delay) >= 0)) {
+    return 'MOCK_STREAM_DELAY_MS must be a number of milliseconds';
+  }
+  return null;
+}
+
+export function resolveLlmSettings(env: Environment = process.env): LlmSettings {
+  const provider = providerName(env) as LlmProviderName;
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const value = (key: string) => env[`${defaults.prefix}_${key}`];
+
+  return {
+    provider,
+    model: value('MODEL') || defaults.model || '',
+    temperature: value('TEMPERATURE') !== undefined ? Number(value('TEMPERATURE')) : defaults.temperature,
+    maxTokens: value('MAX_TOKENS') !== undefined ? Number(value('MAX_TOKENS')) : defaults.maxTokens,
+    ...((value('BASE_URL') || defaults.baseUrl) && { baseUrl: (value('BASE_URL') || defaults.baseUrl)!.replace(/\/+$/, '') }),
+    ...(value('API_KEY') && { apiKey: value('API_KEY') }),
+    ...(provider === 'mock' && {
+      streamDelayMs: env.MOCK_STREAM_DELAY_MS !== undefined ? Number(env.MOCK_STREAM_DELAY_MS) : DEFAULT_MOCK_STREAM_DELAY_MS
+    })
+  };
+}
+
+// Chat completions over the OpenAI wire format, which OpenRouter, llama.cpp and Ollama all speak
+function createOpenAiCompatibleProvider(settings: LlmSettings, headers: Record<string, string> = {}): LlmProvider {
+  const post = async (messages: LlmMessage[], stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch(`${settings.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey && { 'Authorization': `Bearer ${settings.apiKey}` }),
+        ...headers
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        messages,
+        temperature: settings.temperature,
+        max_tokens: settings.maxTokens,
+        top_p: TOP_P,
+        ...(stream && { stream: true })
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      console.error(`${settings.provider} API error:`, await response.text());
+      throw new LlmRequestError('Failed to generate AI response', response.status);
+    }
+    return response;
+  };
+
+  return {
+    settings,
+
+    async complete(messages, signal) {
+      const data = await (await post(messages, false, signal)).json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new LlmRequestError('Invalid response from AI service', 500);
+      }
+      return content;
+    },
+
+    async stream(messages, signal) {
+      const response = await post(messages, true, signal);
+      if (!response.body) {
+        throw new LlmRequestError('Invalid response from AI service', 500);
+      }
+      const body = response.body;
+
+      return (async function* () {
+        for await (const data of readServerSentEvents(body)) {
+          if (data === '[DONE]') return;
+          const chunk = JSON.parse(data);
+          if (chunk.error) {
+            throw new Error(chunk.error.message || 'AI service error');
+          }
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      })();
+    }
+  };
+}
+
+const MOCK_REMARKS = [
+  'The pattern is already in motion; watch where it repeats.',
+  'Patience here is not passivity, it is timing.',
+  'What you call a problem is a placement asking to be used.',
+  'Look at who benefits when you hold back.',
+  'The answer changes once you stop asking for permission.'
+];
+
+// Same text in, same remark out
+function pickRemark(text: string): string {
+  let hash = 0;
+  for (const character of text) {
+    hash = (hash * 31 + character.charCodeAt(0)) >>> 0;
+  }
+  return MOCK_REMARKS[hash % MOCK_REMARKS.length];
+}
+
+// A canned answer built from what was asked, so the chat can be exercised offline with predictable output
+export function mockResponse(messages: LlmMessage[], settings: Pick<LlmSettings, 'maxTokens'>): string {
+  const system = messages.find(message => message.role === 'system')?.content || '';
+  const question = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+  const speaker = system.match(/^You are ([^,.\n]+)/)?.[1] || 'the assistant';
+  const position = system.match(/^YOUR POSITION: (.+)$/m)?.[1];
+  const history = messages.filter(message => message.role !== 'system').length - 1;
+
+  const text = [
+    `[MOCK ${speaker.toUpperCase()}]`,
+    `Asked: "${question.trim()}".`,
+    position && `Position: ${position}.`,
+    `Context: ${history} earlier message${history === 1 ? '' : 's'}.`,
+    pickRemark(`${speaker}|${question}`)
+  ].filter(Boolean).join(' ');
+
+  // Words stand in for tokens
+  return text.split(' ').slice(0, settings.maxTokens).join(' ');
+}
+
+function createMockProvider(settings: LlmSettings): LlmProvider {
+  return {
+    settings,
+
+    async complete(messages) {
+      return mockResponse(messages, settings);
+    },
+
+    async stream(messages, signal) {
+      const words = mockResponse(messages, settings).split(/(?<= )/);
+      const delay = settings.streamDelayMs ?? 0;
+
+      return (async function* () {
+        for (const word of words) {
+          if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+          if (signal?.aborted) return;
+          yield word;
+        }
+      })();
+    }
+  };
+}
+
+// Provider for the environment; check it with validateLlmConfig first
+export function createLlmProvider(env: Environment = process.env): LlmProvider {
+  const settings = resolveLlmSettings(env);
+  switch (settings.provider) {
+    case 'openrouter':
+      return createOpenAiCompatibleProvider(settings, {
+        'HTTP-Referer': env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
+        'X-Title': 'Astro Critics - Astrology Chat'
+      });
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(settings);
+    case 'mock':
+      return createMockProvider(settings);
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { calculateNatalChart } from '@/lib/chart';
+import { normalizeDegrees } from '@/lib/ephemeris';
+import { calculateHarmonicChart, calculateMidpoints, calculateMidpointTrees, validateHarmonic, validateMidpointOptions } from '@/lib/midpoints';
+import { toPlanetPosition } from '@/lib/zodiac';
+import type { AstrologyReading } from '@/types/astrology';
+
+// Just the factors the midpoint trees read
+function readingOf(longitudes: Record<string, number>, ascendant: number, midheaven: number): AstrologyReading {
+  const planets = Object.entries(longitudes).map(([name, longitude]) => toPlanetPosition({ name, longitude, speed: 0 }));
+  return { planets, ascendant, midheaven } as AstrologyReading;
+}
+
+describe('midpoint options', () => {
+  it('accepts the 90° and 45° dials and orbs up to 5°', () => {
+    expect(validateMidpointOptions(undefined, undefined)).toBeNull();
+    expect(validateMidpointOptions(45, 2)).toBeNull();
+    expect(validateMidpointOptions(22.5, undefined)).toBe('Unsupported dial: 22.5. Use one of: 90, 45');
+    expect(validateMidpointOptions(90, 6)).toBe('Orb must be a number of degrees between 0 and 5');
+    expect(validateMidpointOptions(90, 0)).toMatch(/^Orb must be/);
+  });
+
+  it('accepts whole harmonics from 2 to 180', () => {
+    expect(validateHarmonic(5)).toBeNull();
+    expect(validateHarmonic(180)).toBeNull();
+    [1, 181, 2.5, '5', undefined].forEach(harmonic => expect(validateHarmonic(harmonic)).toBe('Harmonic must be a whole number from 2 to 180'));
+  });
+});
+
+describe('calculateMidpoints', () => {
+  it('takes every pair once, on the shorter arc', () => {
+    const midpoints = calculateMidpoints([{ name: 'Sun', longitude: 350 }, { name: 'Moon', longitude: 30 }, { name: 'Mars', longitude: 100 }]);
+    expect(midpoints).toHaveLength(3);
+    expect(midpoints[0]).toMatchObject({ planet1: 'Sun', planet2: 'Moon', sign: 'Aries' });
+    expect(midpoints[0].longitude).toBeCloseTo(10, 9);
+  });
+});
+
+describe('calculateMidpointTrees', () => {
+  // Sun/Moon falls at 30°: Mars sits on it, Venus squares it and Jupiter is 45° from it
+  const reading = readingOf({ Sun: 10, Moon: 50, Mars: 30, Venus: 120, Jupiter: 75 }, 253, 163);
+
+  const treeOf = (analysis: ReturnType<typeof calculateMidpointTrees>, point: string) =>
+    analysis.trees.find(tree => tree.point === point);
+
+  it('hangs each point on the midpoints it sits on in the 90° dial', () => {
+    const analysis = calculateMidpointTrees(reading);
+    expect(analysis).toMatchObject({ dial: 90, orb: 1.5 });
+    expect(analysis.midpoints).toHaveLength(21);
+    expect(treeOf(analysis, 'Mars')?.midpoints).toContainEqual({ planet1: 'Sun', planet2: 'Moon', orb: 0 });
+    expect(treeOf(analysis, 'Venus')).toMatchObject({ dialPosition: 30 });
+    expect(treeOf(analysis, 'Venus')?.midpoints).toContainEqual({ planet1: 'Sun', planet2: 'Moon', orb: 0 });
+    expect(treeOf(analysis, 'Jupiter')?.midpoints ?? []).not.toContainEqual(expect.objectContaining({ planet1: 'Sun', planet2: 'Moon' }));
+  });
+
+  it('picks up the semi-square on the 45° dial', () => {
+    const analysis = calculateMidpointTrees(reading, 45);
+    expect(analysis.orb).toBe(1);
+    expect(treeOf(analysis, 'Jupiter')?.midpoints).toContainEqual({ planet1: 'Sun', planet2: 'Moon', orb: 0 });
+  });
+
+  it('leaves out a point\'s own midpoints and lists the tightest first', () => {
+    const analysis = calculateMidpointTrees(reading, 90, 5);
+    for (const tree of analysis.trees) {
+      expect(tree.midpoints.every(contact => contact.planet1 !== tree.point && contact.planet2 !== tree.point)).toBe(true);
+      const orbs = tree.midpoints.map(contact => contact.orb);
+      expect(orbs).toEqual([...orbs].sort((a, b) => a - b));
+    }
+  });
+});
+
+describe('calculateHarmonicChart', () => {
+  it('multiplies every longitude by the harmonic and keeps only conjunctions', async () => {
+    const natal = await calculateNatalChart({
+      name: 'Alice', date: '1990-06-15', time: '14:30', location: { name: 'London', latitude: 51.5074, longitude: -0.1278 }, timeZone: 'Europe/London'
+    });
+    const harmonic = calculateHarmonicChart(natal, 5);
+
+    expect(harmonic).toMatchObject({ harmonic: 5, chartType: 'harmonic', chartLabel: 'Harmonic 5 Chart: Alice', houseSystem: 'equal' });
+    harmonic.planets.forEach((planet, index) => {
+      expect(planet.longitude).toBeCloseTo(normalizeDegrees(natal.planets[index].longitude * 5), 6);
+    });
+    expect(harmonic.ascendant).toBeCloseTo(normalizeDegrees(natal.ascendant * 5), 6);
+    expect(harmonic.houseCusps[0]).toBeCloseTo(harmonic.ascendant, 6);
+    expect(harmonic.aspects.every(aspect => aspect.aspect === 'Conjunction')).toBe(true);
+  });
+});
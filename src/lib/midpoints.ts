@@ -0,0 +1,128 @@
+import { normalizeDegrees } from '@/lib/ephemeris';
+import { DEFAULT_ASPECT_PROFILE, resolveAspectProfile } from '@/lib/aspects';
+import { assembleReading } from '@/lib/chart';
+import { equalCusps } from '@/lib/houses';
+import { midpointLongitude } from '@/lib/relationship';
+import { toTropicalLongitude, zodiacSettingsOf } from '@/lib/sidereal';
+import { getSignAndDegree, toPlanetPosition } from '@/lib/zodiac';
+import type { AstrologyReading, Midpoint, MidpointAnalysis, MidpointContact, MidpointDial, MidpointTree } from '@/types/astrology';
+
+export const MIDPOINT_DIALS: MidpointDial[] = [90, 45];
+export const DEFAULT_MIDPOINT_DIAL: MidpointDial = 90;
+
+// Ebertin's orb for the 90° dial; the 45° dial is usually read tighter
+export const DEFAULT_MIDPOINT_ORBS: Record<MidpointDial, number> = {
+  90: 1.5,
+  45: 1
+};
+const MAX_MIDPOINT_ORB = 5;
+
+// Harmonic 1 is the natal chart itself
+const MIN_HARMONIC = 2;
+const MAX_HARMONIC = 180;
+
+export function isMidpointDial(value: unknown): value is MidpointDial {
+  return typeof value === 'number' && (MIDPOINT_DIALS as number[]).includes(value);
+}
+
+// Reason the dial settings cannot be used, or null when they are fine
+export function validateMidpointOptions(dial: unknown, orb: unknown): string | null {
+  if (dial !== undefined && !isMidpointDial(dial)) {
+    return `Unsupported dial: ${dial}. Use one of: ${MIDPOINT_DIALS.join(', ')}`;
+  }
+  if (orb !== undefined && (typeof orb !== 'number' || !(orb > 0) || orb > MAX_MIDPOINT_ORB)) {
+    return `Orb must be a number of degrees between 0 and ${MAX_MIDPOINT_ORB}`;
+  }
+  return null;
+}
+
+export function validateHarmonic(harmonic: unknown): string | null {
+  if (typeof harmonic !== 'number' || !Number.isInteger(harmonic) || harmonic < MIN_HARMONIC || harmonic > MAX_HARMONIC) {
+    return `Harmonic must be a whole number from ${MIN_HARMONIC} to ${MAX_HARMONIC}`;
+  }
+  return null;
+}
+
+// Planets and points with the angles, which Uranian work treats as factors like any other
+function midpointFactors(reading: AstrologyReading): Array<{ name: string; longitude: number }> {
+  return [
+    ...reading.planets.map(({ name, longitude }) => ({ name, longitude })),
+    { name: 'Ascendant', longitude: reading.ascendant },
+    { name: 'Midheaven', longitude: reading.midheaven }
+  ];
+}
+
+// Distance between two longitudes once both are folded onto the dial
+function dialDistance(a: number, b: number, dial: MidpointDial): number {
+  const difference = normalizeDegrees(a - b) % dial;
+  return Math.min(difference, dial - difference);
+}
+
+export function calculateMidpoints(points: Array<{ name: string; longitude: number }>): Midpoint[] {
+  const midpoints: Midpoint[] = [];
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const longitude = midpointLongitude(points[i].longitude, points[j].longitude);
+      midpoints.push({ planet1: points[i].name, planet2: points[j].name, longitude, ...getSignAndDegree(longitude) });
+    }
+  }
+  return midpoints;
+}
+
+// Each point with the midpoints it sits on within the orb on the dial; a point's own midpoints do not count
+export function calculateMidpointTrees(
+  reading: AstrologyReading,
+  dial: MidpointDial = DEFAULT_MIDPOINT_DIAL,
+  orb: number = DEFAULT_MIDPOINT_ORBS[dial]
+): MidpointAnalysis {
+  const factors = midpointFactors(reading);
+  const midpoints = calculateMidpoints(factors);
+
+  const trees: MidpointTree[] = factors.flatMap(point => {
+    const contacts: MidpointContact[] = midpoints
+      .filter(midpoint => midpoint.planet1 !== point.name && midpoint.planet2 !== point.name)
+      .map(midpoint => ({
+        planet1: midpoint.planet1,
+        planet2: midpoint.planet2,
+        orb: Math.round(dialDistance(point.longitude, midpoint.longitude, dial) * 100) / 100
+      }))
+      .filter(contact => contact.orb <= orb)
+      .sort((a, b) => a.orb - b.orb);
+
+    return contacts.length > 0
+      ? [{ point: point.name, longitude: point.longitude, dialPosition: point.longitude % dial, midpoints: contacts }]
+      : [];
+  });
+
+  return { dial, orb, midpoints, trees };
+}
+
+// Harmonic chart as a full reading: every longitude multiplied by the harmonic, in the natal chart's zodiac,
+// with equal houses from the harmonic Ascendant. Only conjunctions count, which are the natal aspects of the harmonic.
+export function calculateHarmonicChart(natal: AstrologyReading, harmonic: number): AstrologyReading {
+  const toHarmonic = (longitude: number) => toTropicalLongitude(normalizeDegrees(longitude * harmonic), natal);
+  const ascendant = toHarmonic(natal.ascendant);
+  const profile = natal.aspectProfile || DEFAULT_ASPECT_PROFILE;
+
+  const planets = natal.planets.map(planet => toPlanetPosition({
+    name: planet.name,
+    longitude: toHarmonic(planet.longitude),
+    speed: planet.speed * harmonic
+  }));
+
+  const reading = assembleReading({
+    planets,
+    ascendant,
+    midheaven: toHarmonic(natal.midheaven),
+    houses: { system: 'equal', requestedSystem: 'equal', cusps: equalCusps(ascendant) },
+    aspectProfile: resolveAspectProfile({ preset: profile.preset, orbPolicy: profile.orbPolicy, aspects: ['Conjunction'] }),
+    aspectTiming: null, // A harmonic chart is a static image of the natal moment
+    zodiac: zodiacSettingsOf(natal),
+    birthInfo: natal.birthInfo,
+    timezone: natal.timezone,
+    chartType: 'harmonic',
+    chartLabel: `Harmonic ${harmonic} Chart${natal.birthInfo.name ? `: ${natal.birthInfo.name}` : ''}`
+  });
+
+  return { ...reading, harmonic };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAspects } from '@/lib/aspects';
+import { equalCusps } from '@/lib/houses';
+import { detectAspectPatterns } from '@/lib/patterns';
+import { toPlanetPosition } from '@/lib/zodiac';
+
+// Patterns in a chart of the given longitudes, with equal houses from 0° Aries
+function patternsOf(longitudes: Record<string, number>) {
+  const planets = Object.entries(longitudes).map(([name, longitude]) => toPlanetPosition({ name, longitude, speed: 0 }));
+  return detectAspectPatterns(planets, calculateAspects(planets), equalCusps(0));
+}
+
+describe('detectAspectPatterns', () => {
+  it('finds a Grand Trine and names its element', () => {
+    expect(patternsOf({ Sun: 5, Moon: 125, Mars: 245 })).toEqual([
+      { type: 'Grand Trine', planets: ['Sun', 'Moon', 'Mars'], element: 'Fire' }
+    ]);
+  });
+
+  it('leaves the element out of a Grand Trine that spans two elements', () => {
+    // Within orb but out of sign: 28° Aries, 2° Virgo, 29° Sagittarius
+    const [trine] = patternsOf({ Sun: 28, Moon: 152, Mars: 269 });
+    expect(trine).toMatchObject({ type: 'Grand Trine' });
+    expect(trine.element).toBeUndefined();
+  });
+
+  it('finds a Kite on a Grand Trine with the apex opposite one corner', () => {
+    const patterns = patternsOf({ Sun: 5, Moon: 125, Mars: 245, Jupiter: 185 });
+    expect(patterns).toContainEqual({ type: 'Kite', planets: ['Sun', 'Moon', 'Mars', 'Jupiter'], apex: 'Jupiter' });
+  });
+
+  it('finds a T-Square with its apex and modality', () => {
+    expect(patternsOf({ Sun: 10, Moon: 190, Mars: 100 })).toEqual([
+      { type: 'T-Square', planets: ['Sun', 'Moon', 'Mars'], apex: 'Mars', modality: 'Cardinal' }
+    ]);
+  });
+
+  it('reports a Grand Cross without the T-Squares inside it', () => {
+    const patterns = patternsOf({ Sun: 10, Moon: 190, Mars: 100, Venus: 280 });
+    expect(patterns.map(pattern => pattern.type)).toEqual(['Grand Cross']);
+    expect(patterns[0]).toMatchObject({ planets: ['Sun', 'Moon', 'Mars', 'Venus'], modality: 'Cardinal' });
+  });
+
+  it('finds a Yod pointing at the planet quincunx both ends of a sextile', () => {
+    expect(patternsOf({ Sun: 0, Moon: 60, Mars: 210 })).toEqual([
+      { type: 'Yod', planets: ['Sun', 'Moon', 'Mars'], apex: 'Mars' }
+    ]);
+  });
+
+  it('finds a Mystic Rectangle', () => {
+    const patterns = patternsOf({ Sun: 0, Moon: 60, Mars: 180, Venus: 240 });
+    expect(patterns).toContainEqual({ type: 'Mystic Rectangle', planets: ['Sun', 'Mars', 'Moon', 'Venus'] });
+  });
+
+  it('finds stelliums by sign and by house', () => {
+    const patterns = patternsOf({ Sun: 10, Mercury: 15, Venus: 20 });
+    expect(patterns).toContainEqual({ type: 'Stellium', planets: ['Sun', 'Mercury', 'Venus'], sign: 'Aries' });
+    expect(patterns).toContainEqual({ type: 'Stellium', planets: ['Sun', 'Mercury', 'Venus'], house: 1 });
+  });
+
+  it('does not let the nodes complete a configuration', () => {
+    expect(patternsOf({ Sun: 10, Moon: 190, 'North Node': 100 })).toEqual([]);
+    expect(patternsOf({ Sun: 10, Mercury: 15, 'North Node': 20 })).toEqual([]);
+  });
+});
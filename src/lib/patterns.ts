@@ -0,0 +1,114 @@
+import { calculateHousePosition } from '@/lib/houses';
+import { isMajorBody } from '@/lib/points';
+import { getElement, getModality } from '@/lib/zodiac';
+import type { Aspect, AspectPattern, PlanetPosition } from '@/types/astrology';
+
+const STELLIUM_SIZE = 3;
+
+// The nodes and other points are not planets and do not anchor configurations
+function isPatternPlanet(name: string): boolean {
+  return isMajorBody(name);
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  return items.flatMap((item, index) =>
+    combinations(items.slice(index + 1), size - 1).map(rest => [item, ...rest])
+  );
+}
+
+// Shared value if every planet agrees on it, e.g. all three of a Grand Trine in Water signs
+function sharedQuality(planets: PlanetPosition[], names: string[], quality: (sign: string) => string): string | undefined {
+  const values = names.map(name => {
+    const planet = planets.find(p => p.name === name);
+    return planet ? quality(planet.sign) : undefined;
+  });
+  return values.every(value => value && value === values[0]) ? values[0] : undefined;
+}
+
+// Multi-planet configurations in the aspect graph, plus stelliums by sign and by house
+export function detectAspectPatterns(planets: PlanetPosition[], aspects: Aspect[], houseCusps: number[]): AspectPattern[] {
+  const names = planets.map(p => p.name).filter(isPatternPlanet);
+  const aspectBetween = new Map<string, string>();
+  for (const aspect of aspects) {
+    aspectBetween.set(`${aspect.planet1}|${aspect.planet2}`, aspect.aspect);
+    aspectBetween.set(`${aspect.planet2}|${aspect.planet1}`, aspect.aspect);
+  }
+  const is = (a: string, b: string, aspect: string) => aspectBetween.get(`${a}|${b}`) === aspect;
+
+  const patterns: AspectPattern[] = [];
+  const oppositions = combinations(names, 2).filter(([a, b]) => is(a, b, 'Opposition'));
+
+  // Grand Trine, and the Kites built on it
+  for (const trine of combinations(names, 3)) {
+    const [a, b, c] = trine;
+    if (!is(a, b, 'Trine') || !is(b, c, 'Trine') || !is(a, c, 'Trine')) continue;
+
+    patterns.push({ type: 'Grand Trine', planets: trine, element: sharedQuality(planets, trine, getElement) });
+
+    for (const base of trine) {
+      const [wing1, wing2] = trine.filter(name => name !== base);
+      for (const apex of names.filter(name => !trine.includes(name))) {
+        if (is(apex, base, 'Opposition') && is(apex, wing1, 'Sextile') && is(apex, wing2, 'Sextile')) {
+          patterns.push({ type: 'Kite', planets: [...trine, apex], apex });
+        }
+      }
+    }
+  }
+
+  // Grand Cross and Mystic Rectangle, both made of two oppositions
+  const crosses: string[][] = [];
+  for (const [[a, b], [c, d]] of combinations(oppositions, 2)) {
+    const four = [a, b, c, d];
+    if (new Set(four).size < 4) continue;
+
+    if (is(a, c, 'Square') && is(a, d, 'Square') && is(b, c, 'Square') && is(b, d, 'Square')) {
+      crosses.push(four);
+      patterns.push({ type: 'Grand Cross', planets: four, modality: sharedQuality(planets, four, getModality) });
+      continue;
+    }
+
+    const rectangle = (is(a, c, 'Trine') && is(b, d, 'Trine') && is(a, d, 'Sextile') && is(b, c, 'Sextile')) ||
+      (is(a, d, 'Trine') && is(b, c, 'Trine') && is(a, c, 'Sextile') && is(b, d, 'Sextile'));
+    if (rectangle) {
+      patterns.push({ type: 'Mystic Rectangle', planets: four });
+    }
+  }
+
+  // T-Square, unless it is already part of a Grand Cross
+  for (const [a, b] of oppositions) {
+    for (const apex of names.filter(name => name !== a && name !== b)) {
+      if (!is(apex, a, 'Square') || !is(apex, b, 'Square')) continue;
+      const three = [a, b, apex];
+      if (crosses.some(cross => three.every(name => cross.includes(name)))) continue;
+      patterns.push({ type: 'T-Square', planets: three, apex, modality: sharedQuality(planets, three, getModality) });
+    }
+  }
+
+  // Yod: two planets in sextile both quincunx a third
+  for (const [a, b] of combinations(names, 2).filter(([a, b]) => is(a, b, 'Sextile'))) {
+    for (const apex of names.filter(name => name !== a && name !== b)) {
+      if (is(apex, a, 'Quincunx') && is(apex, b, 'Quincunx')) {
+        patterns.push({ type: 'Yod', planets: [a, b, apex], apex });
+      }
+    }
+  }
+
+  // Stelliums: three or more planets sharing a sign or a house
+  const stelliumPlanets = planets.filter(p => isPatternPlanet(p.name));
+  const bySign = new Map<string, string[]>();
+  const byHouse = new Map<number, string[]>();
+  for (const planet of stelliumPlanets) {
+    bySign.set(planet.sign, [...(bySign.get(planet.sign) || []), planet.name]);
+    const house = calculateHousePosition(planet.longitude, houseCusps);
+    byHouse.set(house, [...(byHouse.get(house) || []), planet.name]);
+  }
+  for (const [sign, members] of bySign) {
+    if (members.length >= STELLIUM_SIZE) patterns.push({ type: 'Stellium', planets: members, sign });
+  }
+  for (const [house, members] of byHouse) {
+    if (members.length >= STELLIUM_SIZE) patterns.push({ type: 'Stellium', planets: members, house });
+  }
+
+  return patterns;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { anglesFromRamc, calculateAngles, calculateBodyPosition, julianDay, normalizeDegrees } from '@/lib/ephemeris';
+import {
+  calculateExtraPoints,
+  EXTRA_POINTS,
+  extraPointFields,
+  extraPointsOf,
+  isMajorBody,
+  isSensitivePoint,
+  validateExtraPoints
+} from '@/lib/points';
+import { toPlanetPosition } from '@/lib/zodiac';
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+const JD = julianDay('1990-06-15', '13:30:00');
+
+function pointsAt(jd: number, latitude = LONDON.latitude, longitude = LONDON.longitude) {
+  return Object.fromEntries(calculateExtraPoints([...EXTRA_POINTS], jd, latitude, longitude).map(point => [point.name, point]));
+}
+
+describe('validateExtraPoints', () => {
+  it('accepts known points and names unknown ones', () => {
+    expect(validateExtraPoints(['chiron', 'vertex'])).toBeNull();
+    expect(validateExtraPoints('chiron')).toBe('extraPoints must be an array');
+    expect(validateExtraPoints(['chiron', 'ceres'])).toMatch(/^Unknown extra points: ceres\./);
+  });
+});
+
+describe('calculateExtraPoints', () => {
+  it('lists the requested points in catalogue order', () => {
+    expect(calculateExtraPoints(['vertex', 'chiron'], JD, LONDON.latitude, LONDON.longitude).map(point => point.name))
+      .toEqual(['Chiron', 'Vertex']);
+    expect(calculateExtraPoints([], JD, LONDON.latitude, LONDON.longitude)).toEqual([]);
+  });
+
+  it('puts the South Node opposite the North Node, moving with it', () => {
+    const northNode = calculateBodyPosition('North Node', JD);
+    const southNode = pointsAt(JD)['South Node'];
+    expect(southNode.longitude).toBeCloseTo(normalizeDegrees(northNode.longitude + 180), 9);
+    expect(southNode.speed).toBe(northNode.speed);
+  });
+
+  it('takes Chiron and Lilith from the ephemeris', () => {
+    // Chiron stood at about 11° Sagittarius at the start of 2000
+    expect(pointsAt(julianDay('2000-01-01', '12:00:00')).Chiron.longitude).toBeCloseTo(251.5, 0);
+    expect(pointsAt(JD)['Mean Lilith'].declination).toBeDefined();
+  });
+
+  it('reverses the Part of Fortune by night and mirrors it in the Part of Spirit', () => {
+    const day = pointsAt(JD);
+    const { ascendant } = calculateAngles(JD, LONDON.latitude, LONDON.longitude);
+    const sun = calculateBodyPosition('Sun', JD).longitude;
+    const moon = calculateBodyPosition('Moon', JD).longitude;
+    expect(day['Part of Fortune'].longitude).toBeCloseTo(normalizeDegrees(ascendant + moon - sun), 9);
+    expect(normalizeDegrees(day['Part of Fortune'].longitude + day['Part of Spirit'].longitude)).toBeCloseTo(normalizeDegrees(2 * ascendant), 9);
+
+    const nightJd = julianDay('1990-06-15', '23:30:00');
+    const night = calculateAngles(nightJd, LONDON.latitude, LONDON.longitude);
+    const nightSun = calculateBodyPosition('Sun', nightJd).longitude;
+    const nightMoon = calculateBodyPosition('Moon', nightJd).longitude;
+    expect(pointsAt(nightJd)['Part of Fortune'].longitude).toBeCloseTo(normalizeDegrees(night.ascendant + nightSun - nightMoon), 9);
+  });
+
+  it('puts the Vertex in the western half of the chart', () => {
+    const { ascendant } = calculateAngles(JD, LONDON.latitude, LONDON.longitude);
+    const fromAscendant = normalizeDegrees(pointsAt(JD).Vertex.longitude - ascendant);
+    expect(fromAscendant).toBeGreaterThan(90);
+    expect(fromAscendant).toBeLessThan(270);
+  });
+
+  it('makes the East Point the Ascendant of the equator', () => {
+    const equatorial = calculateAngles(JD, 0, LONDON.longitude);
+    expect(pointsAt(JD)['East Point'].longitude).toBeCloseTo(equatorial.ascendant, 6);
+  });
+
+  it('gives the angle-based points a daily motion of about a turn a day', () => {
+    expect(pointsAt(JD)['East Point'].speed).toBeGreaterThan(300);
+  });
+
+  it('hangs the angle-based points off the angles it is given', () => {
+    const fixed = anglesFromRamc(0, 23.44, LONDON.latitude);
+    const [fortune] = calculateExtraPoints(['partOfFortune'], JD, LONDON.latitude, LONDON.longitude, () => fixed);
+    const sun = calculateBodyPosition('Sun', JD).longitude;
+    const moon = calculateBodyPosition('Moon', JD).longitude;
+    const expected = normalizeDegrees(fixed.ascendant + (normalizeDegrees(sun - fixed.ascendant) >= 180 ? moon - sun : sun - moon));
+    expect(fortune.longitude).toBeCloseTo(expected, 9);
+  });
+});
+
+describe('point classification', () => {
+  it('separates the planets from the nodes and calculated points', () => {
+    expect(isMajorBody('Sun')).toBe(true);
+    expect(isMajorBody('Pluto')).toBe(true);
+    expect(isMajorBody('North Node')).toBe(false);
+    expect(isMajorBody('Chiron')).toBe(false);
+    expect(isSensitivePoint('Vertex')).toBe(true);
+    expect(isSensitivePoint('Chiron')).toBe(false);
+  });
+
+  it('reads the points back from a reading\'s planets', () => {
+    const planets = calculateExtraPoints(['southNode', 'vertex'], JD, LONDON.latitude, LONDON.longitude).map(toPlanetPosition);
+    expect(extraPointsOf({ planets })).toEqual(['southNode', 'vertex']);
+    expect(Object.keys(extraPointFields(planets))).toEqual(['southNode', 'vertex']);
+    expect(extraPointFields(planets).vertex?.name).toBe('Vertex');
+  });
+});
@@ -0,0 +1,132 @@
+import { anglesFromRamc, angularDifference, calculateAngles, calculateBodyPosition, normalizeDegrees, type ChartAngles } from '@/lib/ephemeris';
+import { isDayChart } from '@/lib/dignities';
+import type { AstrologyReading, ExtraPoint, PlanetPosition } from '@/types/astrology';
+
+export const EXTRA_POINTS = [
+  'chiron', 'meanLilith', 'trueLilith', 'southNode', 'partOfFortune', 'partOfSpirit', 'vertex', 'eastPoint'
+] as const;
+
+// Display name of each point, as it appears in the reading's planets
+export const EXTRA_POINT_NAMES: Record<ExtraPoint, string> = {
+  chiron: 'Chiron',
+  meanLilith: 'Mean Lilith',
+  trueLilith: 'True Lilith',
+  southNode: 'South Node',
+  partOfFortune: 'Part of Fortune',
+  partOfSpirit: 'Part of Spirit',
+  vertex: 'Vertex',
+  eastPoint: 'East Point'
+};
+
+// Extra points that are calculated rather than observed bodies; they take narrower orbs
+export const SENSITIVE_POINTS = [
+  'South Node', 'Mean Lilith', 'True Lilith', 'Part of Fortune', 'Part of Spirit', 'Vertex', 'East Point'
+];
+const MINOR_POINTS = ['North Node', 'Chiron', ...SENSITIVE_POINTS];
+
+const EPHEMERIS_POINTS: Partial<Record<ExtraPoint, string>> = {
+  chiron: 'Chiron',
+  meanLilith: 'Mean Lilith',
+  trueLilith: 'True Lilith'
+};
+
+// Step for the finite difference that gives the angle-based points a daily motion (one minute)
+const ANGLE_STEP_DAYS = 1 / 1440;
+
+export function isExtraPoint(value: unknown): value is ExtraPoint {
+  return typeof value === 'string' && (EXTRA_POINTS as readonly string[]).includes(value);
+}
+
+export function isSensitivePoint(name: string): boolean {
+  return SENSITIVE_POINTS.includes(name);
+}
+
+// The ten planets, which alone anchor patterns, count towards balances and take part in rulerships
+export function isMajorBody(name: string): boolean {
+  return !MINOR_POINTS.includes(name);
+}
+
+// Reason the requested points cannot be used, or null when they are fine
+export function validateExtraPoints(points: unknown): string | null {
+  if (!Array.isArray(points)) {
+    return 'extraPoints must be an array';
+  }
+  const unknown = points.filter(point => !isExtraPoint(point));
+  if (unknown.length > 0) {
+    return `Unknown extra points: ${unknown.join(', ')}. Use any of: ${EXTRA_POINTS.join(', ')}`;
+  }
+  return null;
+}
+
+// Longitudes of the points that hang off the chart angles, for one moment
+function anglePoints(jd: number, latitude: number, anglesAt: (jd: number) => ChartAngles) {
+  const angles = anglesAt(jd);
+  const { ramc, obliquity } = angles;
+  const sun = calculateBodyPosition('Sun', jd).longitude;
+  const moon = calculateBodyPosition('Moon', jd).longitude;
+  const dayChart = isDayChart(sun, angles.ascendant);
+
+  // Fortune measures from the Sun to the Moon by day and reverses by night; Spirit is its mirror image
+  const fortune = dayChart ? angles.ascendant + moon - sun : angles.ascendant + sun - moon;
+  const spirit = dayChart ? angles.ascendant + sun - moon : angles.ascendant + moon - sun;
+
+  // The Vertex is the western point where the prime vertical meets the ecliptic: the ascendant of the co-latitude
+  const coLatitude = latitude >= 0 ? 90 - latitude : -90 - latitude;
+
+  return {
+    partOfFortune: normalizeDegrees(fortune),
+    partOfSpirit: normalizeDegrees(spirit),
+    vertex: anglesFromRamc(normalizeDegrees(ramc + 180), obliquity, coLatitude).ascendant,
+    eastPoint: anglesFromRamc(ramc, obliquity, 0).ascendant
+  };
+}
+
+// Positions of the requested points, named as they appear among the planets
+export function calculateExtraPoints(
+  points: ExtraPoint[],
+  jd: number,
+  latitude: number,
+  longitude: number,
+  // Progressed charts pass their own angles, which do not follow the sky of the moment they are cast for
+  anglesAt: (jd: number) => ChartAngles = moment => calculateAngles(moment, latitude, longitude)
+): Array<{ name: string; longitude: number; speed: number; declination?: number }> {
+  // Nothing to compute, so no ephemeris call that could fail outside its range
+  if (points.length === 0) return [];
+
+  const now = anglePoints(jd, latitude, anglesAt);
+  const later = anglePoints(jd + ANGLE_STEP_DAYS, latitude, anglesAt);
+  const northNode = calculateBodyPosition('North Node', jd);
+
+  return EXTRA_POINTS.filter(point => points.includes(point)).map(point => {
+    const name = EXTRA_POINT_NAMES[point];
+    const body = EPHEMERIS_POINTS[point];
+    if (body) {
+      const { longitude: bodyLongitude, speed, declination } = calculateBodyPosition(body, jd);
+      return { name, longitude: bodyLongitude, speed, declination };
+    }
+    if (point === 'southNode') {
+      return { name, longitude: normalizeDegrees(northNode.longitude + 180), speed: northNode.speed };
+    }
+
+    const key = point as keyof typeof now;
+    return {
+      name,
+      longitude: now[key],
+      speed: angularDifference(now[key], later[key]) / ANGLE_STEP_DAYS
+    };
+  });
+}
+
+// Points a reading was cast with, so derived charts can carry the same ones
+export function extraPointsOf(reading: Pick<AstrologyReading, 'planets'>): ExtraPoint[] {
+  const names = new Set(reading.planets.map(planet => planet.name));
+  return EXTRA_POINTS.filter(point => names.has(EXTRA_POINT_NAMES[point]));
+}
+
+// Typed reading fields for the points present among the planets
+export function extraPointFields(planets: PlanetPosition[]): Partial<Record<ExtraPoint, PlanetPosition>> {
+  return Object.fromEntries(EXTRA_POINTS.flatMap(point => {
+    const planet = planets.find(p => p.name === EXTRA_POINT_NAMES[point]);
+    return planet ? [[point, planet]] : [];
+  }));
+}
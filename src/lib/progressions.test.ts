@@ -0,0 +1,68 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { calculateNatalChart } from '@/lib/chart';
+import { angularDifference } from '@/lib/ephemeris';
+import { EXTRA_POINTS } from '@/lib/points';
+import { calculateProgressions } from '@/lib/progressions';
+import type { AstrologyReading } from '@/types/astrology';
+
+const LONDON = { name: 'London', latitude: 51.5074, longitude: -0.1278 };
+
+function longitudeOf(reading: AstrologyReading, name: string): number {
+  return reading.planets.find(planet => planet.name === name)!.longitude;
+}
+
+describe('calculateProgressions', () => {
+  let natal: AstrologyReading;
+  beforeAll(async () => {
+    natal = await calculateNatalChart({
+      date: '1990-06-15',
+      time: '14:30',
+      location: LONDON,
+      timeZone: 'Europe/London',
+      extraPoints: [...EXTRA_POINTS]
+    });
+  });
+
+  it('moves the secondary progressed Sun about a degree a year', () => {
+    const { reading, solarArc } = calculateProgressions(natal, '2020-06-15', 'secondary');
+    const arc = (angularDifference(longitudeOf(natal, 'Sun'), longitudeOf(reading, 'Sun')) + 360) % 360;
+    expect(arc).toBeGreaterThan(28);
+    expect(arc).toBeLessThan(30);
+    expect(solarArc).toBeCloseTo(arc, 1);
+  });
+
+  it('directs every natal point by the same solar arc', () => {
+    const { reading, solarArc } = calculateProgressions(natal, '2020-06-15', 'solar-arc');
+    for (const planet of natal.planets) {
+      const moved = (angularDifference(planet.longitude, longitudeOf(reading, planet.name)) + 360) % 360;
+      expect(moved).toBeCloseTo(solarArc, 1);
+    }
+  });
+
+  it('carries the natal extra points into both techniques', () => {
+    const names = natal.planets.map(planet => planet.name);
+    expect(names).toEqual(expect.arrayContaining(['Chiron', 'South Node', 'Part of Fortune', 'Vertex']));
+
+    for (const method of ['secondary', 'solar-arc'] as const) {
+      const { reading } = calculateProgressions(natal, '2020-06-15', method);
+      expect(reading.planets.map(planet => planet.name)).toEqual(names);
+    }
+  });
+
+  it('keeps the progressed nodes opposite each other', () => {
+    const { reading } = calculateProgressions(natal, '2020-06-15', 'secondary');
+    const separation = Math.abs(angularDifference(longitudeOf(reading, 'North Node'), longitudeOf(reading, 'South Node')));
+    expect(separation).toBeCloseTo(180, 6);
+  });
+
+  it('reports progressed Moon ingresses in date order', () => {
+    const { moon } = calculateProgressions(natal, '2020-06-15', 'secondary');
+    expect(moon.ingresses.length).toBeGreaterThan(0);
+    const dates = moon.ingresses.map(ingress => ingress.date);
+    expect(dates).toEqual([...dates].sort());
+  });
+
+  it('rejects a target date before birth', () => {
+    expect(() => calculateProgressions(natal, '1980-01-01')).toThrow('Target date must be after the birth date');
+  });
+});
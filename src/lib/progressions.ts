@@ -0,0 +1,279 @@
+import {
+  angularDifference,
+  anglesFromRamc,
+  calculateAngles,
+  calculateBodyPosition,
+  calculatePlanetPositions,
+  eclipticToRightAscension,
+  julianDay,
+  normalizeDegrees,
+  toUtcDateTime,
+  type ChartAngles
+} from '@/lib/ephemeris';
+import { DEFAULT_ASPECT_PROFILE, findAspect } from '@/lib/aspects';
+import { calculateHouseCusps, calculateHousePosition } from '@/lib/houses';
+import { assembleReading } from '@/lib/chart';
+import { toTropicalLongitude, toZodiacLongitude, zodiacSettingsOf } from '@/lib/sidereal';
+import { calculateExtraPoints, extraPointsOf } from '@/lib/points';
+import { describeInstant } from '@/lib/timezone';
+import { bisect, findLongitudeCrossings, getNatalPoints, parseUtcDateTime } from '@/lib/transits';
+import { getSignAndDegree, toPlanetPosition } from '@/lib/zodiac';
+import type { AstrologyReading, ExtraPoint, ProgressedAspect, ProgressedMoonIngress, ProgressionMethod, ProgressionResult } from '@/types/astrology';
+
+// Day-for-a-year: each day after birth stands for one tropical year of life
+const TROPICAL_YEAR_DAYS = 365.24219;
+const PROGRESSED_ORB = 1;
+const EXACT_SEARCH_YEARS = 5;
+const MOON_INGRESS_YEARS_BEFORE = 3;
+const MOON_INGRESS_YEARS_AFTER = 10;
+const SCAN_STEP_DAYS = 15;
+
+export const PROGRESSION_METHODS: ProgressionMethod[] = ['secondary', 'solar-arc'];
+
+export function isProgressionMethod(value: unknown): value is ProgressionMethod {
+  return typeof value === 'string' && (PROGRESSION_METHODS as string[]).includes(value);
+}
+
+export interface ProgressedFrame {
+  planets: Array<{ name: string; longitude: number; speed: number }>;
+  angles: ChartAngles;
+  solarArc: number;
+}
+
+// Frames are worked in the tropical zodiac; offset takes them back into the natal chart's zodiac
+export interface NatalFrame {
+  jd: number;
+  latitude: number;
+  longitude: number;
+  angles: ChartAngles;
+  planets: Array<{ name: string; longitude: number; speed: number }>;
+  extraPoints: ExtraPoint[]; // Carried into the progressed chart alongside the planets
+  offset: number;
+}
+
+function natalFrame(natal: AstrologyReading): NatalFrame {
+  const jd = julianDay(natal.timezone.utcDate, natal.timezone.utcTime);
+  const { latitude, longitude } = natal.birthInfo.location;
+  return {
+    jd,
+    latitude,
+    longitude,
+    angles: calculateAngles(jd, latitude, longitude),
+    planets: natal.planets.map(planet => ({ ...planet, longitude: toTropicalLongitude(planet.longitude, natal) })),
+    extraPoints: extraPointsOf(natal),
+    offset: natal.zodiac?.ayanamsaValue ?? 0
+  };
+}
+
+function progressedJd(natal: NatalFrame, targetJd: number): number {
+  return natal.jd + (targetJd - natal.jd) / TROPICAL_YEAR_DAYS;
+}
+
+// Secondary progressed angles for a progressed day: they advance by the Sun's arc in right ascension
+function secondaryAngles(natal: NatalFrame, progressed: number): ChartAngles {
+  const { obliquity } = natal.angles;
+  const natalSun = calculateBodyPosition('Sun', natal.jd).longitude;
+  const progressedSun = calculateBodyPosition('Sun', progressed).longitude;
+  const arcInRa = normalizeDegrees(
+    eclipticToRightAscension(progressedSun, obliquity) - eclipticToRightAscension(natalSun, obliquity)
+  );
+  return anglesFromRamc(natal.angles.ramc + arcInRa, obliquity, natal.latitude);
+}
+
+// Chart positions for a real-world date under the chosen method
+export function progressedFrame(method: ProgressionMethod, natal: NatalFrame, targetJd: number): ProgressedFrame {
+  const progressed = progressedJd(natal, targetJd);
+  const natalSun = calculateBodyPosition('Sun', natal.jd).longitude;
+  const progressedSun = calculateBodyPosition('Sun', progressed).longitude;
+  const solarArc = normalizeDegrees(progressedSun - natalSun);
+  const { obliquity } = natal.angles;
+
+  if (method === 'secondary') {
+    // The natal chart's extra points progress with it; the angle-based ones hang off the progressed angles
+    return {
+      planets: [
+        ...calculatePlanetPositions(progressed),
+        ...calculateExtraPoints(natal.extraPoints, progressed, natal.latitude, natal.longitude, jd => secondaryAngles(natal, jd))
+      ],
+      angles: secondaryAngles(natal, progressed),
+      solarArc
+    };
+  }
+
+  // Solar arc: every point moves by the Sun's progressed arc, the Ascendant follows the directed MC
+  const directedMidheaven = normalizeDegrees(natal.angles.midheaven + solarArc);
+  return {
+    planets: natal.planets.map(planet => ({
+      name: planet.name,
+      longitude: normalizeDegrees(planet.longitude + solarArc),
+      speed: planet.speed
+    })),
+    angles: anglesFromRamc(eclipticToRightAscension(directedMidheaven, obliquity), obliquity, natal.latitude),
+    solarArc
+  };
+}
+
+function tropicalPointLongitude(frame: ProgressedFrame, name: string): number {
+  if (name === 'Ascendant') return frame.angles.ascendant;
+  if (name === 'Midheaven') return frame.angles.midheaven;
+  const planet = frame.planets.find(p => p.name === name);
+  if (!planet) {
+    throw new Error(`Missing progressed position for ${name}`);
+  }
+  return planet.longitude;
+}
+
+// A progressed point in the natal chart's zodiac, where it is compared with the natal points
+function pointLongitude(natal: NatalFrame, frame: ProgressedFrame, name: string): number {
+  return toZodiacLongitude(tropicalPointLongitude(frame, name), natal.offset);
+}
+
+// Progressed or directed points (planets and angles) to natal points within a one-degree orb
+function calculateProgressedAspects(
+  method: ProgressionMethod,
+  natal: NatalFrame,
+  natalReading: AstrologyReading,
+  targetJd: number,
+  frame: ProgressedFrame
+): ProgressedAspect[] {
+  const natalPoints = getNatalPoints(natalReading);
+  const progressedPoints = [...frame.planets.map(({ name }) => name), 'Ascendant', 'Midheaven']
+    .map(name => ({ name, longitude: pointLongitude(natal, frame, name) }));
+  const later = progressedFrame(method, natal, targetJd + 1);
+  const profile = natalReading.aspectProfile || DEFAULT_ASPECT_PROFILE;
+  const aspects: ProgressedAspect[] = [];
+
+  for (const progressed of progressedPoints) {
+    for (const point of natalPoints) {
+      const aspect = findAspect(progressed, point, profile);
+      if (!aspect || aspect.orb > PROGRESSED_ORB) continue;
+
+      const laterOrb = findAspect({ name: progressed.name, longitude: pointLongitude(natal, later, progressed.name) }, point, profile);
+
+      // Exact when the progressed point reaches natal ± the aspect angle on its current side
+      const side = Math.sign(angularDifference(point.longitude, progressed.longitude)) || 1;
+      const target = normalizeDegrees(point.longitude + side * aspect.exactDegrees);
+      const span = EXACT_SEARCH_YEARS * TROPICAL_YEAR_DAYS;
+      const hits = findLongitudeCrossings(
+        jd => pointLongitude(natal, progressedFrame(method, natal, jd), progressed.name),
+        target,
+        targetJd - span,
+        targetJd + span,
+        SCAN_STEP_DAYS
+      );
+      const nearest = hits.sort((a, b) => Math.abs(a - targetJd) - Math.abs(b - targetJd))[0];
+
+      aspects.push({
+        planet1: progressed.name,
+        planet2: point.name,
+        ...aspect,
+        applying: nearest !== undefined
+          ? nearest > targetJd
+          : !!laterOrb && laterOrb.aspect === aspect.aspect && laterOrb.orb < aspect.orb,
+        ...(nearest !== undefined && { exactDate: toUtcDateTime(nearest) })
+      });
+    }
+  }
+  return aspects.sort((a, b) => a.orb - b.orb);
+}
+
+// Progressed Moon changes of sign and of natal house around the target date
+function findMoonIngresses(
+  method: ProgressionMethod,
+  natal: NatalFrame,
+  houseCusps: number[],
+  targetJd: number
+): ProgressedMoonIngress[] {
+  const moonAt = (jd: number) => pointLongitude(natal, progressedFrame(method, natal, jd), 'Moon');
+  const signOf = (longitude: number) => Math.floor(longitude / 30);
+  const houseOf = (longitude: number) => calculateHousePosition(longitude, houseCusps);
+
+  const ingresses: ProgressedMoonIngress[] = [];
+  const endJd = targetJd + MOON_INGRESS_YEARS_AFTER * TROPICAL_YEAR_DAYS;
+  let previousJd = targetJd - MOON_INGRESS_YEARS_BEFORE * TROPICAL_YEAR_DAYS;
+  let previous = moonAt(previousJd);
+
+  while (previousJd < endJd) {
+    const nextJd = Math.min(previousJd + SCAN_STEP_DAYS, endJd);
+    const next = moonAt(nextJd);
+
+    const changes: Array<{ type: ProgressedMoonIngress['type']; key: (longitude: number) => number }> = [
+      { type: 'sign', key: signOf },
+      { type: 'house', key: houseOf }
+    ];
+    for (const { type, key } of changes) {
+      const before = key(previous);
+      if (key(next) === before) continue;
+
+      const jd = bisect(jd => (key(moonAt(jd)) === before ? 1 : -1), previousJd, nextJd);
+      const longitude = moonAt(jd + 1 / 1440);
+      ingresses.push({
+        date: toUtcDateTime(jd),
+        type,
+        sign: getSignAndDegree(longitude).sign,
+        house: houseOf(longitude)
+      });
+    }
+
+    previousJd = nextJd;
+    previous = next;
+  }
+  return ingresses;
+}
+
+// Secondary progressed or solar arc directed chart for a target date, as a full reading
+export function calculateProgressions(
+  natalReading: AstrologyReading,
+  targetDate: string,
+  method: ProgressionMethod = 'secondary'
+): ProgressionResult {
+  const natal = natalFrame(natalReading);
+  const targetJd = parseUtcDateTime(targetDate.includes('T') ? targetDate : `${targetDate}T12:00:00`);
+  if (targetJd < natal.jd) {
+    throw new Error('Target date must be after the birth date');
+  }
+
+  const frame = progressedFrame(method, natal, targetJd);
+  const houses = calculateHouseCusps(
+    natalReading.requestedHouseSystem || natalReading.houseSystem,
+    frame.angles,
+    natal.latitude
+  );
+
+  // Secondary charts are cast for the progressed day; directed charts keep the target date
+  const [momentDate, momentTime] = toUtcDateTime(method === 'secondary' ? progressedJd(natal, targetJd) : targetJd)
+    .replace('Z', '')
+    .split('T');
+  const label = method === 'secondary' ? 'Secondary Progressions' : 'Solar Arc Directions';
+
+  const reading = assembleReading({
+    planets: frame.planets.map(toPlanetPosition),
+    ascendant: frame.angles.ascendant,
+    midheaven: frame.angles.midheaven,
+    houses,
+    aspectProfile: natalReading.aspectProfile,
+    // A progressed day stands for a year; directed points all move by the same arc
+    aspectTiming: method === 'secondary' ? { jd: targetJd, daysPerDay: TROPICAL_YEAR_DAYS } : null,
+    zodiac: zodiacSettingsOf(natalReading),
+    ayanamsaJd: natal.jd, // Progressed positions stay in the natal chart's frame
+    birthInfo: natalReading.birthInfo,
+    timezone: describeInstant(natalReading.timezone.zone, momentDate, momentTime),
+    chartType: method === 'secondary' ? 'progressed' : 'solar-arc',
+    chartLabel: `${label} for ${targetDate}`
+  });
+
+  const moonLongitude = pointLongitude(natal, frame, 'Moon');
+
+  return {
+    method,
+    targetDate,
+    solarArc: Math.round(frame.solarArc * 100) / 100,
+    reading,
+    aspects: calculateProgressedAspects(method, natal, natalReading, targetJd, frame),
+    moon: {
+      sign: getSignAndDegree(moonLongitude).sign,
+      house: calculateHousePosition(moonLongitude, natalReading.houseCusps),
+      ingresses: findMoonIngresses(method, natal, natalReading.houseCusps, targetJd)
+    }
+  };
+}
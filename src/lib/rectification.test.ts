@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { angularDifference, calculateAngles, calculateBodyPosition, julianDay } from '@/lib/ephemeris';
+import { rectifyBirthTime, validateLifeEvents, validateRectificationOptions } from '@/lib/rectification';
+import type { LifeEvent } from '@/types/astrology';
+
+const LONDON = { name: 'London', latitude: 51.5074, longitude: -0.1278 };
+const BIRTH_DATE = '1985-03-10';
+const ACCIDENT: LifeEvent = { date: '2015-06-01', type: 'accident' };
+
+// Minute of the birth day (UT) whose Ascendant transiting Pluto stood on at the event
+function minuteOfPlutoOnAscendant(): number {
+  const pluto = calculateBodyPosition('Pluto', julianDay(ACCIDENT.date, '12:00:00')).longitude;
+  const midnight = julianDay(BIRTH_DATE, '00:00:00');
+  const orbAt = (minute: number) =>
+    Math.abs(angularDifference(calculateAngles(midnight + minute / 1440, LONDON.latitude, LONDON.longitude).ascendant, pluto));
+
+  let best = 0;
+  for (let minute = 1; minute < 1440; minute++) {
+    if (orbAt(minute) < orbAt(best)) best = minute;
+  }
+  return best;
+}
+
+const toTime = (minutes: number) =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+describe('rectification options', () => {
+  it('checks the life events', () => {
+    expect(validateLifeEvents([ACCIDENT], BIRTH_DATE)).toBeNull();
+    expect(validateLifeEvents([], BIRTH_DATE)).toBe('Rectification needs at least one dated life event');
+    expect(validateLifeEvents([{ date: '2015-6-1', type: 'accident' }])).toBe('Life event dates must be YYYY-MM-DD');
+    expect(validateLifeEvents([{ date: '2015-06-01', type: 'promotion' }])).toMatch(/^Unsupported life event: promotion/);
+    expect(validateLifeEvents([{ date: '1980-01-01', type: 'career' }], BIRTH_DATE)).toBe('Life event on 1980-01-01 is not after the birth date');
+  });
+
+  it('needs an uncertain birth time and sensible step and limit', () => {
+    const request = { date: BIRTH_DATE, location: LONDON };
+    expect(validateRectificationOptions({ ...request, timeMode: 'unknown' }, 5, 3)).toBeNull();
+    expect(validateRectificationOptions({ ...request, time: '10:00' }, undefined, undefined))
+      .toBe('Rectification needs a birth time window or an unknown birth time');
+    expect(validateRectificationOptions({ ...request, timeMode: 'unknown' }, 45, undefined)).toBe('Step must be a whole number of minutes from 1 to 30');
+    expect(validateRectificationOptions({ ...request, timeMode: 'unknown' }, undefined, 11)).toBe('Limit must be a whole number from 1 to 10');
+  });
+});
+
+describe('rectifyBirthTime', () => {
+  const target = minuteOfPlutoOnAscendant();
+
+  it('scores the transit over the Ascendant, weighting the event\'s significators', async () => {
+    const rectify = (event: LifeEvent) => rectifyBirthTime(
+      { date: BIRTH_DATE, location: LONDON, timeZone: 'UTC', timeMode: 'window', timeWindow: { start: toTime(target), end: toTime(target + 1) } },
+      [event],
+      { step: 1, limit: 1 }
+    );
+    const plutoOnAscendant = (result: Awaited<ReturnType<typeof rectify>>) => result.candidates[0].hits
+      .find(hit => hit.technique === 'transit' && hit.planet1 === 'Pluto' && hit.planet2 === 'Ascendant')!;
+
+    const accident = await rectify(ACCIDENT);
+    expect(accident).toMatchObject({ step: 1, scanned: 2 });
+    const hit = plutoOnAscendant(accident);
+    expect(hit).toMatchObject({ event: 0, aspect: 'Conjunction' });
+    // Either scanned minute puts the Ascendant within a fraction of a degree of Pluto
+    expect(hit.orb).toBeLessThan(0.6);
+    // A transit conjunction weighs 3, less its share of the 1.5° orb, and half as much again for an accident's Ascendant
+    expect(hit.score).toBeCloseTo(3 * (1 - hit.orb / 1.5) * 1.5, 1);
+
+    const other = plutoOnAscendant(await rectify({ ...ACCIDENT, type: 'other' }));
+    expect(other.score).toBeCloseTo(hit.score / 1.5, 1);
+  });
+
+  it('lists spaced candidates, best first, each cast as its own chart', async () => {
+    const { candidates } = await rectifyBirthTime(
+      { date: BIRTH_DATE, location: LONDON, timeZone: 'UTC', timeMode: 'window', timeWindow: { start: '06:00', end: '09:00' } },
+      [ACCIDENT, { date: '2010-09-15', type: 'marriage' }],
+      { step: 6, limit: 4 }
+    );
+
+    expect(candidates.length).toBeGreaterThan(1);
+    const scores = candidates.map(candidate => candidate.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    const minutes = candidates.map(candidate => Number(candidate.time.slice(0, 2)) * 60 + Number(candidate.time.slice(3)));
+    minutes.forEach((minute, i) => minutes.slice(i + 1).forEach(other => expect(Math.abs(minute - other)).toBeGreaterThanOrEqual(12)));
+
+    for (const candidate of candidates) {
+      expect(candidate.reading.timezone.localTime).toBe(`${candidate.time}:00`);
+      expect(candidate.reading.ascendant).toBe(candidate.ascendant);
+      expect(candidate.score).toBeCloseTo(candidate.hits.reduce((sum, hit) => sum + hit.score, 0), 1);
+    }
+  });
+
+  it('scans a window past midnight into the next day', async () => {
+    const result = await rectifyBirthTime(
+      { date: BIRTH_DATE, location: LONDON, timeZone: 'UTC', timeMode: 'window', timeWindow: { start: '23:50', end: '00:10' } },
+      [ACCIDENT],
+      { step: 5, limit: 10 }
+    );
+    expect(result.scanned).toBe(5);
+    for (const candidate of result.candidates) {
+      expect(candidate.reading.timezone.localDate).toBe(candidate.time < '12:00' ? '1985-03-11' : BIRTH_DATE);
+    }
+  });
+});
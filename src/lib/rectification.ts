@@ -0,0 +1,250 @@
+import { angularDifference, calculateAngles, calculateBodyPosition, calculatePlanetPositions, julianDay } from '@/lib/ephemeris';
+import { calculateNatalChart, resolveLocation, type ChartRequest } from '@/lib/chart';
+import { isLifeEventType, LIFE_EVENT_TYPES } from '@/lib/events';
+import { progressedFrame, type NatalFrame } from '@/lib/progressions';
+import { resolveZodiac, zodiacOffset } from '@/lib/sidereal';
+import { resolveBirthTimezone } from '@/lib/timezone';
+import { crossesMidnight, FULL_DAY, isTimeKnown, nextDate } from '@/lib/uncertainty';
+import type {
+  LifeEvent,
+  LifeEventType,
+  RectificationCandidate,
+  RectificationHit,
+  RectificationResult,
+  RectificationTechnique,
+  TimeWindow
+} from '@/types/astrology';
+
+// Points each kind of event is traditionally timed by; contacts that involve one of them count for more
+const EVENT_SIGNIFICATORS: Record<LifeEventType, string[]> = {
+  marriage: ['Venus', 'Jupiter', 'Moon', 'Ascendant'],
+  divorce: ['Uranus', 'Saturn', 'Venus', 'Ascendant'],
+  relocation: ['Moon', 'Uranus', 'Jupiter', 'Midheaven'],
+  career: ['Sun', 'Saturn', 'Jupiter', 'Midheaven'],
+  loss: ['Saturn', 'Pluto', 'Neptune', 'Moon'],
+  childbirth: ['Moon', 'Jupiter', 'Venus', 'Sun'],
+  accident: ['Mars', 'Uranus', 'Ascendant'],
+  other: []
+};
+const SIGNIFICATOR_FACTOR = 1.5;
+
+// Directions and progressions move the angles themselves, so they weigh more than transits over them
+const TECHNIQUE_WEIGHTS: Record<RectificationTechnique, number> = { transit: 1, secondary: 2, 'solar-arc': 2 };
+const TECHNIQUE_ORBS: Record<RectificationTechnique, number> = { transit: 1.5, secondary: 1, 'solar-arc': 1 };
+
+// An opposition to an angle is a conjunction with the angle across the axis, so both count in full
+const RECTIFICATION_ASPECTS = [
+  { name: 'Conjunction', degrees: 0, weight: 3 },
+  { name: 'Opposition', degrees: 180, weight: 3 },
+  { name: 'Square', degrees: 90, weight: 2 },
+  { name: 'Trine', degrees: 120, weight: 1 },
+  { name: 'Sextile', degrees: 60, weight: 1 }
+];
+
+// The fast planets cross every angle too often to time anything by transit
+const TRANSITING_BODIES = ['Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto'];
+
+const DEFAULT_STEP_MINUTES = 4; // About a degree of Ascendant
+const MAX_STEP_MINUTES = 30;
+const DEFAULT_CANDIDATE_LIMIT = 5;
+const MAX_CANDIDATE_LIMIT = 10;
+const MAX_EVENTS = 20;
+// Ranked times are kept apart so the list offers alternatives rather than the neighbours of the best one
+const CANDIDATE_SPACING_MINUTES = 12;
+const MINUTES_PER_DAY = 1440;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type Point = { name: string; longitude: number };
+
+// Reason the events cannot be used, or null when they are fine
+export function validateLifeEvents(events: unknown, birthDate?: string): string | null {
+  if (!Array.isArray(events) || events.length === 0) {
+    return 'Rectification needs at least one dated life event';
+  }
+  if (events.length > MAX_EVENTS) {
+    return `Use at most ${MAX_EVENTS} life events`;
+  }
+
+  for (const event of events) {
+    const { date, type, description } = (event || {}) as Partial<LifeEvent>;
+    if (typeof date !== 'string' || !DATE_PATTERN.test(date)) {
+      return 'Life event dates must be YYYY-MM-DD';
+    }
+    if (!isLifeEventType(type)) {
+      return `Unsupported life event: ${type}. Use one of: ${LIFE_EVENT_TYPES.join(', ')}`;
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      return 'A life event description must be text';
+    }
+    if (birthDate && date <= birthDate) {
+      return `Life event on ${date} is not after the birth date`;
+    }
+  }
+  return null;
+}
+
+export function validateRectificationOptions(request: ChartRequest, step: unknown, limit: unknown): string | null {
+  if (isTimeKnown(request.timeMode)) {
+    return 'Rectification needs a birth time window or an unknown birth time';
+  }
+  if (step !== undefined && (typeof step !== 'number' || !Number.isInteger(step) || step < 1 || step > MAX_STEP_MINUTES)) {
+    return `Step must be a whole number of minutes from 1 to ${MAX_STEP_MINUTES}`;
+  }
+  if (limit !== undefined && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_CANDIDATE_LIMIT)) {
+    return `Limit must be a whole number from 1 to ${MAX_CANDIDATE_LIMIT}`;
+  }
+  return null;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function toLocalTime(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+// Closest rectification aspect between a moving and a natal point within the technique's orb
+function findContact(moving: Point, natal: Point, maxOrb: number): { name: string; weight: number; orb: number } | null {
+  const separation = Math.abs(angularDifference(moving.longitude, natal.longitude));
+  for (const aspect of RECTIFICATION_ASPECTS) {
+    const orb = Math.abs(separation - aspect.degrees);
+    // Aspects are at least 60° apart, so no other one can be within orb as well
+    if (orb <= maxOrb) return { name: aspect.name, weight: aspect.weight, orb };
+  }
+  return null;
+}
+
+function scoreContacts(
+  event: number,
+  type: LifeEventType,
+  technique: RectificationTechnique,
+  pairs: Array<[Point, Point]>
+): RectificationHit[] {
+  const maxOrb = TECHNIQUE_ORBS[technique];
+  const significators = EVENT_SIGNIFICATORS[type];
+
+  return pairs.flatMap(([moving, natal]) => {
+    const contact = findContact(moving, natal, maxOrb);
+    if (!contact) return [];
+
+    const significant = significators.includes(moving.name) || significators.includes(natal.name);
+    const score = TECHNIQUE_WEIGHTS[technique] * contact.weight * (1 - contact.orb / maxOrb) * (significant ? SIGNIFICATOR_FACTOR : 1);
+    return [{
+      event,
+      technique,
+      planet1: moving.name,
+      planet2: natal.name,
+      aspect: contact.name,
+      orb: Math.round(contact.orb * 100) / 100,
+      score: Math.round(score * 100) / 100
+    }];
+  });
+}
+
+// Every moving point against every natal point where one side is an angle
+function anglePairs(moving: { planets: Point[]; angles: Point[] }, natal: { planets: Point[]; angles: Point[] }): Array<[Point, Point]> {
+  return [
+    ...moving.angles.flatMap(angle => natal.planets.map(planet => [angle, planet] as [Point, Point])),
+    ...moving.planets.flatMap(planet => natal.angles.map(angle => [planet, angle] as [Point, Point]))
+  ];
+}
+
+function anglePoints(angles: { ascendant: number; midheaven: number }): Point[] {
+  return [
+    { name: 'Ascendant', longitude: angles.ascendant },
+    { name: 'Midheaven', longitude: angles.midheaven }
+  ];
+}
+
+// Score birth times across the window by transits, secondary progressions and solar arc directions to and from the
+// angles at each event date, then cast the best-supported times as full charts.
+// Comparisons are made in the tropical frame; transits are shifted by the precession since birth in sidereal charts.
+export async function rectifyBirthTime(
+  request: ChartRequest,
+  events: LifeEvent[],
+  options: { step?: number; limit?: number } = {}
+): Promise<RectificationResult> {
+  const { step = DEFAULT_STEP_MINUTES, limit = DEFAULT_CANDIDATE_LIMIT } = options;
+  const window: TimeWindow = request.timeMode === 'window' && request.timeWindow ? request.timeWindow : FULL_DAY;
+  const location = await resolveLocation(request.location);
+  const zodiac = resolveZodiac(request.zodiac, request.ayanamsa);
+  const timezoneOptions = { timeZone: request.timeZone, disambiguation: request.disambiguation === 'later' ? 'later' as const : 'earlier' as const };
+
+  // The sky at each event is the same for every candidate; events are taken at noon UT as their hour is rarely known
+  const eventSkies = events.map(event => {
+    const jd = julianDay(event.date, '12:00:00');
+    return {
+      jd,
+      transiting: TRANSITING_BODIES.map(body => ({ name: body, longitude: calculateBodyPosition(body, jd).longitude })),
+      offset: zodiacOffset(zodiac, jd)
+    };
+  });
+
+  // Minutes are counted from midnight on the birth date, so a window past midnight runs on into the next day
+  const endMinutes = toMinutes(window.end) + (crossesMidnight(window) ? MINUTES_PER_DAY : 0);
+  const scanned: Array<Omit<RectificationCandidate, 'reading' | 'ascendant' | 'midheaven'> & { minutes: number; date: string }> = [];
+  for (let minutes = toMinutes(window.start); minutes <= endMinutes; minutes += step) {
+    const date = minutes < MINUTES_PER_DAY ? request.date : nextDate(request.date);
+    const time = toLocalTime(minutes % MINUTES_PER_DAY);
+    const timezone = resolveBirthTimezone(date, `${time}:00`, location, timezoneOptions);
+    const jd = julianDay(timezone.utcDate, timezone.utcTime);
+    const natal: NatalFrame = {
+      jd,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      angles: calculateAngles(jd, location.latitude, location.longitude),
+      planets: calculatePlanetPositions(jd),
+      extraPoints: [],
+      offset: zodiacOffset(zodiac, jd)
+    };
+    const natalPoints = { planets: natal.planets, angles: anglePoints(natal.angles) };
+
+    const hits = events.flatMap((event, index) => {
+      const sky = eventSkies[index];
+      const precession = sky.offset - natal.offset;
+      const transiting = sky.transiting.map(body => ({ ...body, longitude: body.longitude - precession }));
+      const secondary = progressedFrame('secondary', natal, sky.jd);
+      const solarArc = progressedFrame('solar-arc', natal, sky.jd);
+
+      return [
+        ...scoreContacts(index, event.type, 'transit', anglePairs({ planets: transiting, angles: [] }, natalPoints)),
+        ...scoreContacts(index, event.type, 'secondary', anglePairs({ planets: secondary.planets, angles: anglePoints(secondary.angles) }, natalPoints)),
+        ...scoreContacts(index, event.type, 'solar-arc', anglePairs({ planets: solarArc.planets, angles: anglePoints(solarArc.angles) }, natalPoints))
+      ];
+    });
+
+    scanned.push({
+      time,
+      date,
+      minutes,
+      score: Math.round(hits.reduce((total, hit) => total + hit.score, 0) * 100) / 100,
+      hits: hits.sort((a, b) => b.score - a.score)
+    });
+  }
+
+  const ranked: typeof scanned = [];
+  for (const candidate of [...scanned].sort((a, b) => b.score - a.score)) {
+    if (ranked.length >= limit || candidate.score === 0) break;
+    if (ranked.every(other => Math.abs(other.minutes - candidate.minutes) >= CANDIDATE_SPACING_MINUTES)) {
+      ranked.push(candidate);
+    }
+  }
+
+  // Each candidate is cast like any exact birth time, so its reading opens as a natal chart of its own
+  const candidates: RectificationCandidate[] = await Promise.all(ranked.map(async ({ time, date, score, hits }) => {
+    const reading = await calculateNatalChart({
+      ...request,
+      location,
+      date,
+      time: `${time}:00`,
+      timeMode: undefined,
+      timeWindow: undefined,
+      unknownTimeChart: undefined
+    });
+    return { time, score, ascendant: reading.ascendant, midheaven: reading.midheaven, hits, reading };
+  }));
+
+  return { window, step, scanned: scanned.length, events, candidates };
+}
@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { calculateNatalChart } from '@/lib/chart';
+import { calculateBodyPosition, julianDay } from '@/lib/ephemeris';
+import { calculateCompositeChart, calculateDavisonChart, midpointLongitude } from '@/lib/relationship';
+import type { AstrologyReading } from '@/types/astrology';
+
+const LONDON = { name: 'London', latitude: 51.5074, longitude: -0.1278 };
+const PARIS = { name: 'Paris', latitude: 48.8566, longitude: 2.3522 };
+const TOKYO = { name: 'Tokyo', latitude: 35.6762, longitude: 139.6503 };
+const LOS_ANGELES = { name: 'Los Angeles', latitude: 34.0522, longitude: -118.2437 };
+
+function longitudeOf(reading: AstrologyReading, name: string): number {
+  return reading.planets.find(planet => planet.name === name)!.longitude;
+}
+
+function jdOf(reading: AstrologyReading): number {
+  return julianDay(reading.timezone.utcDate, reading.timezone.utcTime);
+}
+
+describe('midpointLongitude', () => {
+  it('takes the midpoint on the shorter arc, across 0° Aries too', () => {
+    expect(midpointLongitude(10, 50)).toBeCloseTo(30, 9);
+    expect(midpointLongitude(350, 30)).toBeCloseTo(10, 9);
+    expect(midpointLongitude(30, 350)).toBeCloseTo(10, 9);
+    expect(midpointLongitude(100, 300)).toBeCloseTo(20, 9);
+  });
+});
+
+describe('relationship charts', () => {
+  let alice: AstrologyReading;
+  let bob: AstrologyReading;
+  beforeAll(async () => {
+    alice = await calculateNatalChart({ name: 'Alice', date: '1990-06-15', time: '14:30', location: LONDON, timeZone: 'Europe/London' });
+    bob = await calculateNatalChart({ name: 'Bob', date: '1988-11-02', time: '07:15', location: PARIS, timeZone: 'Europe/Paris' });
+  });
+
+  it('puts each composite planet and the MC at the pair\'s midpoint', () => {
+    const composite = calculateCompositeChart(alice, bob);
+    for (const planet of composite.planets) {
+      expect(planet.longitude).toBeCloseTo(midpointLongitude(longitudeOf(alice, planet.name), longitudeOf(bob, planet.name)), 6);
+    }
+    expect(composite.midheaven).toBeCloseTo(midpointLongitude(alice.midheaven, bob.midheaven), 6);
+    expect(composite).toMatchObject({ chartType: 'composite', birthInfo: { name: 'Alice & Bob' } });
+  });
+
+  it('casts the Davison chart for the midpoint in time and space', () => {
+    const davison = calculateDavisonChart(alice, bob);
+    const jd = (jdOf(alice) + jdOf(bob)) / 2;
+
+    expect(jdOf(davison)).toBeCloseTo(jd, 4);
+    expect(longitudeOf(davison, 'Sun')).toBeCloseTo(calculateBodyPosition('Sun', jd).longitude, 3);
+    expect(davison.birthInfo.location).toMatchObject({
+      name: 'Midpoint of London and Paris',
+      latitude: (LONDON.latitude + PARIS.latitude) / 2
+    });
+    expect(davison.birthInfo.location.longitude).toBeCloseTo((LONDON.longitude + PARIS.longitude) / 2, 9);
+  });
+
+  it('takes the Davison place across the date line when that is the shorter way', async () => {
+    const tokyo = await calculateNatalChart({ date: '1990-06-15', time: '12:00', location: TOKYO, timeZone: 'Asia/Tokyo' });
+    const losAngeles = await calculateNatalChart({ date: '1990-06-15', time: '12:00', location: LOS_ANGELES, timeZone: 'America/Los_Angeles' });
+    expect(calculateDavisonChart(tokyo, losAngeles).birthInfo.location.longitude).toBeCloseTo(-169.2967, 3);
+  });
+});
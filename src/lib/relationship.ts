@@ -0,0 +1,128 @@
+import {
+  anglesFromRamc,
+  angularDifference,
+  calculateAngles,
+  calculatePlanetPositions,
+  eclipticToRightAscension,
+  julianDay,
+  normalizeDegrees,
+  obliquityOfEcliptic,
+  toUtcDateTime,
+  type ChartAngles
+} from '@/lib/ephemeris';
+import { calculateHouseCusps } from '@/lib/houses';
+import { assembleReading } from '@/lib/chart';
+import { describeInstant, lookupTimeZone } from '@/lib/timezone';
+import { calculateExtraPoints, extraPointsOf } from '@/lib/points';
+import { toTropicalLongitude, zodiacSettingsOf } from '@/lib/sidereal';
+import { toPlanetPosition } from '@/lib/zodiac';
+import type { AstrologyReading, BirthInfo, PlanetPosition, RelationshipChartMethod } from '@/types/astrology';
+
+export const RELATIONSHIP_CHART_METHODS: RelationshipChartMethod[] = ['composite', 'davison'];
+
+export function isRelationshipChartMethod(value: unknown): value is RelationshipChartMethod {
+  return typeof value === 'string' && (RELATIONSHIP_CHART_METHODS as string[]).includes(value);
+}
+
+// Midpoint on the shorter arc between two longitudes
+export function midpointLongitude(a: number, b: number): number {
+  return normalizeDegrees(a + angularDifference(a, b) / 2);
+}
+
+interface RelationshipFrame {
+  jd: number; // Midpoint in time of the two births
+  location: BirthInfo['location']; // Midpoint in space of the two birthplaces
+  birthInfo: BirthInfo;
+  timezone: AstrologyReading['timezone'];
+}
+
+// The time/space midpoint both methods share: Davison casts a chart for it, composites borrow its latitude and clock
+function relationshipFrame(reading1: AstrologyReading, reading2: AstrologyReading): RelationshipFrame {
+  const jd1 = julianDay(reading1.timezone.utcDate, reading1.timezone.utcTime);
+  const jd2 = julianDay(reading2.timezone.utcDate, reading2.timezone.utcTime);
+  const jd = (jd1 + jd2) / 2;
+
+  const place1 = reading1.birthInfo.location;
+  const place2 = reading2.birthInfo.location;
+  const latitude = (place1.latitude + place2.latitude) / 2;
+  const longitude = normalizeDegrees(midpointLongitude(place1.longitude + 180, place2.longitude + 180)) - 180;
+
+  const [utcDate, utcTime] = toUtcDateTime(jd).replace('Z', '').split('T');
+  const timezone = describeInstant(lookupTimeZone(latitude, longitude), utcDate, utcTime);
+  const name1 = reading1.birthInfo.name || 'Person 1';
+  const name2 = reading2.birthInfo.name || 'Person 2';
+  const location = { name: `Midpoint of ${place1.name} and ${place2.name}`, latitude, longitude };
+
+  return {
+    jd,
+    location,
+    birthInfo: { name: `${name1} & ${name2}`, date: timezone.localDate, time: timezone.localTime, location },
+    timezone
+  };
+}
+
+// Midpoint composite: every planet and the MC at the midpoint of the pair, houses derived from the composite MC
+export function calculateCompositeChart(reading1: AstrologyReading, reading2: AstrologyReading): AstrologyReading {
+  const frame = relationshipFrame(reading1, reading2);
+
+  // Midpoints are taken in the tropical frame, so sidereal charts are shifted back first
+  const planets: PlanetPosition[] = reading1.planets.flatMap(planet1 => {
+    const planet2 = reading2.planets.find(p => p.name === planet1.name);
+    if (!planet2) return [];
+    return [toPlanetPosition({
+      name: planet1.name,
+      longitude: midpointLongitude(toTropicalLongitude(planet1.longitude, reading1), toTropicalLongitude(planet2.longitude, reading2)),
+      speed: (planet1.speed + planet2.speed) / 2
+    })];
+  });
+
+  const obliquity = obliquityOfEcliptic(frame.jd);
+  const midheaven = midpointLongitude(toTropicalLongitude(reading1.midheaven, reading1), toTropicalLongitude(reading2.midheaven, reading2));
+  const angles: ChartAngles = anglesFromRamc(eclipticToRightAscension(midheaven, obliquity), obliquity, frame.location.latitude);
+
+  return assembleReading({
+    planets,
+    ascendant: angles.ascendant,
+    midheaven: angles.midheaven,
+    houses: calculateHouseCusps(reading1.requestedHouseSystem || reading1.houseSystem, angles, frame.location.latitude),
+    aspectProfile: reading1.aspectProfile,
+    aspectTiming: null, // Midpoints of two fixed charts never move
+    zodiac: zodiacSettingsOf(reading1),
+    birthInfo: frame.birthInfo,
+    timezone: frame.timezone,
+    chartType: 'composite',
+    chartLabel: `Composite Chart: ${frame.birthInfo.name}`
+  });
+}
+
+// Davison: a real chart cast for the midpoint in time and space of the two births
+export function calculateDavisonChart(reading1: AstrologyReading, reading2: AstrologyReading): AstrologyReading {
+  const frame = relationshipFrame(reading1, reading2);
+  const angles = calculateAngles(frame.jd, frame.location.latitude, frame.location.longitude);
+
+  return assembleReading({
+    planets: [
+      ...calculatePlanetPositions(frame.jd),
+      ...calculateExtraPoints(extraPointsOf(reading1), frame.jd, frame.location.latitude, frame.location.longitude)
+    ].map(toPlanetPosition),
+    ascendant: angles.ascendant,
+    midheaven: angles.midheaven,
+    houses: calculateHouseCusps(reading1.requestedHouseSystem || reading1.houseSystem, angles, frame.location.latitude),
+    aspectProfile: reading1.aspectProfile,
+    zodiac: zodiacSettingsOf(reading1),
+    birthInfo: frame.birthInfo,
+    timezone: frame.timezone,
+    chartType: 'davison',
+    chartLabel: `Davison Chart: ${frame.birthInfo.name}`
+  });
+}
+
+export function calculateRelationshipChart(
+  method: RelationshipChartMethod,
+  reading1: AstrologyReading,
+  reading2: AstrologyReading
+): AstrologyReading {
+  return method === 'composite'
+    ? calculateCompositeChart(reading1, reading2)
+    : calculateDavisonChart(reading1, reading2);
+}
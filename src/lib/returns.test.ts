@@ -0,0 +1,71 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { calculateNatalChart } from '@/lib/chart';
+import { angularDifference, calculateBodyPosition, julianDay } from '@/lib/ephemeris';
+import { calculateReturn, validateReturnPeriod } from '@/lib/returns';
+import type { AstrologyReading } from '@/types/astrology';
+
+const LONDON = { name: 'London', latitude: 51.5074, longitude: -0.1278 };
+const NEW_YORK = { name: 'New York', latitude: 40.7128, longitude: -74.006 };
+
+function bodyAt(body: 'Sun' | 'Moon', isoDate: string): number {
+  const [date, time] = isoDate.replace('Z', '').split('T');
+  return calculateBodyPosition(body, julianDay(date, time)).longitude;
+}
+
+describe('validateReturnPeriod', () => {
+  it('accepts years and months inside the ephemeris range', () => {
+    expect(validateReturnPeriod('solar', '2027')).toBeNull();
+    expect(validateReturnPeriod('lunar', '2027-12')).toBeNull();
+    expect(validateReturnPeriod('solar', '1800')).toBeNull();
+    expect(validateReturnPeriod('lunar', '2100-01')).toBeNull();
+  });
+
+  it('rejects malformed periods and months outside 1 to 12', () => {
+    expect(validateReturnPeriod('solar', '27')).toMatch(/Invalid year/);
+    expect(validateReturnPeriod('solar', '2027-03')).toMatch(/Invalid year/);
+    expect(validateReturnPeriod('lunar', '2027')).toMatch(/Invalid month/);
+    expect(validateReturnPeriod('lunar', '2027-00')).toMatch(/Invalid month/);
+    expect(validateReturnPeriod('lunar', '2027-13')).toMatch(/Invalid month/);
+  });
+
+  it('rejects years outside 1800 to 2100', () => {
+    expect(validateReturnPeriod('solar', '1799')).toMatch(/1800 to 2100/);
+    expect(validateReturnPeriod('lunar', '2101-01')).toMatch(/1800 to 2100/);
+  });
+});
+
+describe('calculateReturn', () => {
+  let natal: AstrologyReading;
+  beforeAll(async () => {
+    natal = await calculateNatalChart({ date: '1990-06-15', time: '14:30', location: LONDON, timeZone: 'Europe/London' });
+  });
+
+  it('solves the solar return to the moment the Sun regains its natal degree', () => {
+    const result = calculateReturn(natal, 'solar', '2027');
+    expect(result.exactDate.slice(0, 7)).toBe('2027-06');
+    expect(Math.abs(angularDifference(natal.sun.longitude, bodyAt('Sun', result.exactDate)))).toBeLessThan(1e-3);
+    expect(result.reading.chartType).toBe('solar-return');
+  });
+
+  it('takes the first lunar return in the month', () => {
+    const result = calculateReturn(natal, 'lunar', '2027-03');
+    expect(result.exactDate.slice(0, 7)).toBe('2027-03');
+    // The Moon moves about half a degree an hour, so a second out is well under this
+    expect(Math.abs(angularDifference(natal.moon.longitude, bodyAt('Moon', result.exactDate)))).toBeLessThan(0.01);
+    // A month after the return would be the next one, so the return sits in the month's first 28 days
+    expect(Number(result.exactDate.slice(8, 10))).toBeLessThanOrEqual(28);
+  });
+
+  it('relocates the angles but not the moment', () => {
+    const home = calculateReturn(natal, 'solar', '2027');
+    const relocated = calculateReturn(natal, 'solar', '2027', NEW_YORK);
+    expect(relocated.exactDate).toBe(home.exactDate);
+    expect(relocated.relocated).toBe(true);
+    expect(relocated.reading.timezone.zone).toBe('America/New_York');
+    expect(Math.abs(angularDifference(home.reading.ascendant, relocated.reading.ascendant))).toBeGreaterThan(10);
+  });
+
+  it('rejects periods that cannot be searched', () => {
+    expect(() => calculateReturn(natal, 'lunar', '2027-13')).toThrow('Invalid month');
+  });
+});
@@ -0,0 +1,135 @@
+import { angularDifference, calculateAngles, calculateBodyPosition, calculatePlanetPositions, julianDay, toUtcDateTime } from '@/lib/ephemeris';
+import { calculateHouseCusps, calculateHousePosition } from '@/lib/houses';
+import { assembleReading } from '@/lib/chart';
+import { describeInstant, lookupTimeZone } from '@/lib/timezone';
+import { findLongitudeCrossings } from '@/lib/transits';
+import { calculateExtraPoints, extraPointsOf } from '@/lib/points';
+import { toZodiacLongitude, zodiacOffset, zodiacSettingsOf } from '@/lib/sidereal';
+import { toPlanetPosition } from '@/lib/zodiac';
+import type { AstrologyReading, BirthInfo, ReturnHouseComparison, ReturnKind, ReturnResult } from '@/types/astrology';
+
+export const RETURN_KINDS: ReturnKind[] = ['solar', 'lunar'];
+
+const SOLAR_SEARCH_DAYS = 4; // The Sun is back within a couple of days of the calendar birthday
+const SEARCH_STEP_DAYS = 0.5;
+const MIN_RETURN_YEAR = 1800;
+const MAX_RETURN_YEAR = 2100;
+
+export function isReturnKind(value: unknown): value is ReturnKind {
+  return typeof value === 'string' && (RETURN_KINDS as string[]).includes(value);
+}
+
+// Reason the period cannot be searched, or null for a year ('2027') or month ('2027-03') inside the ephemeris range
+export function validateReturnPeriod(kind: ReturnKind, period: string): string | null {
+  const match = kind === 'solar' ? /^(\d{4})$/.exec(period) : /^(\d{4})-(\d{2})$/.exec(period);
+  if (!match || (kind === 'lunar' && (Number(match[2]) < 1 || Number(match[2]) > 12))) {
+    return kind === 'solar' ? `Invalid year: ${period}. Use YYYY` : `Invalid month: ${period}. Use YYYY-MM`;
+  }
+
+  const year = Number(match[1]);
+  if (year < MIN_RETURN_YEAR || year > MAX_RETURN_YEAR) {
+    return `Year out of range: ${year}. Returns can be cast for ${MIN_RETURN_YEAR} to ${MAX_RETURN_YEAR}`;
+  }
+  return null;
+}
+
+// Polish a bracketed crossing to well under a second, since the angles move a degree every four minutes
+function refineReturn(longitudeAt: (jd: number) => number, speedAt: (jd: number) => number, target: number, jd: number): number {
+  for (let i = 0; i < 3; i++) {
+    jd += angularDifference(longitudeAt(jd), target) / speedAt(jd);
+  }
+  return jd;
+}
+
+// Sidereal returns are to the natal degree in the sidereal zodiac, which slowly drifts against the tropical one
+function findReturnMoment(kind: ReturnKind, natal: AstrologyReading, period: string): number {
+  const body = kind === 'solar' ? 'Sun' : 'Moon';
+  const target = kind === 'solar' ? natal.sun.longitude : natal.moon.longitude;
+  const longitudeAt = (jd: number) => toZodiacLongitude(calculateBodyPosition(body, jd).longitude, zodiacOffset(natal.zodiac, jd));
+  const speedAt = (jd: number) => calculateBodyPosition(body, jd).speed;
+
+  let startJd: number;
+  let endJd: number;
+  const periodError = validateReturnPeriod(kind, period);
+  if (periodError) {
+    throw new Error(periodError);
+  }
+
+  if (kind === 'solar') {
+    const birthday = julianDay(`${period}-${natal.timezone.utcDate.slice(5)}`, natal.timezone.utcTime);
+    startJd = birthday - SOLAR_SEARCH_DAYS;
+    endJd = birthday + SOLAR_SEARCH_DAYS;
+  } else {
+    const [year, month] = period.split('-').map(Number);
+    const next = month === 12 ? `${year + 1}-01` : `${year}-${(month + 1).toString().padStart(2, '0')}`;
+    startJd = julianDay(`${period}-01`, '00:00:00');
+    endJd = julianDay(`${next}-01`, '00:00:00');
+  }
+
+  // A month can hold two lunar returns; the first one is the return for that month
+  const [hit] = findLongitudeCrossings(longitudeAt, target, startJd, endJd, SEARCH_STEP_DAYS);
+  if (hit === undefined) {
+    throw new Error(`No ${kind} return found for ${period}`);
+  }
+  return refineReturn(longitudeAt, speedAt, target, hit);
+}
+
+// Where the return chart's angles, cusps and planets fall among the natal houses
+function compareHouses(returnReading: AstrologyReading, natal: AstrologyReading): ReturnHouseComparison {
+  return {
+    ascendantInNatalHouse: calculateHousePosition(returnReading.ascendant, natal.houseCusps),
+    midheavenInNatalHouse: calculateHousePosition(returnReading.midheaven, natal.houseCusps),
+    cusps: returnReading.houses.map(house => ({
+      house: house.number,
+      sign: house.sign,
+      degree: house.degree,
+      natalHouse: calculateHousePosition(house.cusp, natal.houseCusps)
+    })),
+    planets: returnReading.planets.map(planet => ({
+      name: planet.name,
+      returnHouse: calculateHousePosition(planet.longitude, returnReading.houseCusps),
+      natalHouse: calculateHousePosition(planet.longitude, natal.houseCusps)
+    }))
+  };
+}
+
+// Solar return for a year ('2027') or lunar return for a month ('2027-03'), optionally relocated
+export function calculateReturn(
+  natal: AstrologyReading,
+  kind: ReturnKind,
+  period: string,
+  location?: BirthInfo['location']
+): ReturnResult {
+  const jd = findReturnMoment(kind, natal, period);
+  const [utcDate, utcTime] = toUtcDateTime(jd).replace('Z', '').split('T');
+
+  const place = location || natal.birthInfo.location;
+  const zone = location ? lookupTimeZone(location.latitude, location.longitude) : natal.timezone.zone;
+  const angles = calculateAngles(jd, place.latitude, place.longitude);
+  const houses = calculateHouseCusps(natal.requestedHouseSystem || natal.houseSystem, angles, place.latitude);
+
+  const reading = assembleReading({
+    planets: [
+      ...calculatePlanetPositions(jd),
+      ...calculateExtraPoints(extraPointsOf(natal), jd, place.latitude, place.longitude)
+    ].map(toPlanetPosition),
+    ascendant: angles.ascendant,
+    midheaven: angles.midheaven,
+    houses,
+    aspectProfile: natal.aspectProfile,
+    zodiac: zodiacSettingsOf(natal),
+    birthInfo: { ...natal.birthInfo, location: place },
+    timezone: describeInstant(zone, utcDate, utcTime),
+    chartType: kind === 'solar' ? 'solar-return' : 'lunar-return',
+    chartLabel: `${kind === 'solar' ? 'Solar' : 'Lunar'} Return ${period}`
+  });
+
+  return {
+    kind,
+    period,
+    exactDate: toUtcDateTime(jd),
+    relocated: !!location,
+    reading,
+    houseComparison: compareHouses(reading, natal)
+  };
+}
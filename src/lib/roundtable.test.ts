@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { buildConversationHistory, planDebate } from '@/lib/roundtable';
+import type { Aspect, ChatMessage } from '@/types/astrology';
+
+function aspect(planet1: string, planet2: string, name: string, orb: number, applying?: boolean): Aspect {
+  return { planet1, planet2, aspect: name, orb, exactDegrees: 0, ...(applying !== undefined && { applying }) };
+}
+
+function message(character: ChatMessage['character'], content: string, owner?: string): ChatMessage {
+  return { id: `${character}-${content}`, character, content, timestamp: new Date(0), ...(owner && { owner }) };
+}
+
+describe('planDebate', () => {
+  const SPEAKERS = ['Sun', 'Moon', 'Mars', 'Venus'];
+
+  it('has whoever the last speaker aspects answer them, with the stance of the aspect', () => {
+    const plan = planDebate([
+      aspect('Moon', 'Venus', 'Opposition', 3),
+      aspect('Sun', 'Mars', 'Square', 1),
+      aspect('Sun', 'Moon', 'Trine', 2)
+    ], SPEAKERS, 3);
+
+    expect(plan).toEqual([[
+      { speaker: 'Sun', replyTo: 'Mars', aspect: 'Square', orb: 1, stance: 'argue' },
+      { speaker: 'Moon', replyTo: 'Sun', aspect: 'Trine', orb: 2, stance: 'agree' },
+      { speaker: 'Venus', replyTo: 'Moon', aspect: 'Opposition', orb: 3, stance: 'debate' }
+    ]]);
+  });
+
+  it('skips aspects without a stance and planets that are not at the table', () => {
+    expect(planDebate([
+      aspect('Sun', 'Mars', 'Quincunx', 0.1),
+      aspect('Saturn', 'Sun', 'Conjunction', 0.5),
+      aspect('Venus', 'Mars', 'Conjunction', 4)
+    ], SPEAKERS, 1)).toEqual([[{ speaker: 'Venus', replyTo: 'Mars', aspect: 'Conjunction', orb: 4, stance: 'amplify' }]]);
+    expect(planDebate([aspect('Sun', 'Mars', 'Quincunx', 1)], SPEAKERS, 3)).toEqual([]);
+  });
+
+  it('opens with the strongest aspect, applying ones first', () => {
+    const [[first]] = planDebate([aspect('Sun', 'Mars', 'Square', 1, false), aspect('Moon', 'Venus', 'Trine', 1, true)], SPEAKERS, 1);
+    expect(first).toMatchObject({ speaker: 'Moon', replyTo: 'Venus' });
+  });
+
+  it('carries a long thread into the next round and stops at the rounds asked for', () => {
+    const planets = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus'];
+    const chain = planets.slice(1).map((planet, index) => aspect(planets[index], planet, 'Square', index + 1));
+
+    const plan = planDebate(chain, planets, 3);
+    expect(plan.map(round => round.map(turn => turn.speaker))).toEqual([
+      ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter'],
+      ['Saturn']
+    ]);
+    expect(plan[1][0].replyTo).toBe('Uranus');
+    expect(planDebate(chain, planets, 1)).toHaveLength(1);
+  });
+
+  it('lets each pair speak across their aspect once in the whole debate', () => {
+    const plan = planDebate([aspect('Sun', 'Mars', 'Square', 1), aspect('Sun', 'Moon', 'Trine', 2)], SPEAKERS, 3).flat();
+    const pairs = plan.map(turn => [turn.speaker, turn.replyTo].sort().join('|'));
+    expect(new Set(pairs).size).toBe(pairs.length);
+  });
+});
+
+describe('buildConversationHistory', () => {
+  const nameOf = (entry: ChatMessage) => entry.character === 'northNode' ? 'North Node' : `${entry.owner ?? ''}${entry.character}`;
+
+  it('gives the speaker its own lines and names everyone else', () => {
+    const history = buildConversationHistory([
+      message('user', 'Should I move?'),
+      message('mars', 'Go now.'),
+      message('venus', 'Wait for spring.'),
+      message('northNode', 'Neither of you sees the path.')
+    ], { character: 'mars' }, nameOf, 6);
+
+    expect(history).toEqual([
+      { role: 'user', content: 'Should I move?' },
+      { role: 'assistant', content: 'Go now.' },
+      { role: 'user', name: 'venus', content: '[venus] Wait for spring.' },
+      { role: 'user', name: 'North_Node', content: '[North Node] Neither of you sees the path.' }
+    ]);
+  });
+
+  it('tells the same planet in two charts apart', () => {
+    const history = buildConversationHistory([message('mars', 'Mine.', 'A'), message('mars', 'Yours.', 'B')], { character: 'mars', owner: 'A' }, nameOf, 6);
+    expect(history.map(entry => entry.role)).toEqual(['assistant', 'user']);
+    expect(history[1]).toMatchObject({ name: 'Bmars', content: '[Bmars] Yours.' });
+  });
+
+  it('keeps only the latest messages', () => {
+    const messages = ['one', 'two', 'three'].map(content => message('user', content));
+    expect(buildConversationHistory(messages, { character: 'sun' }, nameOf, 2).map(entry => entry.content)).toEqual(['two', 'three']);
+  });
+});
@@ -0,0 +1,104 @@
+import { byAspectWeight } from '@/lib/aspects';
+import type { Aspect, ChatMessage, DebateStance, DebateTurn } from '@/types/astrology';
+
+export const MAX_DEBATE_ROUNDS = 3;
+// Each planet speaks at most once a round; this keeps a round short even in a busy chart
+const MAX_TURNS_PER_ROUND = 6;
+
+// Messages a speaker is shown; in a debate it needs more of the thread to answer what was said
+export const HISTORY_LIMIT = 6;
+export const DEBATE_HISTORY_LIMIT = 12;
+
+// Squares argue, trines agree, oppositions debate; aspects not listed here do not give anyone the floor
+export const ASPECT_STANCES: Partial<Record<string, DebateStance>> = {
+  'Conjunction': 'amplify',
+  'Opposition': 'debate',
+  'Square': 'argue',
+  'Trine': 'agree',
+  'Sextile': 'agree'
+};
+
+export const STANCE_INSTRUCTIONS: Record<DebateStance, string> = {
+  argue: 'You clash with them: push back on their point and say plainly what they are missing.',
+  debate: 'You pull the other way: weigh their view against yours and argue for where the balance should sit.',
+  agree: 'You flow with them: back their point and add what they left out.',
+  amplify: 'You are fused with them: take their point further in your own voice.'
+};
+
+export const STANCE_VERBS: Record<DebateStance, string> = {
+  argue: 'argues with',
+  debate: 'debates',
+  agree: 'agrees with',
+  amplify: 'builds on'
+};
+
+export interface HistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  name?: string;
+}
+
+function pairKey(a: string, b: string): string {
+  return [a, b].sort().join('|');
+}
+
+// Moderator's running order: whoever the last speaker aspects answers them, and when nobody does the strongest open
+// aspect starts a new thread. Each pair of planets speaks across their aspect once in the whole debate.
+export function planDebate(aspects: Aspect[], speakers: string[], rounds: number): DebateTurn[][] {
+  const usable = aspects
+    .filter(aspect => ASPECT_STANCES[aspect.aspect] && speakers.includes(aspect.planet1) && speakers.includes(aspect.planet2))
+    .sort(byAspectWeight);
+  const used = new Set<string>();
+  const plan: DebateTurn[][] = [];
+  let last: string | null = null;
+
+  for (let round = 0; round < rounds; round++) {
+    const spoken = new Set<string>();
+    const turns: DebateTurn[] = [];
+
+    while (turns.length < MAX_TURNS_PER_ROUND) {
+      const previous: string | null = last;
+      const open = usable.filter(aspect => !used.has(pairKey(aspect.planet1, aspect.planet2)));
+      const reply = open.find(aspect =>
+        (aspect.planet1 === previous && !spoken.has(aspect.planet2)) || (aspect.planet2 === previous && !spoken.has(aspect.planet1))
+      );
+      const next = reply || open.find(aspect => !spoken.has(aspect.planet1) || !spoken.has(aspect.planet2));
+      if (!next) break;
+
+      const speaker: string = reply
+        ? (next.planet1 === previous ? next.planet2 : next.planet1)
+        : (spoken.has(next.planet1) ? next.planet2 : next.planet1);
+      const replyTo = speaker === next.planet1 ? next.planet2 : next.planet1;
+
+      turns.push({ speaker, replyTo, aspect: next.aspect, orb: next.orb, stance: ASPECT_STANCES[next.aspect]! });
+      used.add(pairKey(next.planet1, next.planet2));
+      spoken.add(speaker);
+      last = speaker;
+    }
+
+    if (turns.length === 0) break;
+    plan.push(turns);
+  }
+  return plan;
+}
+
+// The thread as one character sees it: its own lines are the assistant's, everyone else's arrive named, so a planet
+// can tell who it is answering
+export function buildConversationHistory(
+  messages: ChatMessage[],
+  self: Pick<ChatMessage, 'character' | 'owner'>,
+  nameOf: (message: ChatMessage) => string,
+  limit: number
+): HistoryMessage[] {
+  return messages.slice(-limit).map(message => {
+    if (message.character === 'user') {
+      return { role: 'user', content: message.content };
+    }
+    if (message.character === self.character && message.owner === self.owner) {
+      return { role: 'assistant', content: message.content };
+    }
+    const name = nameOf(message);
+    // Providers only accept plain identifiers as message names
+    return { role: 'user', name: name.replace(/[^A-Za-z0-9_-]/g, '_'), content: `[${name}] ${message.content}` };
+  });
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { calculateNatalChart } from '@/lib/chart';
+import { julianDay } from '@/lib/ephemeris';
+import {
+  calculateAyanamsa,
+  formatAyanamsa,
+  resolveZodiac,
+  toTropicalLongitude,
+  toZodiacLongitude,
+  validateZodiac,
+  zodiacOffset,
+  zodiacSettingsOf
+} from '@/lib/sidereal';
+
+const J2000 = 2451545;
+const LONDON = { name: 'London', latitude: 51.5074, longitude: -0.1278 };
+
+describe('calculateAyanamsa', () => {
+  it('starts from the J2000 value and grows by about 50" a year', () => {
+    expect(calculateAyanamsa('lahiri', J2000)).toBeCloseTo(23.857092, 9);
+    // Lahiri stood at about 24°11' at the start of 2024
+    expect(calculateAyanamsa('lahiri', julianDay('2024-01-01', '00:00:00'))).toBeCloseTo(24.19, 2);
+    const perYear = calculateAyanamsa('lahiri', J2000 + 365.25) - calculateAyanamsa('lahiri', J2000);
+    expect(perYear * 3600).toBeCloseTo(50.29, 1);
+  });
+
+  it('keeps the ayanamsas apart by their fixed offsets', () => {
+    const jd = julianDay('1990-06-15', '12:00:00');
+    expect(calculateAyanamsa('fagan-bradley', jd) - calculateAyanamsa('lahiri', jd)).toBeCloseTo(24.7403 - 23.857092, 9);
+  });
+
+  it('formats the value in degrees, minutes and seconds', () => {
+    expect(formatAyanamsa(23.857092)).toBe('23°51\'26"');
+    // Rounding to the second carries into the minutes and degrees
+    expect(formatAyanamsa(23.99999)).toBe('24°00\'00"');
+  });
+});
+
+describe('zodiac settings', () => {
+  it('validates the zodiac and ayanamsa together', () => {
+    expect(validateZodiac(undefined, undefined)).toBeNull();
+    expect(validateZodiac('sidereal', 'raman')).toBeNull();
+    expect(validateZodiac('draconic', undefined)).toMatch(/^Unsupported zodiac: draconic/);
+    expect(validateZodiac('sidereal', 'yukteswar')).toMatch(/^Unsupported ayanamsa: yukteswar/);
+    expect(validateZodiac('tropical', 'lahiri')).toBe('An ayanamsa only applies to the sidereal zodiac');
+  });
+
+  it('defaults the sidereal zodiac to Lahiri and offsets only sidereal charts', () => {
+    expect(resolveZodiac('sidereal')).toEqual({ type: 'sidereal', ayanamsa: 'lahiri' });
+    expect(zodiacOffset(resolveZodiac(), J2000)).toBe(0);
+    expect(zodiacOffset(resolveZodiac('sidereal', 'raman'), J2000)).toBeCloseTo(22.410791, 9);
+  });
+
+  it('converts between a reading\'s zodiac and the tropical frame', () => {
+    const reading = { zodiac: { type: 'sidereal' as const, ayanamsa: 'lahiri' as const, ayanamsaValue: 24 } };
+    expect(toZodiacLongitude(10, 24)).toBe(346);
+    expect(toTropicalLongitude(346, reading)).toBe(10);
+    expect(toTropicalLongitude(346, { zodiac: { type: 'tropical' } })).toBe(346);
+    expect(zodiacSettingsOf(reading)).toEqual({ type: 'sidereal', ayanamsa: 'lahiri' });
+  });
+});
+
+describe('sidereal charts', () => {
+  it('shifts planets, angles and cusps back by the ayanamsa', async () => {
+    const request = { date: '1990-06-15', time: '14:30', location: LONDON, timeZone: 'Europe/London' };
+    const tropical = await calculateNatalChart(request);
+    const sidereal = await calculateNatalChart({ ...request, zodiac: 'sidereal', ayanamsa: 'fagan-bradley' });
+    const offset = sidereal.zodiac!.ayanamsaValue!;
+
+    expect(sidereal.zodiac).toMatchObject({ type: 'sidereal', ayanamsa: 'fagan-bradley' });
+    expect(offset).toBeCloseTo(calculateAyanamsa('fagan-bradley', julianDay('1990-06-15', '13:30:00')), 9);
+    expect(sidereal.sun.longitude).toBeCloseTo(toZodiacLongitude(tropical.sun.longitude, offset), 9);
+    expect(sidereal.ascendant).toBeCloseTo(toZodiacLongitude(tropical.ascendant, offset), 9);
+    expect(sidereal.houseCusps[3]).toBeCloseTo(toZodiacLongitude(tropical.houseCusps[3], offset), 9);
+  });
+});
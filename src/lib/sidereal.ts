@@ -0,0 +1,84 @@
+import { normalizeDegrees } from '@/lib/ephemeris';
+import type { AstrologyReading, Ayanamsa, ZodiacSettings, ZodiacType } from '@/types/astrology';
+
+export const ZODIAC_TYPES: ZodiacType[] = ['tropical', 'sidereal'];
+export const AYANAMSAS: Ayanamsa[] = ['lahiri', 'raman', 'krishnamurti', 'fagan-bradley'];
+export const DEFAULT_AYANAMSA: Ayanamsa = 'lahiri';
+
+export const AYANAMSA_NAMES: Record<Ayanamsa, string> = {
+  'lahiri': 'Lahiri',
+  'raman': 'Raman',
+  'krishnamurti': 'Krishnamurti',
+  'fagan-bradley': 'Fagan-Bradley'
+};
+
+// Distance of the tropical from the sidereal zodiac at J2000, in degrees
+const AYANAMSA_AT_J2000: Record<Ayanamsa, number> = {
+  'lahiri': 23.857092,
+  'raman': 22.410791,
+  'krishnamurti': 23.76024,
+  'fagan-bradley': 24.7403
+};
+
+export const TROPICAL_ZODIAC: ZodiacSettings = { type: 'tropical' };
+
+export function isZodiacType(value: unknown): value is ZodiacType {
+  return typeof value === 'string' && (ZODIAC_TYPES as string[]).includes(value);
+}
+
+export function isAyanamsa(value: unknown): value is Ayanamsa {
+  return typeof value === 'string' && (AYANAMSAS as string[]).includes(value);
+}
+
+// Reason the zodiac options cannot be used, or null when they are fine
+export function validateZodiac(zodiac: unknown, ayanamsa: unknown): string | null {
+  if (zodiac !== undefined && !isZodiacType(zodiac)) {
+    return `Unsupported zodiac: ${zodiac}. Use one of: ${ZODIAC_TYPES.join(', ')}`;
+  }
+  if (ayanamsa !== undefined && !isAyanamsa(ayanamsa)) {
+    return `Unsupported ayanamsa: ${ayanamsa}. Use one of: ${AYANAMSAS.join(', ')}`;
+  }
+  if (ayanamsa !== undefined && zodiac !== 'sidereal') {
+    return 'An ayanamsa only applies to the sidereal zodiac';
+  }
+  return null;
+}
+
+export function resolveZodiac(zodiac: ZodiacType = 'tropical', ayanamsa: Ayanamsa = DEFAULT_AYANAMSA): ZodiacSettings {
+  return zodiac === 'sidereal' ? { type: 'sidereal', ayanamsa } : TROPICAL_ZODIAC;
+}
+
+// The ayanamsa grows with general precession in longitude (IAU 2006)
+export function calculateAyanamsa(ayanamsa: Ayanamsa, jd: number): number {
+  const t = (jd - 2451545) / 36525;
+  return AYANAMSA_AT_J2000[ayanamsa] + (5028.796195 * t + 1.1054348 * t * t) / 3600;
+}
+
+// Degrees to subtract from a tropical longitude to place it in the zodiac; zero for the tropical one
+export function zodiacOffset(zodiac: ZodiacSettings | undefined, jd: number): number {
+  return zodiac?.type === 'sidereal' ? calculateAyanamsa(zodiac.ayanamsa || DEFAULT_AYANAMSA, jd) : 0;
+}
+
+export function toZodiacLongitude(tropicalLongitude: number, offset: number): number {
+  return normalizeDegrees(tropicalLongitude - offset);
+}
+
+// A reading's own longitudes back in the tropical frame the ephemeris works in
+export function toTropicalLongitude(longitude: number, reading: Pick<AstrologyReading, 'zodiac'>): number {
+  return normalizeDegrees(longitude + (reading.zodiac?.ayanamsaValue ?? 0));
+}
+
+// Settings a derived chart is cast with, without the natal chart's ayanamsa value
+export function zodiacSettingsOf(reading: Pick<AstrologyReading, 'zodiac'>): ZodiacSettings {
+  const { zodiac } = reading;
+  return zodiac?.type === 'sidereal' ? { type: 'sidereal', ayanamsa: zodiac.ayanamsa } : TROPICAL_ZODIAC;
+}
+
+// Degrees, minutes and seconds, e.g. 23°51'25"
+export function formatAyanamsa(value: number): string {
+  const totalSeconds = Math.round(value * 3600);
+  const degrees = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${degrees}°${minutes.toString().padStart(2, '0')}'${seconds.toString().padStart(2, '0')}"`;
+}
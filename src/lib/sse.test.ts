@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from 'vitest';
+import { formatServerSentEvent, readServerSentEvents } from '@/lib/sse';
+
+function streamOf(chunks: Array<string | Uint8Array>, cancel?: () => void): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+      if (!cancel) controller.close();
+    },
+    cancel
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<string[]> {
+  const events: string[] = [];
+  for await (const data of readServerSentEvents(body)) events.push(data);
+  return events;
+}
+
+describe('formatServerSentEvent', () => {
+  it('writes one JSON data line and a blank line', () => {
+    expect(formatServerSentEvent({ delta: 'Hi\n' })).toBe('data: {"delta":"Hi\\n"}\n\n');
+  });
+
+  it('reads back what it writes', async () => {
+    const payloads = [{ delta: 'one' }, { done: true }];
+    expect(await collect(streamOf(payloads.map(formatServerSentEvent)))).toEqual(payloads.map(payload => JSON.stringify(payload)));
+  });
+});
+
+describe('readServerSentEvents', () => {
+  it('joins events split across chunks', async () => {
+    expect(await collect(streamOf(['data: {"a"', ':1}\n', '\ndata: [DONE]\n\n']))).toEqual(['{"a":1}', '[DONE]']);
+  });
+
+  it('accepts CRLF line endings and multi-line data', async () => {
+    expect(await collect(streamOf(['data: first\r\ndata: second\r\n\r\n']))).toEqual(['first\nsecond']);
+  });
+
+  it('skips comments and fields other than data', async () => {
+    expect(await collect(streamOf([': OPENROUTER PROCESSING\n\n', 'event: message\nid: 7\ndata:x\n\n']))).toEqual(['x']);
+  });
+
+  it('decodes characters split between chunks', async () => {
+    const bytes = new TextEncoder().encode('data: ♄\n\n');
+    expect(await collect(streamOf([bytes.slice(0, 7), bytes.slice(7)]))).toEqual(['♄']);
+  });
+
+  it('cancels the stream when the reader stops early', async () => {
+    const cancel = vi.fn();
+    for await (const data of readServerSentEvents(streamOf(['data: one\n\n', 'data: two\n\n'], cancel))) {
+      expect(data).toBe('one');
+      break;
+    }
+    expect(cancel).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,66 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { calculateNatalChart } from '@/lib/chart';
+import { calculateHousePosition } from '@/lib/houses';
+import { calculateHouseOverlays, calculateInterAspects, calculateSynastry, getPartnerContacts } from '@/lib/synastry';
+import type { AstrologyReading } from '@/types/astrology';
+
+const LONDON = { name: 'London', latitude: 51.5074, longitude: -0.1278 };
+const PARIS = { name: 'Paris', latitude: 48.8566, longitude: 2.3522 };
+
+describe('synastry', () => {
+  let alice: AstrologyReading;
+  let bob: AstrologyReading;
+  beforeAll(async () => {
+    alice = await calculateNatalChart({ name: 'Alice', date: '1990-06-15', time: '14:30', location: LONDON, timeZone: 'Europe/London' });
+    bob = await calculateNatalChart({ name: 'Bob', date: '1988-11-02', time: '07:15', location: PARIS, timeZone: 'Europe/Paris' });
+  });
+
+  it('lists aspects from the first chart to the second, tightest first, angles included', () => {
+    const aspects = calculateInterAspects(alice, bob);
+    const points = (reading: AstrologyReading) => [...reading.planets.map(planet => planet.name), 'Ascendant', 'Midheaven'];
+
+    expect(aspects.length).toBeGreaterThan(0);
+    expect(aspects.every(aspect => points(alice).includes(aspect.planet1) && points(bob).includes(aspect.planet2))).toBe(true);
+    const orbs = aspects.map(aspect => aspect.orb);
+    expect(orbs).toEqual([...orbs].sort((a, b) => a - b));
+  });
+
+  it('compares a sidereal chart in the tropical zodiac', async () => {
+    const siderealBob = await calculateNatalChart({
+      name: 'Bob', date: '1988-11-02', time: '07:15', location: PARIS, timeZone: 'Europe/Paris', zodiac: 'sidereal'
+    });
+    const strip = (aspects: ReturnType<typeof calculateInterAspects>) =>
+      aspects.map(({ planet1, planet2, aspect, orb }) => ({ planet1, planet2, aspect, orb }));
+    expect(strip(calculateInterAspects(alice, siderealBob))).toEqual(strip(calculateInterAspects(alice, bob)));
+  });
+
+  it('places one person\'s planets in the other\'s houses', () => {
+    const overlays = calculateHouseOverlays(alice, bob);
+    expect(overlays.map(overlay => overlay.planet)).toEqual(alice.planets.map(planet => planet.name));
+    overlays.forEach((overlay, index) => {
+      expect(overlay.house).toBe(calculateHousePosition(alice.planets[index].longitude, bob.houseCusps));
+    });
+  });
+
+  it('finds a full balance overlap between a chart and itself', () => {
+    const self = calculateSynastry(alice, alice);
+    expect(self.elements.overlap).toBe(1);
+    expect(self.modalities.overlap).toBe(1);
+    expect(self.elements.person1).toEqual(self.elements.person2);
+    // Only the ten planets are counted
+    expect(Object.values(self.elements.person1).reduce((sum, count) => sum + count, 0)).toBe(10);
+  });
+
+  it('names both people in the balance summary', () => {
+    const { elements } = calculateSynastry(alice, bob);
+    expect(elements.summary).toMatch(/^Alice leans \w+, Bob leans \w+ \(\d+% element overlap\)\./);
+  });
+
+  it('turns the contacts round for the second person', () => {
+    const synastry = calculateSynastry(alice, bob);
+    const [first] = synastry.aspects;
+    const [swapped] = getPartnerContacts(synastry, 2).aspects;
+    expect(swapped).toMatchObject({ planet1: first.planet2, planet2: first.planet1, aspect: first.aspect, orb: first.orb });
+    expect(getPartnerContacts(synastry, 2).overlays).toBe(synastry.overlays.person2InPerson1Houses);
+  });
+});
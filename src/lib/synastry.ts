@@ -0,0 +1,106 @@
+import { DEFAULT_ASPECT_PROFILE, findAspect } from '@/lib/aspects';
+import { calculateHousePosition } from '@/lib/houses';
+import { isMajorBody } from '@/lib/points';
+import { toTropicalLongitude } from '@/lib/sidereal';
+import { ELEMENTS, getElement, getModality, MODALITIES } from '@/lib/zodiac';
+import type { Aspect, AstrologyReading, BalanceOverlap, HouseOverlay, SynastryResult } from '@/types/astrology';
+
+const EMPHASIS_THRESHOLD = 3;
+
+// Planets plus the angles, which both count as contact points between two charts; tropical, so a sidereal chart
+// can be compared with a tropical one
+function contactPoints(reading: AstrologyReading): Array<{ name: string; longitude: number }> {
+  return [
+    ...reading.planets.map(({ name, longitude }) => ({ name, longitude })),
+    { name: 'Ascendant', longitude: reading.ascendant },
+    { name: 'Midheaven', longitude: reading.midheaven }
+  ].map(point => ({ ...point, longitude: toTropicalLongitude(point.longitude, reading) }));
+}
+
+// Aspects between every point of one chart and every point of the other, tightest first, under the first chart's profile
+export function calculateInterAspects(reading1: AstrologyReading, reading2: AstrologyReading): Aspect[] {
+  const profile = reading1.aspectProfile || DEFAULT_ASPECT_PROFILE;
+  const aspects: Aspect[] = [];
+
+  for (const point1 of contactPoints(reading1)) {
+    for (const point2 of contactPoints(reading2)) {
+      const aspect = findAspect(point1, point2, profile);
+      if (aspect) {
+        aspects.push({ planet1: point1.name, planet2: point2.name, ...aspect });
+      }
+    }
+  }
+  return aspects.sort((a, b) => a.orb - b.orb);
+}
+
+// Where one person's planets land in the other person's houses
+export function calculateHouseOverlays(planetsFrom: AstrologyReading, housesOf: AstrologyReading): HouseOverlay[] {
+  const cusps = housesOf.houseCusps.map(cusp => toTropicalLongitude(cusp, housesOf));
+  return planetsFrom.planets.map(planet => ({
+    planet: planet.name,
+    sign: planet.sign,
+    house: calculateHousePosition(toTropicalLongitude(planet.longitude, planetsFrom), cusps)
+  }));
+}
+
+function countBy(reading: AstrologyReading, categories: string[], categorize: (sign: string) => string): Record<string, number> {
+  const counts = Object.fromEntries(categories.map(category => [category, 0]));
+  // The nodes and other points are not planets, so they stay out of the balance
+  for (const planet of reading.planets.filter(p => isMajorBody(p.name))) {
+    counts[categorize(planet.sign)]++;
+  }
+  return counts;
+}
+
+function compareBalance(
+  reading1: AstrologyReading,
+  reading2: AstrologyReading,
+  categories: string[],
+  categorize: (sign: string) => string,
+  label: string
+): BalanceOverlap {
+  const person1 = countBy(reading1, categories, categorize);
+  const person2 = countBy(reading2, categories, categorize);
+  const total = Object.values(person1).reduce((sum, count) => sum + count, 0) || 1;
+
+  const shared = categories.filter(category => person1[category] >= EMPHASIS_THRESHOLD && person2[category] >= EMPHASIS_THRESHOLD);
+  const overlap = categories.reduce((sum, category) => sum + Math.min(person1[category], person2[category]), 0) / total;
+
+  const dominant = (counts: Record<string, number>) => categories.reduce((best, category) => counts[category] > counts[best] ? category : best);
+  const missingInOne = categories.filter(category => (person1[category] === 0) !== (person2[category] === 0));
+  const name1 = reading1.birthInfo.name || 'Person 1';
+  const name2 = reading2.birthInfo.name || 'Person 2';
+
+  const summary = [
+    `${name1} leans ${dominant(person1)}, ${name2} leans ${dominant(person2)} (${Math.round(overlap * 100)}% ${label} overlap).`,
+    shared.length > 0 ? `Both emphasise ${shared.join(' and ')}.` : `No ${label} is emphasised in both charts.`,
+    ...missingInOne.map(category => `${person1[category] === 0 ? name2 : name1} supplies the ${category} the other lacks.`)
+  ].join(' ');
+
+  return { person1, person2, shared, overlap: Math.round(overlap * 100) / 100, summary };
+}
+
+export function calculateSynastry(person1: AstrologyReading, person2: AstrologyReading): SynastryResult {
+  return {
+    person1,
+    person2,
+    aspects: calculateInterAspects(person1, person2),
+    overlays: {
+      person1InPerson2Houses: calculateHouseOverlays(person1, person2),
+      person2InPerson1Houses: calculateHouseOverlays(person2, person1)
+    },
+    elements: compareBalance(person1, person2, ELEMENTS, getElement, 'element'),
+    modalities: compareBalance(person1, person2, MODALITIES, getModality, 'modality')
+  };
+}
+
+// One person's side of a synastry: their contacts to the partner, with their own point listed first
+export function getPartnerContacts(synastry: SynastryResult, person: 1 | 2): { aspects: Aspect[]; overlays: HouseOverlay[] } {
+  if (person === 1) {
+    return { aspects: synastry.aspects, overlays: synastry.overlays.person1InPerson2Houses };
+  }
+  return {
+    aspects: synastry.aspects.map(aspect => ({ ...aspect, planet1: aspect.planet2, planet2: aspect.planet1 })),
+    overlays: synastry.overlays.person2InPerson1Houses
+  };
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { describeInstant, formatUtcOffset, lookupTimeZone, resolveBirthTimezone, resolveLocalTime } from '@/lib/timezone';
+
+describe('resolveLocalTime', () => {
+  it('converts an ordinary summer time reading', () => {
+    expect(resolveLocalTime('1990-06-15', '14:30', 'Europe/London')).toMatchObject({
+      utcOffset: '+01:00',
+      utcOffsetSeconds: 3600,
+      dst: true,
+      utcDate: '1990-06-15',
+      utcTime: '13:30:00',
+      status: 'exact'
+    });
+    expect(resolveLocalTime('1990-01-15', '14:30', 'Europe/London')).toMatchObject({ utcTime: '14:30:00', dst: false });
+  });
+
+  it('crosses the date line into the previous UT day', () => {
+    expect(resolveLocalTime('2020-01-01', '05:00', 'Asia/Kolkata')).toMatchObject({
+      utcOffset: '+05:30',
+      utcDate: '2019-12-31',
+      utcTime: '23:30:00'
+    });
+  });
+
+  it('reads a time inside a spring-forward gap with the offset from before the jump', () => {
+    // UK clocks went from 01:00 GMT to 02:00 BST on 2021-03-28
+    expect(resolveLocalTime('2021-03-28', '01:30', 'Europe/London')).toMatchObject({
+      status: 'nonexistent',
+      adjustedLocalTime: '02:30:00',
+      utcTime: '01:30:00',
+      utcOffset: '+01:00'
+    });
+    // US clocks went from 02:00 EST to 03:00 EDT on 2021-03-14
+    expect(resolveLocalTime('2021-03-14', '02:30', 'America/New_York')).toMatchObject({
+      status: 'nonexistent',
+      adjustedLocalTime: '03:30:00',
+      utcTime: '07:30:00'
+    });
+  });
+
+  it('handles a half-hour gap', () => {
+    // Lord Howe Island moves from +10:30 to +11:00 at 02:00 local time
+    expect(resolveLocalTime('2021-10-03', '02:15', 'Australia/Lord_Howe')).toMatchObject({
+      status: 'nonexistent',
+      adjustedLocalTime: '02:45:00',
+      utcOffset: '+11:00'
+    });
+  });
+
+  it('resolves a fall-back overlap to either reading', () => {
+    // UK clocks went back from 02:00 BST to 01:00 GMT on 2021-10-31
+    const earlier = resolveLocalTime('2021-10-31', '01:30', 'Europe/London');
+    expect(earlier).toMatchObject({
+      status: 'ambiguous',
+      utcTime: '00:30:00',
+      utcOffset: '+01:00',
+      dst: true,
+      alternative: { utcOffset: '+00:00', utcDate: '2021-10-31', utcTime: '01:30:00' }
+    });
+
+    const later = resolveLocalTime('2021-10-31', '01:30', 'Europe/London', 'later');
+    expect(later).toMatchObject({
+      status: 'ambiguous',
+      utcTime: '01:30:00',
+      utcOffset: '+00:00',
+      dst: false,
+      alternative: { utcOffset: '+01:00', utcTime: '00:30:00' }
+    });
+  });
+
+  it('resolves a US fall-back overlap', () => {
+    expect(resolveLocalTime('2021-11-07', '01:30', 'America/New_York').utcTime).toBe('05:30:00');
+    expect(resolveLocalTime('2021-11-07', '01:30', 'America/New_York', 'later').utcTime).toBe('06:30:00');
+    expect(resolveLocalTime('2021-11-07', '02:30', 'America/New_York').status).toBe('exact');
+  });
+
+  it('uses local mean time before standard time was adopted', () => {
+    // New York kept its own mean time, -04:56:02, until railway time in November 1883
+    expect(resolveLocalTime('1880-01-01', '12:00', 'America/New_York')).toMatchObject({
+      utcOffsetSeconds: -17762,
+      utcOffset: '-04:56:02',
+      utcTime: '16:56:02',
+      dst: false
+    });
+  });
+
+  it('names the abbreviation in force, from the locale that knows the zone', () => {
+    expect(resolveLocalTime('1990-06-15', '14:30', 'Europe/London').abbreviation).toBe('BST');
+    expect(resolveLocalTime('1990-01-15', '14:30', 'Europe/London').abbreviation).toBe('GMT');
+    expect(resolveLocalTime('2021-07-01', '12:00', 'Europe/Paris').abbreviation).toBe('CEST');
+    expect(resolveLocalTime('2021-07-01', '12:00', 'America/New_York').abbreviation).toBe('EDT');
+    expect(resolveLocalTime('2021-07-01', '12:00', 'Australia/Sydney').abbreviation).toBe('AEST');
+    expect(resolveLocalTime('2021-07-01', '12:00', 'Asia/Kolkata').abbreviation).toBe('IST');
+  });
+
+  it('leaves the abbreviation out rather than passing off an offset as one', () => {
+    expect(resolveLocalTime('2021-07-01', '12:00', 'Asia/Tokyo')).not.toHaveProperty('abbreviation');
+    expect(resolveLocalTime('1880-01-01', '12:00', 'America/New_York')).not.toHaveProperty('abbreviation');
+  });
+
+  it('rejects unknown zones', () => {
+    expect(() => resolveLocalTime('2021-01-01', '12:00', 'Mars/Olympus_Mons')).toThrow('Unknown time zone');
+  });
+});
+
+describe('resolveBirthTimezone', () => {
+  it('looks the zone up from the birthplace unless one is given', () => {
+    const london = { latitude: 51.5074, longitude: -0.1278 };
+    expect(lookupTimeZone(london.latitude, london.longitude)).toBe('Europe/London');
+    expect(resolveBirthTimezone('1990-06-15', '14:30', london).zone).toBe('Europe/London');
+    expect(resolveBirthTimezone('1990-06-15', '14:30', london, { timeZone: 'Asia/Tokyo' }).utcTime).toBe('05:30:00');
+  });
+});
+
+describe('describeInstant', () => {
+  it('gives the local clock reading for a UT instant', () => {
+    expect(describeInstant('America/New_York', '2021-11-07', '06:30:00')).toMatchObject({
+      localDate: '2021-11-07',
+      localTime: '01:30:00',
+      utcOffset: '-05:00',
+      dst: false
+    });
+  });
+});
+
+describe('formatUtcOffset', () => {
+  it('formats hours and minutes, with seconds only when present', () => {
+    expect(formatUtcOffset(0)).toBe('+00:00');
+    expect(formatUtcOffset(19800)).toBe('+05:30');
+    expect(formatUtcOffset(-12600)).toBe('-03:30');
+    expect(formatUtcOffset(-17762)).toBe('-04:56:02');
+  });
+});
@@ -0,0 +1,221 @@
+import tzlookup from '@photostructure/tz-lookup';
+import type { TimeDisambiguation, TimezoneInfo } from '@/types/astrology';
+
+// Zone boundaries come from the bundled tz-lookup data; offsets, historical DST rules and
+// local mean time before standard time come from the tzdb that ships with the ICU runtime.
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(zone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      era: 'short'
+    });
+    formatterCache.set(zone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function lookupTimeZone(latitude: number, longitude: number): string {
+  try {
+    return tzlookup(latitude, longitude);
+  } catch (error) {
+    console.error('Timezone lookup error:', error);
+    throw new Error('Failed to resolve time zone for location');
+  }
+}
+
+// Wall-clock time in `zone` at the given instant, expressed as if it were UTC milliseconds
+function wallClockMillis(zone: string, utcMillis: number): number {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(zone).formatToParts(new Date(utcMillis))) {
+    parts[part.type] = part.value;
+  }
+  const year = parts.era === 'BC' ? 1 - Number(parts.year) : Number(parts.year);
+  const wallClock = new Date(0);
+  wallClock.setUTCFullYear(year, Number(parts.month) - 1, Number(parts.day));
+  wallClock.setUTCHours(Number(parts.hour), Number(parts.minute), Number(parts.second), 0);
+  return wallClock.getTime();
+}
+
+export function getUtcOffsetSeconds(zone: string, utcMillis: number): number {
+  const wholeSecond = Math.floor(utcMillis / 1000) * 1000;
+  return Math.round((wallClockMillis(zone, wholeSecond) - wholeSecond) / 1000);
+}
+
+export function formatUtcOffset(offsetSeconds: number): string {
+  const sign = offsetSeconds < 0 ? '-' : '+';
+  const total = Math.abs(offsetSeconds);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  return `${sign}${pad(hours)}:${pad(minutes)}${seconds ? `:${pad(seconds)}` : ''}`;
+}
+
+// English locales to ask for a zone's abbreviation; each names only its own region's zones, en-US just North America's
+const ABBREVIATION_LOCALES = ['en-US', 'en-GB', 'en-AU', 'en-NZ', 'en-IN', 'en-ZA', 'en-IE'];
+// What Intl gives instead when a locale has no name for the zone, e.g. 'GMT+9'
+const OFFSET_NAME = /^(GMT|UTC)[+-]/;
+
+const abbreviationFormatterCache = new Map<string, Intl.DateTimeFormat>();
+
+// Abbreviation in force at the instant, e.g. 'BST', or undefined when no locale has one and Intl only offers an offset
+function getAbbreviation(zone: string, utcMillis: number): string | undefined {
+  for (const locale of ABBREVIATION_LOCALES) {
+    const key = `${locale} ${zone}`;
+    let formatter = abbreviationFormatterCache.get(key);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat(locale, { timeZone: zone, timeZoneName: 'short' });
+      abbreviationFormatterCache.set(key, formatter);
+    }
+    const name = formatter.formatToParts(new Date(utcMillis)).find(part => part.type === 'timeZoneName')?.value;
+    if (name && !OFFSET_NAME.test(name)) return name;
+  }
+  return undefined;
+}
+
+// DST when the offset is ahead of the smaller of the January and July offsets that year
+function isDaylightTime(zone: string, utcMillis: number, offsetSeconds: number): boolean {
+  const year = new Date(utcMillis).getUTCFullYear();
+  const january = getUtcOffsetSeconds(zone, Date.UTC(year, 0, 1));
+  const july = getUtcOffsetSeconds(zone, Date.UTC(year, 6, 1));
+  return offsetSeconds > Math.min(january, july);
+}
+
+function parseLocalDateTime(date: string, time: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours = 0, minutes = 0, seconds = 0] = time.split(':').map(Number);
+  if ([year, month, day, hours, minutes, seconds].some(value => Number.isNaN(value))) {
+    throw new Error(`Invalid date or time: ${date} ${time}`);
+  }
+  const millis = new Date(0);
+  millis.setUTCFullYear(year, month - 1, day);
+  millis.setUTCHours(hours, minutes, seconds, 0);
+  return millis.getTime();
+}
+
+function splitIso(utcMillis: number): { date: string; time: string } {
+  const iso = new Date(utcMillis).toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 19) };
+}
+
+// Convert local civil time in `zone` to UT, reporting DST ambiguity and gaps
+export function resolveLocalTime(
+  date: string,
+  time: string,
+  zone: string,
+  disambiguation: TimeDisambiguation = 'earlier'
+): TimezoneInfo {
+  if (!isValidTimeZone(zone)) {
+    throw new Error(`Unknown time zone: ${zone}`);
+  }
+
+  const localMillis = parseLocalDateTime(date, time);
+  const day = 24 * 60 * 60 * 1000;
+
+  // Offsets in force around this wall-clock time; a transition within a day gives two candidates
+  const candidateOffsets = Array.from(new Set([
+    getUtcOffsetSeconds(zone, localMillis - day),
+    getUtcOffsetSeconds(zone, localMillis),
+    getUtcOffsetSeconds(zone, localMillis + day)
+  ]));
+  const validOffsets = candidateOffsets
+    .filter(offset => getUtcOffsetSeconds(zone, localMillis - offset * 1000) === offset)
+    .sort((a, b) => b - a); // larger offset = earlier instant
+
+  let status: TimezoneInfo['status'] = 'exact';
+  let utcMillis: number;
+  let alternative: TimezoneInfo['alternative'];
+  let adjustedLocalTime: string | undefined;
+
+  if (validOffsets.length > 1) {
+    status = 'ambiguous';
+    const [earlier, later] = [localMillis - validOffsets[0] * 1000, localMillis - validOffsets[validOffsets.length - 1] * 1000];
+    utcMillis = disambiguation === 'later' ? later : earlier;
+    const other = disambiguation === 'later' ? earlier : later;
+    const otherUtc = splitIso(other);
+    alternative = {
+      utcOffset: formatUtcOffset(getUtcOffsetSeconds(zone, other)),
+      utcDate: otherUtc.date,
+      utcTime: otherUtc.time
+    };
+  } else if (validOffsets.length === 1) {
+    utcMillis = localMillis - validOffsets[0] * 1000;
+  } else {
+    // Clocks jumped over this time; read it with the pre-transition offset, which lands after the gap
+    status = 'nonexistent';
+    const offsetBefore = getUtcOffsetSeconds(zone, localMillis - day);
+    utcMillis = localMillis - offsetBefore * 1000;
+    adjustedLocalTime = splitIso(wallClockMillis(zone, utcMillis)).time;
+  }
+
+  const offsetSeconds = getUtcOffsetSeconds(zone, utcMillis);
+  const abbreviation = getAbbreviation(zone, utcMillis);
+  const utc = splitIso(utcMillis);
+
+  return {
+    zone,
+    utcOffset: formatUtcOffset(offsetSeconds),
+    utcOffsetSeconds: offsetSeconds,
+    ...(abbreviation && { abbreviation }),
+    dst: isDaylightTime(zone, utcMillis, offsetSeconds),
+    localDate: date,
+    localTime: time,
+    utcDate: utc.date,
+    utcTime: utc.time,
+    status,
+    ...(adjustedLocalTime && { adjustedLocalTime }),
+    ...(alternative && { alternative })
+  };
+}
+
+// Resolve a birth time to UT, looking the zone up from the birthplace unless one is given
+export function resolveBirthTimezone(
+  date: string,
+  time: string,
+  location: { latitude: number; longitude: number },
+  options: { timeZone?: string; disambiguation?: TimeDisambiguation } = {}
+): TimezoneInfo {
+  const zone = options.timeZone || lookupTimeZone(location.latitude, location.longitude);
+  return resolveLocalTime(date, time, zone, options.disambiguation);
+}
+
+// Describe a UT instant in `zone`, for charts cast for a computed moment rather than a local clock reading
+export function describeInstant(zone: string, utcDate: string, utcTime: string): TimezoneInfo {
+  const utcMillis = parseLocalDateTime(utcDate, utcTime);
+  const offsetSeconds = getUtcOffsetSeconds(zone, utcMillis);
+  const abbreviation = getAbbreviation(zone, utcMillis);
+  const local = splitIso(wallClockMillis(zone, utcMillis));
+
+  return {
+    zone,
+    utcOffset: formatUtcOffset(offsetSeconds),
+    utcOffsetSeconds: offsetSeconds,
+    ...(abbreviation && { abbreviation }),
+    dst: isDaylightTime(zone, utcMillis, offsetSeconds),
+    localDate: local.date,
+    localTime: local.time,
+    utcDate,
+    utcTime,
+    status: 'exact'
+  };
+}
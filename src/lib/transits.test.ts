@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBodyPosition, julianDay } from '@/lib/ephemeris';
+import { equalCusps } from '@/lib/houses';
+import { calculateTransits, findLongitudeCrossings, searchTransitEvents, TransitSearchError, type NatalChart } from '@/lib/transits';
+import { toPlanetPosition } from '@/lib/zodiac';
+
+const DATE = '2024-03-01';
+const TIME = '12:00:00';
+const SUN_NOW = calculateBodyPosition('Sun', julianDay(DATE, TIME)).longitude;
+
+// Natal chart with equal houses from 0° Aries, so a longitude's house is its sign number
+function natalChart(planets: Array<{ name: string; longitude: number }>): NatalChart {
+  return {
+    planets: planets.map(planet => toPlanetPosition({ ...planet, speed: 0 })),
+    ascendant: 0,
+    midheaven: 270,
+    houseCusps: equalCusps(0)
+  };
+}
+
+describe('calculateTransits', () => {
+  const natal = natalChart([{ name: 'Venus', longitude: SUN_NOW + 2 }, { name: 'Mars', longitude: SUN_NOW - 3 + 90 }]);
+  const transits = calculateTransits(natal, DATE, TIME);
+
+  it('places the transiting bodies in the natal houses', () => {
+    const sun = transits.planets.find(planet => planet.name === 'Sun')!;
+    expect(sun.longitude).toBeCloseTo(SUN_NOW, 9);
+    for (const planet of transits.planets) {
+      expect(planet.natalHouse).toBe(Math.floor(planet.longitude / 30) + 1);
+    }
+
+    const listed = transits.transitedHouses.flatMap(house => house.planets);
+    expect(listed.sort()).toEqual(transits.planets.map(planet => planet.name).sort());
+    const houses = transits.transitedHouses.map(house => house.house);
+    expect(houses).toEqual([...houses].sort((a, b) => a - b));
+  });
+
+  it('reads transit aspects to natal points as applying or separating from the transiting motion', () => {
+    const conjunction = transits.aspects.find(aspect => aspect.planet1 === 'Sun' && aspect.planet2 === 'Venus');
+    expect(conjunction).toMatchObject({ aspect: 'Conjunction', orb: 2, applying: true });
+    // The Sun moves about a degree a day, so two degrees short is about two days out
+    const days = (Date.parse(conjunction!.exactDate!) - Date.parse(`${DATE}T${TIME}Z`)) / 86400000;
+    expect(days).toBeGreaterThan(1.8);
+    expect(days).toBeLessThan(2.2);
+
+    const square = transits.aspects.find(aspect => aspect.planet1 === 'Sun' && aspect.planet2 === 'Mars');
+    expect(square).toMatchObject({ aspect: 'Square', orb: 3, applying: false });
+  });
+
+  it('reads transits to the angles', () => {
+    const angular = calculateTransits({ ...natal, ascendant: SUN_NOW - 1 }, DATE, TIME);
+    expect(angular.aspects.find(aspect => aspect.planet1 === 'Sun' && aspect.planet2 === 'Ascendant'))
+      .toMatchObject({ aspect: 'Conjunction', orb: 1, applying: false });
+  });
+});
+
+describe('findLongitudeCrossings', () => {
+  const movingFrom = (start: number) => (jd: number) => (start + jd) % 360;
+
+  it('finds a crossing across 0° Aries once, even when a sample lands on the target', () => {
+    expect(findLongitudeCrossings(movingFrom(350), 0, 0, 30, 1)).toEqual([10]);
+    const [hit] = findLongitudeCrossings(movingFrom(350.5), 0, 0, 30, 1);
+    expect(hit).toBeCloseTo(9.5, 2);
+  });
+
+  it('does not mistake the wrap at the opposite point for a hit', () => {
+    expect(findLongitudeCrossings(movingFrom(170), 0, 0, 30, 1)).toEqual([]);
+  });
+
+  it('finds the same moment however the range around it is cut', () => {
+    const longitudeAt = (jd: number) => calculateBodyPosition('Mars', jd).longitude;
+    const startJd = julianDay('2024-01-01');
+    const target = calculateBodyPosition('Mars', startJd + 20.3).longitude;
+    const [whole] = findLongitudeCrossings(longitudeAt, target, startJd, startJd + 40, 1);
+    const [cut] = findLongitudeCrossings(longitudeAt, target, startJd + 20.1, startJd + 20.6, 1);
+    expect(cut).toBe(whole);
+    expect(findLongitudeCrossings(longitudeAt, target, startJd, whole, 1)).toEqual([]);
+  });
+});
+
+describe('searchTransitEvents', () => {
+  // Three points at one longitude tie every hit to it three ways
+  const natal = natalChart([
+    { name: 'Sun', longitude: 15 },
+    { name: 'Venus', longitude: 15 },
+    { name: 'Mars', longitude: 15 },
+    { name: 'Jupiter', longitude: 200 }
+  ]);
+  const search = (options: Parameters<typeof searchTransitEvents>[3]) =>
+    searchTransitEvents(natal, '2024-01-01', '2024-04-01', { bodies: ['Sun', 'Mercury'], ...options });
+
+  it('dates each hit with its orb window and pass', () => {
+    const { events } = search({});
+    expect(events.length).toBeGreaterThan(10);
+    for (const event of events) {
+      expect(event.entryDate <= event.exactDate && event.exactDate <= event.exitDate).toBe(true);
+      expect(event.pass).toBeGreaterThanOrEqual(1);
+      expect(event.pass).toBeLessThanOrEqual(event.passes);
+    }
+    // The Sun reaches 15° Aries on 2024-04-04, so its conjunction there is outside the range but its square is not
+    expect(events.some(event => event.planet1 === 'Sun' && event.planet2 === 'Sun' && event.aspect === 'Conjunction')).toBe(false);
+    expect(events.filter(event => event.planet1 === 'Sun' && event.exactDegrees === 90 && event.exactDate.startsWith('2024-01-05')))
+      .toHaveLength(3);
+  });
+
+  it.each([1, 2, 3, 5])('pages through tied events with limit %i exactly as one long page', limit => {
+    const { events: all, nextCursor } = search({});
+    expect(nextCursor).toBeUndefined();
+    const ties = all.filter((event, index) => index > 0 && event.exactDate === all[index - 1].exactDate);
+    expect(ties.length).toBeGreaterThan(0);
+
+    const paged = [];
+    let cursor: string | undefined;
+    do {
+      const page = search({ limit, cursor });
+      expect(page.events.length).toBeLessThanOrEqual(limit);
+      paged.push(...page.events);
+      cursor = page.nextCursor;
+    } while (cursor);
+    expect(paged).toEqual(all);
+  });
+
+  it('rejects requests it cannot search', () => {
+    expect(() => searchTransitEvents(natal, '2024-04-01', '2024-01-01')).toThrow(TransitSearchError);
+    expect(() => searchTransitEvents(natal, '2020-01-01', '2030-01-01')).toThrow('Date range too long');
+    expect(() => search({ bodies: ['Nibiru'] })).toThrow('Unknown body: Nibiru');
+    expect(() => searchTransitEvents(natal, '1700-01-01', '1701-01-01')).toThrow(TransitSearchError);
+    expect(() => searchTransitEvents(natal, 'soon', '2024-01-01')).toThrow(TransitSearchError);
+    expect(() => search({ cursor: 'not-a-cursor' })).toThrow('Invalid cursor');
+
+    const { nextCursor } = searchTransitEvents(natal, '2025-01-01', '2025-04-01', { limit: 1 });
+    expect(() => search({ cursor: nextCursor })).toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,369 @@
+import {
+  angularDifference,
+  calculateBodyPosition,
+  calculatePlanetPositions,
+  EPHEMERIS_BODIES,
+  julianDay,
+  normalizeDegrees,
+  toUtcDateTime,
+  validateEphemerisDate,
+  type EphemerisPosition
+} from '@/lib/ephemeris';
+import { aspectOrb, DEFAULT_ASPECT_PROFILE, findAspect, timeAspect } from '@/lib/aspects';
+import { calculateHousePosition } from '@/lib/houses';
+import { toZodiacLongitude, zodiacOffset } from '@/lib/sidereal';
+import { toPlanetPosition } from '@/lib/zodiac';
+import type { AstrologyReading, TransitAspect, TransitEvent, TransitReading, TransitSearchResult } from '@/types/astrology';
+
+export type NatalChart = Pick<AstrologyReading, 'planets' | 'ascendant' | 'midheaven' | 'houseCusps' | 'aspectProfile' | 'zodiac'>;
+
+// Natal planets plus the angles, which transits are read against as fixed points
+export function getNatalPoints(natal: NatalChart): Array<{ name: string; longitude: number }> {
+  return [
+    ...natal.planets.map(({ name, longitude }) => ({ name, longitude })),
+    { name: 'Ascendant', longitude: natal.ascendant },
+    { name: 'Midheaven', longitude: natal.midheaven }
+  ];
+}
+
+export function currentUtcDateTime(): { date: string; time: string } {
+  const iso = new Date().toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 19) };
+}
+
+// Aspects from transiting bodies at `jd` to natal points, using the natal chart's aspect profile
+export function calculateTransitAspects(transiting: EphemerisPosition[], natal: NatalChart, jd: number): TransitAspect[] {
+  const natalPoints = getNatalPoints(natal);
+  const profile = natal.aspectProfile || DEFAULT_ASPECT_PROFILE;
+  const aspects: TransitAspect[] = [];
+
+  for (const transit of transiting) {
+    for (const point of natalPoints) {
+      const aspect = findAspect(transit, point, profile);
+      if (!aspect) continue;
+
+      aspects.push({
+        planet1: transit.name,
+        planet2: point.name,
+        ...aspect,
+        ...timeAspect(transit, { longitude: point.longitude, speed: 0 }, aspect.exactDegrees, { jd, daysPerDay: 1 })
+      });
+    }
+  }
+  return aspects.sort((a, b) => a.orb - b.orb);
+}
+
+// Where a body is at a moment, in the natal chart's zodiac
+function natalZodiacLongitude(natal: NatalChart, body: string, jd: number): number {
+  return toZodiacLongitude(calculateBodyPosition(body, jd).longitude, zodiacOffset(natal.zodiac, jd));
+}
+
+// The sky at a UT moment, read against a natal chart
+export function calculateTransits(natal: NatalChart, date: string, time: string): TransitReading {
+  const jd = julianDay(date, time);
+  const offset = zodiacOffset(natal.zodiac, jd);
+  const transiting = calculatePlanetPositions(jd)
+    .map(position => ({ ...position, longitude: toZodiacLongitude(position.longitude, offset) }));
+
+  const planets = transiting.map(position => ({
+    ...toPlanetPosition(position),
+    natalHouse: calculateHousePosition(position.longitude, natal.houseCusps)
+  }));
+
+  const transitedHouses: TransitReading['transitedHouses'] = [];
+  for (const planet of planets) {
+    const entry = transitedHouses.find(house => house.house === planet.natalHouse);
+    if (entry) {
+      entry.planets.push(planet.name);
+    } else {
+      transitedHouses.push({ house: planet.natalHouse, planets: [planet.name] });
+    }
+  }
+  transitedHouses.sort((a, b) => a.house - b.house);
+
+  return {
+    date,
+    time,
+    planets,
+    aspects: calculateTransitAspects(transiting, natal, jd),
+    transitedHouses
+  };
+}
+
+// Sampling step per body for the timeline search, small enough that no hit is stepped over
+const SEARCH_STEP_DAYS: Record<string, number> = {
+  Moon: 0.25,
+  Sun: 1,
+  Mercury: 0.5,
+  Venus: 1,
+  Mars: 1
+};
+const DEFAULT_SEARCH_STEP_DAYS = 2;
+const MAX_SEARCH_DAYS = 366 * 5;
+const MAX_ORB_WINDOW_DAYS = 365 * 15; // Slow bodies can stay within orb for years
+const DEFAULT_EVENT_LIMIT = 200;
+const MAX_EVENT_LIMIT = 1000;
+// Pages scan forward from where the last one stopped this many days at a time until they hold a full page
+const SEARCH_CHUNK_DAYS = 30;
+
+// The Moon aspects every natal point several times a month, so it is only searched on request
+export const DEFAULT_TIMELINE_BODIES: string[] = EPHEMERIS_BODIES.filter(body => body !== 'Moon');
+
+// A search the request got wrong, such as an inverted range or a cursor from another search, rather than one that failed
+export class TransitSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransitSearchError';
+  }
+}
+
+export interface TransitSearchOptions {
+  bodies?: string[];
+  limit?: number;
+  cursor?: string; // nextCursor of the previous page, searched with the same start and end
+}
+
+// Where a page stopped: the exact time of its last event and how many events at that time it already held
+interface TransitCursor {
+  exactDate: string;
+  skip: number;
+}
+
+function encodeTransitCursor(cursor: TransitCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeTransitCursor(value: string, startJd: number, endJd: number): TransitCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString());
+    // A cursor from a search over other dates would resume somewhere this one never reached
+    if (typeof cursor.exactDate === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(cursor.exactDate) &&
+      Number.isInteger(cursor.skip) && cursor.skip >= 0) {
+      const cursorJd = parseUtcDateTime(cursor.exactDate);
+      if (cursorJd >= startJd - 1 / 86400 && cursorJd <= endJd) return cursor;
+    }
+  } catch {
+    // Not a cursor this search handed out; falls through to the error
+  }
+  throw new TransitSearchError('Invalid cursor');
+}
+
+// Time order, with a fixed order among events exact in the same second so pages split ties consistently
+function byExactDate(a: TransitEvent, b: TransitEvent): number {
+  return a.exactDate.localeCompare(b.exactDate) ||
+    a.planet1.localeCompare(b.planet1) ||
+    a.planet2.localeCompare(b.planet2) ||
+    a.exactDegrees - b.exactDegrees;
+}
+
+// 'YYYY-MM-DD' or 'YYYY-MM-DDTHH:MM:SS[Z]', read as UT
+export function parseUtcDateTime(value: string): number {
+  const [date, time = '00:00:00'] = value.replace(/Z$/, '').split('T');
+  return julianDay(date, time);
+}
+
+export function bisect(f: (jd: number) => number, low: number, high: number): number {
+  const lowSign = Math.sign(f(low));
+  for (let i = 0; i < 40 && Math.abs(high - low) > 1 / 1440; i++) {
+    const middle = (low + high) / 2;
+    if (Math.sign(f(middle)) === lowSign) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Moments in [startJd, endJd) where a moving longitude crosses the target longitude. Samples sit on fixed multiples
+// of `step`, so a crossing comes out the same to the second however the range around it is cut
+export function findLongitudeCrossings(
+  longitudeAt: (jd: number) => number,
+  target: number,
+  startJd: number,
+  endJd: number,
+  step: number
+): number[] {
+  const offset = (jd: number) => angularDifference(target, longitudeAt(jd));
+  const hits: number[] = [];
+
+  let index = Math.floor(startJd / step);
+  let previous = offset(index * step);
+  while (index * step < endJd) {
+    const previousJd = index * step;
+    const nextJd = (index + 1) * step;
+    const next = offset(nextJd);
+    // A sample right on the target counts for the interval it ends, or it would be found twice; a sign change far
+    // from the target is the wrap at the opposite point, not a hit
+    if ((previous < 0) !== (next < 0) && Math.abs(previous) < 90 && Math.abs(next) < 90) {
+      const hit = next === 0 ? nextJd : bisect(offset, previousJd, nextJd);
+      if (hit >= startJd && hit < endJd) hits.push(hit);
+    }
+    index++;
+    previous = next;
+  }
+  return hits;
+}
+
+function findExactHits(natal: NatalChart, body: string, target: number, startJd: number, endJd: number, step: number): number[] {
+  return findLongitudeCrossings(jd => natalZodiacLongitude(natal, body, jd), target, startJd, endJd, step);
+}
+
+// Edge of the orb window around an exact hit, searching backward (-1) or forward (+1)
+function findOrbEdge(orbAt: (jd: number) => number, exactJd: number, maxOrb: number, step: number, direction: 1 | -1): number {
+  const within = (jd: number) => maxOrb - orbAt(jd);
+  let jd = exactJd;
+  for (let elapsed = 0; elapsed < MAX_ORB_WINDOW_DAYS; elapsed += step) {
+    const nextJd = jd + direction * step;
+    if (within(nextJd) < 0) {
+      return bisect(within, jd, nextJd);
+    }
+    jd = nextJd;
+  }
+  return jd;
+}
+
+type OrbWindow = { entryJd: number; exitJd: number; hits: number[] };
+
+// Exact hits in [fromJd, toJd) of the bodies to every natal point, each with the orb window around it and its pass
+// number; windows already found are kept in `windowsByTarget` so later chunks reuse them
+function scanTransitEvents(
+  natal: NatalChart,
+  bodies: string[],
+  fromJd: number,
+  toJd: number,
+  windowsByTarget: Map<string, OrbWindow[]>
+): TransitEvent[] {
+  const profile = natal.aspectProfile || DEFAULT_ASPECT_PROFILE;
+  const events: TransitEvent[] = [];
+
+  for (const body of bodies) {
+    const step = SEARCH_STEP_DAYS[body] || DEFAULT_SEARCH_STEP_DAYS;
+
+    for (const point of getNatalPoints(natal)) {
+      for (const aspectType of profile.aspects) {
+        const maxOrb = aspectOrb(aspectType, body, point.name, profile.orbPolicy);
+        const targets = aspectType.degrees === 0 || aspectType.degrees === 180
+          ? [normalizeDegrees(point.longitude + aspectType.degrees)]
+          : [normalizeDegrees(point.longitude + aspectType.degrees), normalizeDegrees(point.longitude - aspectType.degrees)];
+
+        const orbAt = (jd: number) => {
+          const separation = Math.abs(angularDifference(point.longitude, natalZodiacLongitude(natal, body, jd)));
+          return Math.abs(separation - aspectType.degrees);
+        };
+
+        for (const target of targets) {
+          // Hits that share an orb window are passes of the same transit
+          const key = `${body}|${point.name}|${aspectType.name}|${target}`;
+          const windows = windowsByTarget.get(key) || [];
+          windowsByTarget.set(key, windows);
+
+          for (const exactJd of findExactHits(natal, body, target, fromJd, toJd, step)) {
+            let window = windows.find(w => exactJd >= w.entryJd && exactJd <= w.exitJd);
+            if (!window) {
+              const hits = findExactHits(
+                natal, body, target, findOrbEdge(orbAt, exactJd, maxOrb, step, -1), findOrbEdge(orbAt, exactJd, maxOrb, step, 1), step
+              );
+              // Edges measured from the first and last pass, so the window is the same whichever pass found it
+              const first = hits[0] ?? exactJd;
+              const last = hits[hits.length - 1] ?? exactJd;
+              window = { entryJd: findOrbEdge(orbAt, first, maxOrb, step, -1), exitJd: findOrbEdge(orbAt, last, maxOrb, step, 1), hits };
+              windows.push(window);
+            }
+
+            const pass = window.hits.findIndex(hit => Math.abs(hit - exactJd) < 1 / 24) + 1;
+            events.push({
+              planet1: body,
+              planet2: point.name,
+              aspect: aspectType.name,
+              exactDegrees: aspectType.degrees,
+              maxOrb: Math.round(maxOrb * 100) / 100,
+              exactDate: toUtcDateTime(exactJd),
+              entryDate: toUtcDateTime(window.entryJd),
+              exitDate: toUtcDateTime(window.exitJd),
+              pass: pass || 1,
+              passes: Math.max(window.hits.length, 1),
+              retrograde: calculateBodyPosition(body, exactJd).speed < 0
+            });
+          }
+        }
+      }
+    }
+  }
+  return events;
+}
+
+// Events from the cursor on: those after its time, and those at its time that the last page did not hold yet
+function eventsAfterCursor(events: TransitEvent[], after: TransitCursor | null): TransitEvent[] {
+  if (!after) return events;
+  const resume = events.findIndex(event => event.exactDate >= after.exactDate);
+  const tied = events.filter(event => event.exactDate === after.exactDate).length;
+  return resume === -1 ? [] : events.slice(resume + Math.min(after.skip, tied));
+}
+
+function parseSearchDate(value: string, field: 'start' | 'end'): number {
+  const [date, time = '00:00:00'] = value.replace(/Z$/, '').split('T');
+  const error = validateEphemerisDate(date, time);
+  if (error) {
+    throw new TransitSearchError(`Invalid ${field}: ${error}`);
+  }
+  return julianDay(date, time);
+}
+
+// Every exact transit-to-natal hit in a date range, with the orb window around each and its pass number
+export function searchTransitEvents(
+  natal: NatalChart,
+  start: string,
+  end: string,
+  options: TransitSearchOptions = {}
+): TransitSearchResult {
+  const startJd = parseSearchDate(start, 'start');
+  const endJd = parseSearchDate(end, 'end');
+  if (endJd <= startJd) {
+    throw new TransitSearchError('End date must be after start date');
+  }
+  if (endJd - startJd > MAX_SEARCH_DAYS) {
+    throw new TransitSearchError(`Date range too long; search at most ${MAX_SEARCH_DAYS} days at a time`);
+  }
+
+  const bodies = options.bodies?.length ? options.bodies : DEFAULT_TIMELINE_BODIES;
+  const unknown = bodies.find(body => !(EPHEMERIS_BODIES as readonly string[]).includes(body));
+  if (unknown) {
+    throw new TransitSearchError(`Unknown body: ${unknown}`);
+  }
+  const limit = Math.min(Math.max(options.limit || DEFAULT_EVENT_LIMIT, 1), MAX_EVENT_LIMIT);
+  const after = options.cursor ? decodeTransitCursor(options.cursor, startJd, endJd) : null;
+
+  // Scan on from the cursor's time a chunk at a time, stopping once more than a page is certain: an event is certain
+  // when it is exact before the second the scan has reached, as the next chunk can add nothing earlier. Hits come off
+  // a fixed sampling grid, so they match the earlier pages' to the second and the cursor lands between the same events
+  const windowsByTarget = new Map<string, OrbWindow[]>();
+  const events: TransitEvent[] = [];
+  let remaining: TransitEvent[] = [];
+  let scannedTo = after ? Math.max(startJd, parseUtcDateTime(after.exactDate) - 1 / 86400) : startJd;
+  while (scannedTo < endJd) {
+    const chunkEnd = Math.min(scannedTo + SEARCH_CHUNK_DAYS, endJd);
+    events.push(...scanTransitEvents(natal, bodies, scannedTo, chunkEnd, windowsByTarget));
+    scannedTo = chunkEnd;
+
+    events.sort(byExactDate);
+    remaining = eventsAfterCursor(events, after);
+    const reached = toUtcDateTime(scannedTo);
+    if (remaining.filter(event => event.exactDate < reached).length > limit) break;
+  }
+  const page = remaining.slice(0, limit);
+
+  let nextCursor: string | undefined;
+  if (remaining.length > limit) {
+    const last = page[page.length - 1].exactDate;
+    const skip = page.filter(event => event.exactDate === last).length + (after?.exactDate === last ? after.skip : 0);
+    nextCursor = encodeTransitCursor({ exactDate: last, skip });
+  }
+
+  return {
+    start: toUtcDateTime(startJd),
+    end: toUtcDateTime(endJd),
+    events: page,
+    ...(nextCursor && { nextCursor })
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { calculateNatalChart } from '@/lib/chart';
+import { angularDifference, julianDay, toUtcDateTime } from '@/lib/ephemeris';
+import { resolveZodiac } from '@/lib/sidereal';
+import { analyzeTimeWindow, crossesMidnight, findSunrise, nextDate, resolveUncertainBirthTime, validateBirthTimeOptions } from '@/lib/uncertainty';
+
+const LONDON = { name: 'London', latitude: 51.5074, longitude: -0.1278 };
+const TROMSO = { name: 'Tromsø', latitude: 69.6492, longitude: 18.9553 };
+
+describe('validateBirthTimeOptions', () => {
+  it('accepts a window that runs past midnight', () => {
+    expect(validateBirthTimeOptions('window', { start: '09:00', end: '11:30' }, undefined)).toBeNull();
+    expect(validateBirthTimeOptions('window', { start: '23:00', end: '01:00' }, undefined)).toBeNull();
+  });
+
+  it('names what is wrong with a window', () => {
+    expect(validateBirthTimeOptions('window', undefined, undefined)).toBe('A time window needs a start and an end');
+    expect(validateBirthTimeOptions('window', { start: '9:00', end: '11:00' }, undefined)).toBe('Time window start and end must be local times as HH:MM');
+    expect(validateBirthTimeOptions('window', { start: '10:00', end: '10:00' }, undefined)).toBe('Time window start and end must differ');
+    expect(validateBirthTimeOptions('exact', { start: '10:00', end: '11:00' }, undefined)).toBe('A time window only applies to the window time mode');
+  });
+
+  it('checks the time mode and the chart for an unknown time', () => {
+    expect(validateBirthTimeOptions('unknown', undefined, 'sunrise')).toBeNull();
+    expect(validateBirthTimeOptions('roughly', undefined, undefined)).toMatch(/^Unsupported time mode: roughly/);
+    expect(validateBirthTimeOptions('unknown', undefined, 'sunset')).toMatch(/^Unsupported chart for an unknown time: sunset/);
+    expect(validateBirthTimeOptions('window', { start: '10:00', end: '11:00' }, 'noon')).toBe('A noon or sunrise chart only applies to the unknown time mode');
+  });
+});
+
+describe('window dates', () => {
+  it('tells a window past midnight by its end coming first', () => {
+    expect(crossesMidnight({ start: '23:00', end: '01:00' })).toBe(true);
+    expect(crossesMidnight({ start: '01:00', end: '23:00' })).toBe(false);
+  });
+
+  it('steps to the next calendar date across months, years and leap days', () => {
+    expect(nextDate('2021-01-31')).toBe('2021-02-01');
+    expect(nextDate('2020-02-28')).toBe('2020-02-29');
+    expect(nextDate('1999-12-31')).toBe('2000-01-01');
+  });
+});
+
+describe('resolveUncertainBirthTime', () => {
+  it('casts a window for its midpoint', () => {
+    const { timezone, startJd, endJd, castFor } = resolveUncertainBirthTime('2021-01-15', LONDON, {
+      timeMode: 'window', timeWindow: { start: '09:00', end: '11:00' }
+    });
+    expect(castFor).toBe('midpoint');
+    expect(timezone).toMatchObject({ localDate: '2021-01-15', localTime: '10:00:00' });
+    expect((endJd - startJd) * 24).toBeCloseTo(2, 6);
+  });
+
+  it('ends a window past midnight on the next day', () => {
+    const { timezone, startJd, endJd } = resolveUncertainBirthTime('2021-01-15', LONDON, {
+      timeMode: 'window', timeWindow: { start: '23:00', end: '01:00' }
+    });
+    expect(toUtcDateTime(startJd)).toBe('2021-01-15T23:00:00Z');
+    expect(toUtcDateTime(endJd)).toBe('2021-01-16T01:00:00Z');
+    expect(timezone).toMatchObject({ localDate: '2021-01-16', localTime: '00:00:00' });
+  });
+
+  it('casts an unknown time for noon or for sunrise', () => {
+    const noon = resolveUncertainBirthTime('2021-06-21', LONDON, { timeMode: 'unknown' });
+    expect(noon).toMatchObject({ castFor: 'noon', window: { start: '00:00', end: '23:59' }, timezone: { localTime: '12:00:00' } });
+
+    // Sunrise in London on the solstice is at 04:43 BST; the Sun's centre crosses the Ascendant a few minutes later
+    const sunrise = resolveUncertainBirthTime('2021-06-21', LONDON, { timeMode: 'unknown', unknownTimeChart: 'sunrise' });
+    expect(sunrise.castFor).toBe('sunrise');
+    const [hours, minutes] = sunrise.timezone.localTime.split(':').map(Number);
+    expect(hours * 60 + minutes).toBeGreaterThan(4 * 60 + 40);
+    expect(hours * 60 + minutes).toBeLessThan(5 * 60);
+  });
+
+  it('falls back to noon where the Sun does not rise', () => {
+    // Tromsø has midnight sun at the solstice
+    expect(resolveUncertainBirthTime('2021-06-21', TROMSO, { timeMode: 'unknown', unknownTimeChart: 'sunrise' }).castFor).toBe('noon');
+    const start = julianDay('2021-06-20', '22:00:00');
+    expect(findSunrise(start, start + 1, TROMSO.latitude, TROMSO.longitude)).toBeNull();
+  });
+});
+
+describe('analyzeTimeWindow', () => {
+  it('follows the Ascendant through the signs and flags houses that change', () => {
+    const startJd = julianDay('2021-01-15', '08:00:00');
+    const analysis = analyzeTimeWindow(startJd, startJd + 4 / 24, LONDON, 'placidus', resolveZodiac());
+
+    expect(analysis.ascendant.signs.length).toBeGreaterThan(1);
+    expect(analysis.housesReliable).toBe(false);
+    const sun = analysis.placements.find(placement => placement.name === 'Sun')!;
+    expect(sun).toMatchObject({ signs: ['Capricorn'], signCertain: true, houseCertain: false });
+    expect(analysis.placements.find(placement => placement.name === 'Pluto')?.signCertain).toBe(true);
+  });
+
+  it('reports the spread of a chart cast across a window past midnight', async () => {
+    const reading = await calculateNatalChart({
+      date: '2021-01-15', location: LONDON, timeMode: 'window', timeWindow: { start: '23:00', end: '01:00' }
+    });
+    expect(reading.timezone).toMatchObject({ localDate: '2021-01-16', localTime: '00:00:00' });
+    expect(reading.timeUncertainty).toMatchObject({ mode: 'window', castFor: 'midpoint', window: { start: '23:00', end: '01:00' } });
+    // Two hours of sky turn the Ascendant through more than 15°
+    const { start, end } = reading.timeUncertainty!.ascendant;
+    expect(Math.abs(angularDifference(start, end))).toBeGreaterThan(15);
+  });
+});
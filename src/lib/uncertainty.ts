@@ -0,0 +1,216 @@
+import { angularDifference, calculateAngles, calculateBodyPosition, calculatePlanetPositions, julianDay, toUtcDateTime } from '@/lib/ephemeris';
+import { calculateHouseCusps, calculateHousePosition, wholeSignCusps } from '@/lib/houses';
+import { calculateExtraPoints } from '@/lib/points';
+import { toZodiacLongitude, zodiacOffset } from '@/lib/sidereal';
+import { describeInstant, resolveBirthTimezone } from '@/lib/timezone';
+import { bisect } from '@/lib/transits';
+import { getSignAndDegree } from '@/lib/zodiac';
+import type {
+  AngleRange,
+  BirthTimeMode,
+  ExtraPoint,
+  HouseSystem,
+  PlacementRange,
+  TimeDisambiguation,
+  TimeUncertainty,
+  TimeWindow,
+  TimezoneInfo,
+  UnknownTimeChart,
+  ZodiacSettings
+} from '@/types/astrology';
+
+export const BIRTH_TIME_MODES: BirthTimeMode[] = ['exact', 'window', 'unknown'];
+export const UNKNOWN_TIME_CHARTS: UnknownTimeChart[] = ['noon', 'sunrise'];
+
+export const FULL_DAY: TimeWindow = { start: '00:00', end: '23:59' };
+const NOON = '12:00:00';
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// The Ascendant moves a degree every four minutes or so, so ten-minute steps catch every sign and house change
+// that lasts long enough to matter
+const SAMPLE_STEP_DAYS = 10 / 1440;
+
+export function isBirthTimeMode(value: unknown): value is BirthTimeMode {
+  return typeof value === 'string' && (BIRTH_TIME_MODES as string[]).includes(value);
+}
+
+export function isUnknownTimeChart(value: unknown): value is UnknownTimeChart {
+  return typeof value === 'string' && (UNKNOWN_TIME_CHARTS as string[]).includes(value);
+}
+
+export function isTimeKnown(mode: BirthTimeMode | undefined): boolean {
+  return !mode || mode === 'exact';
+}
+
+// Reason the birth time options cannot be used, or null when they are fine
+export function validateBirthTimeOptions(
+  timeMode: unknown,
+  timeWindow: unknown,
+  unknownTimeChart: unknown
+): string | null {
+  if (timeMode !== undefined && !isBirthTimeMode(timeMode)) {
+    return `Unsupported time mode: ${timeMode}. Use one of: ${BIRTH_TIME_MODES.join(', ')}`;
+  }
+
+  if (timeMode === 'window') {
+    const window = timeWindow as Partial<TimeWindow> | undefined;
+    if (!window || typeof window.start !== 'string' || typeof window.end !== 'string') {
+      return 'A time window needs a start and an end';
+    }
+    if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+      return 'Time window start and end must be local times as HH:MM';
+    }
+    if (window.start === window.end) {
+      return 'Time window start and end must differ';
+    }
+  } else if (timeWindow !== undefined) {
+    return 'A time window only applies to the window time mode';
+  }
+
+  if (unknownTimeChart !== undefined) {
+    if (!isUnknownTimeChart(unknownTimeChart)) {
+      return `Unsupported chart for an unknown time: ${unknownTimeChart}. Use one of: ${UNKNOWN_TIME_CHARTS.join(', ')}`;
+    }
+    if (timeMode !== 'unknown') {
+      return 'A noon or sunrise chart only applies to the unknown time mode';
+    }
+  }
+
+  return null;
+}
+
+// A window that ends before it starts, such as 23:00 to 01:00, runs past midnight into the next day
+export function crossesMidnight(window: TimeWindow): boolean {
+  return window.end < window.start;
+}
+
+// Calendar date after a YYYY-MM-DD date
+export function nextDate(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+// Moment the Sun crosses the Ascendant between two instants, or null where it does not rise (polar day or night)
+export function findSunrise(startJd: number, endJd: number, latitude: number, longitude: number): number | null {
+  const sunBelowAscendant = (jd: number) =>
+    angularDifference(calculateBodyPosition('Sun', jd).longitude, calculateAngles(jd, latitude, longitude).ascendant);
+
+  for (let jd = startJd; jd < endJd; jd += SAMPLE_STEP_DAYS) {
+    const next = Math.min(jd + SAMPLE_STEP_DAYS, endJd);
+    const before = sunBelowAscendant(jd);
+    const after = sunBelowAscendant(next);
+    // Rising is the Ascendant passing the Sun, not the jump from +180 to -180 on the far side
+    if (before <= 0 && after > 0 && after - before < 90) {
+      return bisect(sunBelowAscendant, jd, next);
+    }
+  }
+  return null;
+}
+
+function ordered<T>(values: T[]): T[] {
+  return values.filter((value, index) => values.indexOf(value) === index);
+}
+
+function angleRange(longitudes: number[]): AngleRange {
+  return {
+    start: longitudes[0],
+    end: longitudes[longitudes.length - 1],
+    signs: ordered(longitudes.map(longitude => getSignAndDegree(longitude).sign))
+  };
+}
+
+// Signs and houses of every point, and the span of the angles, sampled across the window
+export function analyzeTimeWindow(
+  startJd: number,
+  endJd: number,
+  location: { latitude: number; longitude: number },
+  houseSystem: HouseSystem,
+  zodiac: ZodiacSettings,
+  extraPoints: ExtraPoint[] = []
+): Pick<TimeUncertainty, 'ascendant' | 'midheaven' | 'placements' | 'housesReliable'> {
+  const { latitude, longitude } = location;
+  const samples: number[] = [];
+  for (let jd = startJd; jd < endJd; jd += SAMPLE_STEP_DAYS) samples.push(jd);
+  samples.push(endJd);
+
+  const ascendants: number[] = [];
+  const midheavens: number[] = [];
+  const longitudes = new Map<string, number[]>();
+  const signs = new Map<string, string[]>();
+  const houses = new Map<string, number[]>();
+
+  for (const jd of samples) {
+    const offset = zodiacOffset(zodiac, jd);
+    const angles = calculateAngles(jd, latitude, longitude);
+    const ascendant = toZodiacLongitude(angles.ascendant, offset);
+    const { system, cusps } = calculateHouseCusps(houseSystem, angles, latitude);
+    const zodiacCusps = system === 'whole-sign' ? wholeSignCusps(ascendant) : cusps.map(cusp => toZodiacLongitude(cusp, offset));
+    ascendants.push(ascendant);
+    midheavens.push(toZodiacLongitude(angles.midheaven, offset));
+
+    for (const point of [...calculatePlanetPositions(jd), ...calculateExtraPoints(extraPoints, jd, latitude, longitude)]) {
+      const pointLongitude = toZodiacLongitude(point.longitude, offset);
+      longitudes.set(point.name, [...(longitudes.get(point.name) || []), pointLongitude]);
+      signs.set(point.name, [...(signs.get(point.name) || []), getSignAndDegree(pointLongitude).sign]);
+      houses.set(point.name, [...(houses.get(point.name) || []), calculateHousePosition(pointLongitude, zodiacCusps)]);
+    }
+  }
+
+  const placements: PlacementRange[] = [...signs.keys()].map(name => {
+    const pointSigns = ordered(signs.get(name)!);
+    const pointHouses = ordered(houses.get(name)!);
+    const pointLongitudes = longitudes.get(name)!;
+    return {
+      name,
+      start: pointLongitudes[0],
+      end: pointLongitudes[pointLongitudes.length - 1],
+      signs: pointSigns,
+      houses: pointHouses,
+      signCertain: pointSigns.length === 1,
+      houseCertain: pointHouses.length === 1
+    };
+  });
+
+  return {
+    ascendant: angleRange(ascendants),
+    midheaven: angleRange(midheavens),
+    placements,
+    housesReliable: placements.every(placement => placement.houseCertain)
+  };
+}
+
+// Time zone of the moment an uncertain birth time is cast for, and the UT bounds of the window it stands for
+export function resolveUncertainBirthTime(
+  date: string,
+  location: { latitude: number; longitude: number },
+  options: {
+    timeMode: Exclude<BirthTimeMode, 'exact'>;
+    timeWindow?: TimeWindow;
+    unknownTimeChart?: UnknownTimeChart;
+    timeZone?: string;
+    disambiguation?: TimeDisambiguation;
+  }
+): { timezone: TimezoneInfo; window: TimeWindow; startJd: number; endJd: number; castFor: TimeUncertainty['castFor'] } {
+  const { timeMode, unknownTimeChart = 'noon', timeZone, disambiguation } = options;
+  const window = timeMode === 'unknown' ? FULL_DAY : options.timeWindow!;
+  const instant = (time: string, day = date) => {
+    const zone = resolveBirthTimezone(day, time, location, { timeZone, disambiguation });
+    return { zone: zone.zone, jd: julianDay(zone.utcDate, zone.utcTime), timezone: zone };
+  };
+
+  const start = instant(`${window.start}:00`);
+  const end = instant(`${window.end}:00`, crossesMidnight(window) ? nextDate(date) : date);
+
+  if (timeMode === 'window') {
+    const [utcDate, utcTime] = toUtcDateTime((start.jd + end.jd) / 2).replace('Z', '').split('T');
+    return { timezone: describeInstant(start.zone, utcDate, utcTime), window, startJd: start.jd, endJd: end.jd, castFor: 'midpoint' };
+  }
+
+  const sunrise = unknownTimeChart === 'sunrise' ? findSunrise(start.jd, end.jd, location.latitude, location.longitude) : null;
+  if (sunrise === null) {
+    return { timezone: instant(NOON).timezone, window, startJd: start.jd, endJd: end.jd, castFor: 'noon' };
+  }
+  const [utcDate, utcTime] = toUtcDateTime(sunrise).replace('Z', '').split('T');
+  return { timezone: describeInstant(start.zone, utcDate, utcTime), window, startJd: start.jd, endJd: end.jd, castFor: 'sunrise' };
+}
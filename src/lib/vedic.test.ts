@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { calculateNatalChart } from '@/lib/chart';
+import { angularDifference, julianDay } from '@/lib/ephemeris';
+import { calculateVedicChart, calculateVimshottariDasha, divisionalLongitude, getNakshatra } from '@/lib/vedic';
+import { getSignAndDegree } from '@/lib/zodiac';
+
+const BIRTH_JD = julianDay('1990-06-15', '12:00:00');
+const YEAR_DAYS = 365.25;
+const NAKSHATRA_SPAN = 360 / 27;
+
+const signOf = (longitude: number) => getSignAndDegree(longitude).sign;
+
+describe('getNakshatra', () => {
+  it('finds the nakshatra, its lord and pada', () => {
+    expect(getNakshatra(0)).toEqual({ name: 'Ashwini', number: 1, lord: 'Ketu', pada: 1, degree: 0 });
+    expect(getNakshatra(40)).toMatchObject({ name: 'Rohini', lord: 'Moon', pada: 1 });
+    expect(getNakshatra(359.9)).toMatchObject({ name: 'Revati', number: 27, lord: 'Mercury', pada: 4 });
+  });
+});
+
+describe('calculateVimshottariDasha', () => {
+  it('runs a full 120-year cycle of contiguous periods from the Moon\'s nakshatra lord', () => {
+    const { mahadashas, balanceYears } = calculateVimshottariDasha(0, BIRTH_JD);
+    expect(mahadashas.map(maha => maha.lord)).toEqual(['Ketu', 'Venus', 'Sun', 'Moon', 'Mars', 'Rahu', 'Jupiter', 'Saturn', 'Mercury']);
+    expect(balanceYears).toBe(7);
+    expect(mahadashas.reduce((sum, maha) => sum + maha.years, 0)).toBe(120);
+
+    mahadashas.slice(1).forEach((maha, index) => expect(maha.start).toBe(mahadashas[index].end));
+    for (const maha of mahadashas) {
+      expect(maha.antardashas[0].lord).toBe(maha.lord);
+      expect(maha.antardashas[0].start).toBe(maha.start);
+      expect(maha.antardashas.at(-1)!.end).toBe(maha.end);
+      expect(maha.antardashas.reduce((sum, antar) => sum + antar.years, 0)).toBeCloseTo(maha.years, 9);
+    }
+  });
+
+  it('starts at birth with the balance of the first period', () => {
+    // Halfway through Ashwini, half of Ketu's seven years are left
+    const { mahadashas, balanceYears } = calculateVimshottariDasha(NAKSHATRA_SPAN / 2, BIRTH_JD);
+    expect(balanceYears).toBe(3.5);
+    expect(mahadashas[0].start).toBe('1990-06-15T12:00:00Z');
+
+    // 3.5 years in, the Ketu/Rahu antardasha is running, so the four before it are dropped
+    const antardashas = mahadashas[0].antardashas;
+    expect(antardashas.map(antar => antar.lord)).toEqual(['Rahu', 'Jupiter', 'Saturn', 'Mercury']);
+    expect(antardashas[0].start).toBe(mahadashas[0].start);
+    // Ketu/Rahu closes 7 × 68 / 120 years into Ketu's period
+    expect(antardashas[0].years).toBe(0.467);
+  });
+
+  it('names the periods running on a date', () => {
+    // Ketu runs to age 7, then Venus/Venus for 20 × 20 / 120 years
+    expect(calculateVimshottariDasha(0, BIRTH_JD, BIRTH_JD + 10 * YEAR_DAYS).current)
+      .toMatchObject({ mahadasha: 'Venus', antardasha: 'Venus' });
+    expect(calculateVimshottariDasha(0, BIRTH_JD, BIRTH_JD + 10.4 * YEAR_DAYS).current)
+      .toMatchObject({ mahadasha: 'Venus', antardasha: 'Sun' });
+    expect(calculateVimshottariDasha(0, BIRTH_JD).current).toBeUndefined();
+  });
+});
+
+describe('divisionalLongitude', () => {
+  it('runs the navamsas on from Aries through the zodiac', () => {
+    expect(signOf(divisionalLongitude('D9', 1))).toBe('Aries');
+    expect(signOf(divisionalLongitude('D9', 4))).toBe('Taurus');
+    // Taurus begins its navamsas in Capricorn and Leo in Aries
+    expect(signOf(divisionalLongitude('D9', 31))).toBe('Capricorn');
+    expect(signOf(divisionalLongitude('D9', 121))).toBe('Aries');
+    expect(signOf(divisionalLongitude('D9', 359))).toBe('Pisces');
+  });
+
+  it('counts the dasamsas from odd signs themselves and from the ninth sign for even ones', () => {
+    expect(divisionalLongitude('D10', 0)).toBe(0);
+    expect(divisionalLongitude('D10', 3.5)).toBeCloseTo(35, 9);
+    expect(signOf(divisionalLongitude('D10', 31))).toBe('Capricorn');
+    expect(signOf(divisionalLongitude('D10', 61))).toBe('Gemini');
+    expect(signOf(divisionalLongitude('D10', 359))).toBe('Leo');
+  });
+});
+
+describe('calculateVedicChart', () => {
+  it('shifts a tropical reading into the sidereal zodiac with the nodes as Rahu and Ketu', async () => {
+    const reading = await calculateNatalChart({
+      date: '1990-06-15', time: '14:30', location: { name: 'London', latitude: 51.5074, longitude: -0.1278 }, timeZone: 'Europe/London'
+    });
+    const vedic = calculateVedicChart(reading, { currentJd: julianDay('2024-01-01', '00:00:00') });
+    const graha = (name: string) => vedic.planets.find(planet => planet.name === name)!;
+
+    expect(vedic.planets.map(planet => planet.name)).toEqual(['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn', 'Rahu', 'Ketu']);
+    expect(angularDifference(reading.sun.longitude, graha('Sun').longitude)).toBeCloseTo(-vedic.ayanamsaValue, 9);
+    expect(Math.abs(angularDifference(graha('Rahu').longitude, graha('Ketu').longitude))).toBeCloseTo(180, 9);
+    expect(vedic.houses[0].sign).toBe(signOf(vedic.ascendant));
+    expect(vedic.divisionalCharts.D9.ascendant).toBeCloseTo(divisionalLongitude('D9', vedic.ascendant), 9);
+    expect(vedic.dasha.moonNakshatra.name).toBe(graha('Moon').nakshatra.name);
+    expect(vedic.dasha.current).toBeDefined();
+  });
+});
@@ -0,0 +1,182 @@
+import { julianDay, normalizeDegrees, toUtcDateTime } from '@/lib/ephemeris';
+import { buildHouses } from '@/lib/chart';
+import { wholeSignCusps } from '@/lib/houses';
+import { calculateAyanamsa, DEFAULT_AYANAMSA, toTropicalLongitude } from '@/lib/sidereal';
+import { toPlanetPosition } from '@/lib/zodiac';
+import type {
+  AstrologyReading,
+  Ayanamsa,
+  DashaLord,
+  DashaPeriod,
+  DivisionalChart,
+  DivisionalChartKey,
+  Mahadasha,
+  NakshatraPosition,
+  VedicReading,
+  VimshottariDasha
+} from '@/types/astrology';
+
+export const NAKSHATRAS = [
+  'Ashwini', 'Bharani', 'Krittika', 'Rohini', 'Mrigashira', 'Ardra', 'Punarvasu', 'Pushya', 'Ashlesha',
+  'Magha', 'Purva Phalguni', 'Uttara Phalguni', 'Hasta', 'Chitra', 'Swati', 'Vishakha', 'Anuradha', 'Jyeshtha',
+  'Mula', 'Purva Ashadha', 'Uttara Ashadha', 'Shravana', 'Dhanishta', 'Shatabhisha', 'Purva Bhadrapada', 'Uttara Bhadrapada', 'Revati'
+];
+
+const NAKSHATRA_SPAN = 360 / 27;
+const PADA_SPAN = NAKSHATRA_SPAN / 4;
+
+// Vimshottari order and years; the nakshatra lords run through it three times from Ashwini
+const DASHA_SEQUENCE: Array<[DashaLord, number]> = [
+  ['Ketu', 7], ['Venus', 20], ['Sun', 6], ['Moon', 10], ['Mars', 7],
+  ['Rahu', 18], ['Jupiter', 16], ['Saturn', 19], ['Mercury', 17]
+];
+const DASHA_CYCLE_YEARS = 120;
+const DASHA_YEAR_DAYS = 365.25;
+
+export const DIVISIONAL_CHARTS: DivisionalChartKey[] = ['D9', 'D10'];
+
+export const DIVISIONAL_CHART_NAMES: Record<DivisionalChartKey, string> = {
+  D9: 'Navamsa',
+  D10: 'Dasamsa'
+};
+
+// The seven visible grahas; Rahu and Ketu are added from the lunar node
+const GRAHAS = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+
+export function getNakshatra(longitude: number): NakshatraPosition {
+  const sidereal = normalizeDegrees(longitude);
+  const index = Math.floor(sidereal / NAKSHATRA_SPAN);
+  const degree = sidereal - index * NAKSHATRA_SPAN;
+  return {
+    name: NAKSHATRAS[index],
+    number: index + 1,
+    lord: DASHA_SEQUENCE[index % DASHA_SEQUENCE.length][0],
+    pada: Math.floor(degree / PADA_SPAN) + 1,
+    degree: Math.round(degree * 100) / 100
+  };
+}
+
+// A period with its bounds kept as Julian days while the cycle is laid out
+type TimedDashaPeriod = DashaPeriod & { startJd: number; endJd: number };
+
+function dashaPeriod(lord: DashaLord, startJd: number, years: number): TimedDashaPeriod {
+  const endJd = startJd + years * DASHA_YEAR_DAYS;
+  return { lord, start: toUtcDateTime(startJd), end: toUtcDateTime(endJd), years, startJd, endJd };
+}
+
+// Periods before birth are dropped and the one running at birth starts there, so the cycle reads from birth
+function fromBirth(period: TimedDashaPeriod, birthJd: number): DashaPeriod {
+  const { startJd, endJd, ...rest } = period;
+  if (startJd >= birthJd) return rest;
+  const years = Math.round(((endJd - birthJd) / DASHA_YEAR_DAYS) * 1000) / 1000;
+  return { ...rest, start: toUtcDateTime(birthJd), years };
+}
+
+// Mahadashas from the Moon's nakshatra at birth, each split into antardashas in the same order
+export function calculateVimshottariDasha(moonLongitude: number, birthJd: number, currentJd?: number): VimshottariDasha {
+  const moonNakshatra = getNakshatra(moonLongitude);
+  const first = (moonNakshatra.number - 1) % DASHA_SEQUENCE.length;
+  const traversed = (normalizeDegrees(moonLongitude) % NAKSHATRA_SPAN) / NAKSHATRA_SPAN;
+
+  // The first mahadasha began before birth, by the share of the nakshatra the Moon had already crossed
+  let startJd = birthJd - DASHA_SEQUENCE[first][1] * traversed * DASHA_YEAR_DAYS;
+  const mahadashas: Mahadasha[] = [];
+  let current: VimshottariDasha['current'];
+
+  for (let offset = 0; offset < DASHA_SEQUENCE.length; offset++) {
+    const [lord, years] = DASHA_SEQUENCE[(first + offset) % DASHA_SEQUENCE.length];
+    const maha = dashaPeriod(lord, startJd, years);
+
+    let subStartJd = startJd;
+    const antardashas: DashaPeriod[] = [];
+    for (let subOffset = 0; subOffset < DASHA_SEQUENCE.length; subOffset++) {
+      const [subLord, subYears] = DASHA_SEQUENCE[(first + offset + subOffset) % DASHA_SEQUENCE.length];
+      const antar = dashaPeriod(subLord, subStartJd, (years * subYears) / DASHA_CYCLE_YEARS);
+      if (currentJd !== undefined && currentJd >= antar.startJd && currentJd < antar.endJd) {
+        current = { date: toUtcDateTime(currentJd), mahadasha: lord, antardasha: subLord };
+      }
+      if (antar.endJd > birthJd) antardashas.push(fromBirth(antar, birthJd));
+      subStartJd = antar.endJd;
+    }
+
+    mahadashas.push({ ...fromBirth(maha, birthJd), antardashas });
+    startJd = maha.endJd;
+  }
+
+  return {
+    moonNakshatra,
+    balanceYears: mahadashas[0].years,
+    mahadashas,
+    ...(current && { current })
+  };
+}
+
+// Longitude in a divisional chart: D9 runs the navamsas on continuously from Aries; D10 counts odd signs from
+// themselves and even signs from the ninth sign on
+export function divisionalLongitude(key: DivisionalChartKey, longitude: number): number {
+  const sidereal = normalizeDegrees(longitude);
+  if (key === 'D9') return normalizeDegrees(sidereal * 9);
+
+  const sign = Math.floor(sidereal / 30);
+  const degree = sidereal - sign * 30;
+  const start = sign % 2 === 0 ? sign : sign + 8;
+  return ((start + Math.floor(degree / 3)) % 12) * 30 + (degree % 3) * 10;
+}
+
+function calculateDivisionalChart(
+  key: DivisionalChartKey,
+  ascendant: number,
+  planets: Array<{ name: string; longitude: number; speed: number }>
+): DivisionalChart {
+  const divisionalAscendant = divisionalLongitude(key, ascendant);
+  return {
+    key,
+    name: DIVISIONAL_CHART_NAMES[key],
+    ascendant: divisionalAscendant,
+    planets: planets.map(planet => toPlanetPosition({ ...planet, longitude: divisionalLongitude(key, planet.longitude) })),
+    houses: buildHouses(wholeSignCusps(divisionalAscendant))
+  };
+}
+
+// Jyotish view of a reading: sidereal grahas with nakshatras, Vimshottari dashas and divisional charts.
+// Tropical readings are shifted with the requested ayanamsa, sidereal ones default to their own.
+export function calculateVedicChart(
+  reading: AstrologyReading,
+  options: { ayanamsa?: Ayanamsa; currentJd?: number } = {}
+): VedicReading {
+  const ayanamsa = options.ayanamsa || reading.zodiac?.ayanamsa || DEFAULT_AYANAMSA;
+  const birthJd = julianDay(reading.timezone.utcDate, reading.timezone.utcTime);
+  const ayanamsaValue = calculateAyanamsa(ayanamsa, birthJd);
+  const toSidereal = (longitude: number) => normalizeDegrees(toTropicalLongitude(longitude, reading) - ayanamsaValue);
+
+  const ascendant = toSidereal(reading.ascendant);
+  const node = reading.northNode;
+  const grahas = [
+    ...GRAHAS.map(name => {
+      const planet = reading.planets.find(p => p.name === name);
+      if (!planet) {
+        throw new Error(`Missing position for ${name}`);
+      }
+      return { name, longitude: toSidereal(planet.longitude), speed: planet.speed };
+    }),
+    { name: 'Rahu', longitude: toSidereal(node.longitude), speed: node.speed },
+    { name: 'Ketu', longitude: toSidereal(node.longitude + 180), speed: node.speed }
+  ];
+
+  const moon = grahas.find(graha => graha.name === 'Moon')!;
+
+  return {
+    ayanamsa,
+    ayanamsaValue,
+    ascendant,
+    ascendantNakshatra: getNakshatra(ascendant),
+    planets: grahas.map(graha => ({ ...toPlanetPosition(graha), nakshatra: getNakshatra(graha.longitude) })),
+    houses: buildHouses(wholeSignCusps(ascendant)),
+    dasha: calculateVimshottariDasha(moon.longitude, birthJd, options.currentJd),
+    divisionalCharts: {
+      D9: calculateDivisionalChart('D9', ascendant, grahas),
+      D10: calculateDivisionalChart('D10', ascendant, grahas)
+    },
+    birthInfo: reading.birthInfo
+  };
+}
@@ -0,0 +1,41 @@
+import type { PlanetPosition } from '@/types/astrology';
+
+// Zodiac signs
+export const ZODIAC_SIGNS = [
+  'Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo',
+  'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces'
+];
+
+// Helper function to convert longitude to zodiac sign and degree
+export function getSignAndDegree(longitude: number): { sign: string; degree: number } {
+  const signIndex = Math.floor(longitude / 30);
+  const degree = longitude % 30;
+  return {
+    sign: ZODIAC_SIGNS[signIndex],
+    degree: Math.round(degree * 100) / 100
+  };
+}
+
+// Raw ephemeris output to the PlanetPosition shape used throughout the app
+export function toPlanetPosition(planet: { name: string; longitude: number; speed?: number; declination?: number }): PlanetPosition {
+  return {
+    name: planet.name,
+    longitude: planet.longitude,
+    speed: planet.speed || 1, // Default positive speed
+    retrograde: planet.speed ? planet.speed < 0 : false,
+    ...getSignAndDegree(planet.longitude),
+    ...(planet.declination !== undefined && { declination: planet.declination })
+  };
+}
+
+export const ELEMENTS = ['Fire', 'Earth', 'Air', 'Water'];
+export const MODALITIES = ['Cardinal', 'Fixed', 'Mutable'];
+
+// Signs run Fire, Earth, Air, Water and Cardinal, Fixed, Mutable in turn from Aries
+export function getElement(sign: string): string {
+  return ELEMENTS[ZODIAC_SIGNS.indexOf(sign) % 4];
+}
+
+export function getModality(sign: string): string {
+  return MODALITIES[ZODIAC_SIGNS.indexOf(sign) % 3];
+}
@@ -0,0 +1,22 @@
+declare module 'all-the-cities' {
+  namespace cities {
+    interface City {
+      cityId: number;
+      name: string;
+      altName: string;
+      country: string; // ISO 3166-1 alpha-2
+      featureCode: string; // GeoNames feature code, e.g. 'PPLC' for a capital
+      adminCode: string; // GeoNames first-level admin code
+      population: number;
+      loc: {
+        type: 'Point';
+        coordinates: [number, number]; // [longitude, latitude]
+      };
+      muni?: string;
+      muniSub?: string;
+    }
+  }
+
+  const cities: cities.City[];
+  export = cities;
+}
@@ -9,6 +9,18 @@ export interface BirthInfo {
   };
 }
 
+export interface GeocodeCandidate {
+  id: string; // GeoNames id, or the source's own id for online results
+  name: string;
+  label: string; // e.g. 'Paris, TX, United States'
+  country: string; // ISO 3166-1 alpha-2
+  countryName: string;
+  adminCode?: string; // First-level admin region, e.g. 'TX'
+  population: number;
+  latitude: number;
+  longitude: number;
+}
+
 export interface PlanetPosition {
   name: string;
   longitude: number;
@@ -16,6 +28,36 @@ export interface PlanetPosition {
   sign: string;
   degree: number;
   retrograde: boolean;
+  declination?: number; // Degrees north (positive) or south of the celestial equator
+  outOfBounds?: boolean; // Declination beyond the Sun's greatest, i.e. the obliquity of the ecliptic
+  dignities?: PlanetDignities; // Set on chart planets; absent on transiting positions
+}
+
+export type ReceptionType = 'rulership' | 'exaltation';
+
+export interface MutualReception {
+  planet: string;
+  type: ReceptionType | 'mixed'; // 'mixed' when one receives by rulership and the other by exaltation
+}
+
+// Essential dignities and debilities, scored with Lilly's points
+export interface PlanetDignities {
+  rulership: boolean;
+  exaltation: boolean;
+  triplicity: boolean; // Triplicity ruler for the chart's sect
+  term: boolean;
+  face: boolean;
+  detriment: boolean;
+  fall: boolean;
+  peregrine: boolean; // A traditional planet holding none of the five dignities above
+  score: number;
+  signRuler: string; // Traditional ruler of the occupied sign
+  exaltationRuler?: string;
+  triplicityRulers: [string, string, string]; // Day, night, participating
+  termRuler: string;
+  faceRuler: string;
+  receivedBy: Array<{ planet: string; by: ReceptionType }>; // Planets whose domicile or exaltation this one occupies
+  mutualReceptions: MutualReception[];
 }
 
 export interface Aspect {
@@ -24,6 +66,199 @@ export interface Aspect {
   aspect: string;
   orb: number;
   exactDegrees: number;
+  applying?: boolean; // Orb shrinking at the chart moment; absent where the points do not move relative to each other
+  exactDate?: string; // ISO 8601 UT estimate of when the aspect was or will be exact, from current speeds
+  declinations?: [number, number]; // Parallels and contraparallels only: the declinations of planet1 and planet2
+}
+
+export type AspectPreset = 'default' | 'traditional' | 'modern' | 'tight';
+
+// How an aspect's base orb is adjusted for the bodies involved
+export type OrbPolicy = 'flat' | 'luminaries' | 'moieties';
+
+export interface AspectDefinition {
+  name: string;
+  degrees: number;
+  orb: number; // Base orb, before the orb policy is applied
+}
+
+// Aspect settings as requested: a preset, optionally with its aspect list, orbs or policy replaced
+export interface AspectProfileOptions {
+  preset?: AspectPreset;
+  aspects?: string[]; // Names from the aspect catalogue
+  orbs?: Record<string, number>; // Base orb by aspect name
+  orbPolicy?: OrbPolicy;
+}
+
+// Aspect settings a chart was calculated with
+export interface AspectProfile {
+  preset: AspectPreset;
+  custom: boolean; // True when the preset was modified
+  orbPolicy: OrbPolicy;
+  aspects: AspectDefinition[];
+}
+
+export type RulershipScheme = 'traditional' | 'modern';
+
+export interface DispositorNode {
+  planet: string;
+  sign: string;
+  dispositor: string; // Ruler of the sign the planet occupies
+  disposes: string[]; // Planets in the signs this one rules
+  chain: string[]; // This planet, its dispositor, and so on until the chain ends or repeats
+  depth: number; // Steps to a final dispositor or cycle; 0 for those planets themselves
+  final: boolean; // In its own sign, so it disposes itself
+  inCycle: boolean; // Part of a loop of two or more planets disposing each other
+}
+
+export interface DispositorTree {
+  scheme: RulershipScheme;
+  nodes: DispositorNode[];
+  finalDispositors: string[];
+  cycles: string[][];
+  maxDepth: number;
+  chartRuler: string; // Ruler of the Ascendant sign
+}
+
+export interface DispositorAnalysis {
+  traditional: DispositorTree;
+  modern: DispositorTree;
+}
+
+// Optional points a chart can be cast with on top of the planets and the North Node
+export type ExtraPoint = 'chiron' | 'meanLilith' | 'trueLilith' | 'southNode' | 'partOfFortune' | 'partOfSpirit' | 'vertex' | 'eastPoint';
+
+export type ZodiacType = 'tropical' | 'sidereal';
+
+export type Ayanamsa = 'lahiri' | 'raman' | 'krishnamurti' | 'fagan-bradley';
+
+export interface ZodiacSettings {
+  type: ZodiacType;
+  ayanamsa?: Ayanamsa; // Sidereal only
+}
+
+export interface ZodiacInfo extends ZodiacSettings {
+  ayanamsaValue?: number; // Degrees subtracted from tropical longitudes for this chart
+}
+
+export type HouseSystem = 'placidus' | 'koch' | 'whole-sign' | 'equal' | 'porphyry' | 'regiomontanus' | 'campanus';
+
+// Which instant to use when a local time occurs twice (DST fall-back)
+export type TimeDisambiguation = 'earlier' | 'later';
+
+// Calculation options sent alongside BirthInfo to /api/calculate-chart
+export interface ChartOptions {
+  houseSystem?: HouseSystem;
+  timeZone?: string; // IANA zone overriding the birthplace lookup; 'UTC' when the time is already universal
+  disambiguation?: TimeDisambiguation;
+  aspectProfile?: AspectPreset | AspectProfileOptions;
+  extraPoints?: ExtraPoint[];
+  zodiac?: ZodiacType;
+  ayanamsa?: Ayanamsa; // Sidereal zodiac only; defaults to Lahiri
+  timeMode?: BirthTimeMode; // Defaults to an exact time
+  timeWindow?: TimeWindow; // Window mode only
+  unknownTimeChart?: UnknownTimeChart; // Unknown time only; defaults to noon
+}
+
+// How well the birth time is known; a window or an unknown time is cast for one moment and its spread reported
+export type BirthTimeMode = 'exact' | 'window' | 'unknown';
+export type UnknownTimeChart = 'noon' | 'sunrise';
+
+export interface TimeWindow {
+  start: string; // Local HH:MM
+  end: string;
+}
+
+// Where a point can be during the time window
+export interface PlacementRange {
+  name: string;
+  start: number; // Longitude at the start of the window
+  end: number;
+  signs: string[]; // In the order the point passes through them
+  houses: number[];
+  signCertain: boolean;
+  houseCertain: boolean;
+}
+
+export interface AngleRange {
+  start: number; // Longitude at the start of the window
+  end: number;
+  signs: string[];
+}
+
+export interface TimeUncertainty {
+  mode: Exclude<BirthTimeMode, 'exact'>;
+  window: TimeWindow;
+  castFor: 'midpoint' | UnknownTimeChart; // The moment the reading itself is cast for
+  ascendant: AngleRange;
+  midheaven: AngleRange;
+  placements: PlacementRange[];
+  housesReliable: boolean; // Every point stays in one house, so house interpretations hold
+}
+
+export type LifeEventType = 'marriage' | 'divorce' | 'relocation' | 'career' | 'loss' | 'childbirth' | 'accident' | 'other';
+
+export interface LifeEvent {
+  date: string; // YYYY-MM-DD
+  type: LifeEventType;
+  description?: string;
+}
+
+export type RectificationTechnique = 'transit' | 'secondary' | 'solar-arc';
+
+// A timing contact at an event date that supports a candidate birth time
+export interface RectificationHit {
+  event: number; // Index into the events
+  technique: RectificationTechnique;
+  planet1: string; // Transiting, progressed or directed point
+  planet2: string; // Natal point; one of the two is always an angle
+  aspect: string;
+  orb: number;
+  score: number;
+}
+
+export interface RectificationCandidate {
+  time: string; // Local HH:MM
+  score: number;
+  ascendant: number; // In the chart's zodiac
+  midheaven: number;
+  hits: RectificationHit[]; // Strongest first
+  reading: AstrologyReading; // The chart cast for this time
+}
+
+export interface RectificationResult {
+  window: TimeWindow;
+  step: number; // Minutes between scanned times
+  scanned: number;
+  events: LifeEvent[];
+  candidates: RectificationCandidate[]; // Best first
+}
+
+export interface TimezoneInfo {
+  zone: string; // IANA zone, e.g. 'Europe/London'
+  utcOffset: string; // e.g. '+01:00', or '-04:56:02' for local mean time
+  utcOffsetSeconds: number;
+  abbreviation?: string; // e.g. 'BST'; absent where the zone has none in English and only an offset like 'GMT+9' exists
+  dst: boolean;
+  localDate: string; // YYYY-MM-DD as entered
+  localTime: string; // HH:MM:SS as entered
+  utcDate: string;
+  utcTime: string;
+  status: 'exact' | 'ambiguous' | 'nonexistent';
+  adjustedLocalTime?: string; // Nonexistent times are moved forward past the DST gap
+  alternative?: { utcOffset: string; utcDate: string; utcTime: string }; // The other reading of an ambiguous time
+}
+
+export type AspectPatternType = 'Grand Trine' | 'T-Square' | 'Grand Cross' | 'Yod' | 'Kite' | 'Mystic Rectangle' | 'Stellium';
+
+export interface AspectPattern {
+  type: AspectPatternType;
+  planets: string[];
+  apex?: string; // Focal planet of a T-Square, Yod or Kite
+  element?: string; // Shared element of a Grand Trine
+  modality?: string; // Shared modality of a T-Square or Grand Cross
+  sign?: string; // Stellium by sign
+  house?: number; // Stellium by house
 }
 
 export interface House {
@@ -34,6 +269,13 @@ export interface House {
   degree: number;
 }
 
+export type ChartType = 'natal' | 'progressed' | 'solar-arc' | 'solar-return' | 'lunar-return' | 'composite' | 'davison' | 'harmonic';
+
+// Where a chart's planetary positions came from: the built-in ephemeris or the remote simple-astro-api fallback
+export type EphemerisSource = 'local' | 'simple-astro-api';
+
+export type RelationshipChartMethod = 'composite' | 'davison';
+
 export interface AstrologyReading {
   sun: PlanetPosition;
   moon: PlanetPosition;
@@ -46,22 +288,246 @@ export interface AstrologyReading {
   neptune: PlanetPosition;
   pluto: PlanetPosition;
   northNode: PlanetPosition;
+  // Extra points, present when the chart was cast with them (they are in planets too)
+  chiron?: PlanetPosition;
+  meanLilith?: PlanetPosition;
+  trueLilith?: PlanetPosition;
+  southNode?: PlanetPosition;
+  partOfFortune?: PlanetPosition;
+  partOfSpirit?: PlanetPosition;
+  vertex?: PlanetPosition;
+  eastPoint?: PlanetPosition;
   planets: PlanetPosition[];
   aspects: Aspect[];
+  aspectProfile?: AspectProfile; // Absent on readings saved before profiles existed, which used the default
+  declinationAspects?: Aspect[]; // Parallels and contraparallels, kept apart from the aspects in longitude
+  patterns?: AspectPattern[]; // Multi-planet configurations found in the aspects
+  dispositors?: DispositorAnalysis;
   houses: House[];
   ascendant: number;
   midheaven: number;
   houseCusps: number[];
+  houseSystem: HouseSystem;
+  requestedHouseSystem?: HouseSystem; // Set when the requested system is undefined at this latitude
+  zodiac?: ZodiacInfo; // Absent on readings saved before sidereal support, which were tropical
+  ephemerisSource?: EphemerisSource; // Absent on readings saved before the source was recorded, which were local
   birthInfo: BirthInfo;
-  timezone: string;
+  timezone: TimezoneInfo;
+  chartType?: ChartType; // Absent for natal charts
+  harmonic?: number; // Set on harmonic charts: the number every longitude was multiplied by
+  timeUncertainty?: TimeUncertainty; // Set when the birth time is a window or unknown
+  chartLabel?: string; // e.g. 'Secondary Progressions for 2030-01-01'
   chartDescription?: string; // Human-readable chart analysis from chart2txt
 }
 
+export interface TransitPosition extends PlanetPosition {
+  natalHouse: number; // Natal house the transiting body is passing through
+}
+
+// planet1 is the transiting body, planet2 the natal point; a body at its station has no applying flag
+export type TransitAspect = Aspect;
+
+export interface TransitReading {
+  date: string; // UT, YYYY-MM-DD
+  time: string; // UT, HH:MM:SS
+  planets: TransitPosition[];
+  aspects: TransitAspect[];
+  transitedHouses: Array<{ house: number; planets: string[] }>;
+}
+
+export interface TransitEvent extends Omit<Aspect, 'orb'> {
+  maxOrb: number; // Orb at which the aspect enters and leaves
+  exactDate: string; // UT ISO date-time of the exact hit
+  entryDate: string; // When the transit came within orb
+  exitDate: string; // When it leaves orb again
+  pass: number; // 1-based hit number within the same orb window (retrograde loops give up to three)
+  passes: number;
+  retrograde: boolean; // Transiting body's motion at the exact hit
+}
+
+export interface TransitSearchResult {
+  start: string;
+  end: string;
+  events: TransitEvent[];
+  nextCursor?: string; // Set when the list was cut at the limit; pass it back as `cursor`, with the same start and end, for the next page
+}
+
+// Uranian dials: the 90° dial folds hard aspects onto conjunctions, the 45° dial adds semi-squares and sesquiquadrates
+export type MidpointDial = 90 | 45;
+
+export interface Midpoint {
+  planet1: string;
+  planet2: string;
+  longitude: number; // The nearer midpoint of the pair
+  sign: string;
+  degree: number;
+}
+
+// A point standing on a midpoint, i.e. point = planet1/planet2 on the dial
+export interface MidpointContact {
+  planet1: string;
+  planet2: string;
+  orb: number;
+}
+
+export interface MidpointTree {
+  point: string;
+  longitude: number;
+  dialPosition: number; // Longitude folded onto the dial, 0 up to the dial size
+  midpoints: MidpointContact[]; // Tightest first
+}
+
+export interface MidpointAnalysis {
+  dial: MidpointDial;
+  orb: number;
+  midpoints: Midpoint[];
+  trees: MidpointTree[]; // Only points that sit on at least one midpoint
+}
+
+export type ProgressionMethod = 'secondary' | 'solar-arc';
+
+export interface ProgressedAspect extends TransitAspect {
+  exactDate?: string; // UT ISO date-time when the progressed (planet1) to natal (planet2) aspect is exact, if within the search span
+}
+
+export interface ProgressedMoonIngress {
+  date: string; // UT ISO date-time
+  type: 'sign' | 'house';
+  sign: string; // Sign after the change
+  house: number; // Natal house after the change
+}
+
+export interface ProgressionResult {
+  method: ProgressionMethod;
+  targetDate: string;
+  solarArc: number; // Progressed Sun minus natal Sun at the target date
+  reading: AstrologyReading; // Progressed or directed chart
+  aspects: ProgressedAspect[];
+  moon: {
+    sign: string;
+    house: number;
+    ingresses: ProgressedMoonIngress[];
+  };
+}
+
+export type ReturnKind = 'solar' | 'lunar';
+
+export interface ReturnHouseComparison {
+  ascendantInNatalHouse: number;
+  midheavenInNatalHouse: number;
+  cusps: Array<{ house: number; sign: string; degree: number; natalHouse: number }>; // Return cusp and the natal house it falls in
+  planets: Array<{ name: string; returnHouse: number; natalHouse: number }>;
+}
+
+export interface ReturnResult {
+  kind: ReturnKind;
+  period: string; // Year (solar) or YYYY-MM (lunar) that was searched
+  exactDate: string; // UT ISO date-time of the return
+  relocated: boolean;
+  reading: AstrologyReading;
+  houseComparison: ReturnHouseComparison;
+}
+
+export interface HouseOverlay {
+  planet: string;
+  sign: string;
+  house: number; // House of the other person's chart the planet falls in
+}
+
+export interface BalanceOverlap {
+  person1: Record<string, number>; // Planet count per element or modality
+  person2: Record<string, number>;
+  shared: string[]; // Emphasised (3+ planets) in both charts
+  overlap: number; // 0-1, share of planets that match up between the two distributions
+  summary: string;
+}
+
+export interface SynastryResult {
+  person1: AstrologyReading;
+  person2: AstrologyReading;
+  aspects: Aspect[]; // planet1 belongs to person1, planet2 to person2
+  overlays: {
+    person1InPerson2Houses: HouseOverlay[];
+    person2InPerson1Houses: HouseOverlay[];
+  };
+  elements: BalanceOverlap;
+  modalities: BalanceOverlap;
+}
+
+// Grahas that rule nakshatras and dasha periods
+export type DashaLord = 'Ketu' | 'Venus' | 'Sun' | 'Moon' | 'Mars' | 'Rahu' | 'Jupiter' | 'Saturn' | 'Mercury';
+
+export interface NakshatraPosition {
+  name: string;
+  number: number; // 1 (Ashwini) to 27 (Revati)
+  lord: DashaLord;
+  pada: number; // Quarter of the nakshatra, 1-4
+  degree: number; // Degrees into the nakshatra, 0-13.33
+}
+
+export interface VedicPlanet extends PlanetPosition {
+  nakshatra: NakshatraPosition;
+}
+
+export interface DashaPeriod {
+  lord: DashaLord;
+  start: string; // UT ISO date-time
+  end: string;
+  years: number;
+}
+
+export interface Mahadasha extends DashaPeriod {
+  antardashas: DashaPeriod[];
+}
+
+export interface VimshottariDasha {
+  moonNakshatra: NakshatraPosition;
+  balanceYears: number; // Years left of the first mahadasha at birth
+  mahadashas: Mahadasha[]; // One full 120-year cycle from birth
+  current?: { date: string; mahadasha: DashaLord; antardasha: DashaLord };
+}
+
+export type DivisionalChartKey = 'D9' | 'D10';
+
+export interface DivisionalChart {
+  key: DivisionalChartKey;
+  name: string; // e.g. 'Navamsa'
+  ascendant: number;
+  planets: PlanetPosition[];
+  houses: House[]; // Whole sign houses from the divisional ascendant
+}
+
+export interface VedicReading {
+  ayanamsa: Ayanamsa;
+  ayanamsaValue: number;
+  ascendant: number; // Sidereal lagna
+  ascendantNakshatra: NakshatraPosition;
+  planets: VedicPlanet[]; // The nine grahas, Rahu and Ketu being the lunar nodes
+  houses: House[]; // Whole sign houses from the lagna
+  dasha: VimshottariDasha;
+  divisionalCharts: Record<DivisionalChartKey, DivisionalChart>;
+  birthInfo: BirthInfo;
+}
+
 export interface ChatMessage {
   id: string;
-  character: 'sun' | 'moon' | 'mercury' | 'venus' | 'mars' | 'jupiter' | 'saturn' | 'uranus' | 'neptune' | 'pluto' | 'northNode' | 'user' | 'astrologer';
+  character: 'sun' | 'moon' | 'mercury' | 'venus' | 'mars' | 'jupiter' | 'saturn' | 'uranus' | 'neptune' | 'pluto' | 'northNode' | 'chiron' | 'lilith' | 'user' | 'astrologer' | 'moderator';
   content: string;
   timestamp: Date;
+  owner?: string; // Whose chart the planet belongs to when two charts are loaded
+  streaming?: boolean; // Still typing out as the response streams in
+}
+
+// How a planet answers another it aspects at the round table
+export type DebateStance = 'argue' | 'agree' | 'debate' | 'amplify';
+
+// A turn the round-table moderator hands out: who speaks, to whom, and through which aspect
+export interface DebateTurn {
+  speaker: string; // Point names as in the chart's aspects
+  replyTo: string;
+  aspect: string;
+  orb: number;
+  stance: DebateStance;
 }
 
 export interface PlanetaryCharacter {